@@ -52,7 +52,7 @@ callbackHandler.on(CallbackHandlerEventNames.TUNNEL_STATUS, (data) => {
     if (data.level === 'error') {
         console.error('Failed to establish tunnel:', data.message);
         process.exit(1);
-    } else {
+    } else if (data.state === 'online') {
         console.log(`🚀 Callback URL ready: ${data.message}`);
     }
 });
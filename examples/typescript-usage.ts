@@ -35,12 +35,12 @@ if (!ngrokAuthToken) {
 }
 
 // Create a new instance with typed options
-const options: CallbackHandlerOptions = {
+const options: CallbackHandlerOptions<MyCallbackPayload> = {
     ngrokAuthToken: ngrokAuthToken, // Replace with your actual Ngrok auth token
     customDomain: customDomain // Optional custom domain
 };
 
-const callbackHandler = new CallbackHandler(options);
+const callbackHandler = new CallbackHandler<MyCallbackPayload>(options);
 
 // Set up event listeners with proper typing using constants
 callbackHandler.on(CallbackHandlerEventNames.LOG, (data: LogEventData) => {
@@ -48,8 +48,8 @@ callbackHandler.on(CallbackHandlerEventNames.LOG, (data: LogEventData) => {
     console.log(`[${level.toUpperCase()}] ${message}`);
 });
 
-// Handle callbacks with type casting for our specific payload using constants
-callbackHandler.on(CallbackHandlerEventNames.CALLBACK, (data: CallbackEventData) => {
+// Handle callbacks typed with our specific payload using constants
+callbackHandler.on(CallbackHandlerEventNames.CALLBACK, (data: CallbackEventData<MyCallbackPayload>) => {
     // Check for query parameters
     if (data.queryParameters) {
         console.log('Query parameters received:');
@@ -65,8 +65,8 @@ callbackHandler.on(CallbackHandlerEventNames.CALLBACK, (data: CallbackEventData)
         }
     }
 
-    // Cast the body to our expected payload type
-    const payload = data.body as MyCallbackPayload;
+    // The body is typed by the handler's type parameter
+    const payload = data.body;
 
     console.log(`Received ${payload.status} callback at ${payload.timestamp}`);
 
@@ -104,8 +104,8 @@ callbackHandler.on(CallbackHandlerEventNames.TUNNEL_STATUS, (data: TunnelStatusE
 
         console.error('Tunnel error:', error);
         process.exit(1);
-    } else {
-        const url = data.message;
+    } else if (data.state === 'online' && data.url) {
+        const url = data.url;
         console.log(`Callback URL: ${url}`);
 
         // Store the URL for use in your application
@@ -113,6 +113,12 @@ callbackHandler.on(CallbackHandlerEventNames.TUNNEL_STATUS, (data: TunnelStatusE
     }
 });
 
+// Re-register the callback URL if a tunnel reconnect changes it
+callbackHandler.on(CallbackHandlerEventNames.URL_CHANGED, (data) => {
+    console.log(`Callback URL changed from ${data.previousUrl} to ${data.url}`);
+    storeCallbackUrl(data.url);
+});
+
 // Example function to store the callback URL
 function storeCallbackUrl(url: string): void {
     console.log('Storing callback URL for later use:', url);
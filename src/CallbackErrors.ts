@@ -0,0 +1,49 @@
+import { CallbackDelivery } from './sender/CallbackSender.js';
+
+/**
+ * Error thrown by {@link CallbackHandler.waitForCallback} when no matching callback
+ * arrives within the requested time.
+ */
+export class CallbackTimeoutError extends Error {
+    /** The timeout that elapsed, in milliseconds */
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`No matching callback received within ${timeoutMs}ms`);
+        this.name = 'CallbackTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Error thrown by {@link CallbackHandler.start} when every port in the configured range is in use.
+ */
+export class PortUnavailableError extends Error {
+    /** First port tried */
+    readonly firstPort: number;
+    /** Last port tried */
+    readonly lastPort: number;
+
+    constructor(firstPort: number, lastPort: number) {
+        super(firstPort === lastPort
+            ? `Port ${firstPort} is in use`
+            : `No available port between ${firstPort} and ${lastPort}`);
+        this.name = 'PortUnavailableError';
+        this.firstPort = firstPort;
+        this.lastPort = lastPort;
+    }
+}
+
+/**
+ * Error thrown by {@link CallbackSender.send} when a callback could not be delivered after all attempts.
+ */
+export class CallbackDeliveryError extends Error {
+    /** The failed delivery, including every attempt */
+    readonly delivery: CallbackDelivery;
+
+    constructor(delivery: CallbackDelivery) {
+        super(`Failed to deliver callback ${delivery.id} to ${delivery.url} after ${delivery.attempts.length} attempt(s): ${delivery.error}`);
+        this.name = 'CallbackDeliveryError';
+        this.delivery = delivery;
+    }
+}
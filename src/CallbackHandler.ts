@@ -1,6 +1,32 @@
 import express from 'express';
 import { EventEmitter } from 'events';
-import * as ngrok from '@ngrok/ngrok';
+import { randomBytes, randomUUID } from 'crypto';
+import { IncomingHttpHeaders, Server } from 'http';
+import * as https from 'https';
+import { TunnelProvider } from './tunnels/TunnelProvider.js';
+import { TunnelReconnectOptions, TunnelState } from './tunnels/TunnelSupervisor.js';
+import { TwilioSignatureValidationOptions, validateTwilioRequest } from './verification/TwilioSignature.js';
+import { WebhookVerifier, runVerifiers } from './verification/WebhookVerifier.js';
+import { CallbackRoute, CallbackRouteEventNames, CreateCallbackOptions } from './routes/CallbackRoute.js';
+import { CallbackMatcher, matchesCallback } from './CallbackMatcher.js';
+import { CallbackTimeoutError } from './CallbackErrors.js';
+import { createEventIterator } from './util/EventIterator.js';
+import { invokeListeners } from './util/invokeListeners.js';
+import { CallbackResponder, CallbackResponse, DEFAULT_CALLBACK_RESPONSE } from './responses/CallbackResponse.js';
+import { CallbackSchema } from './schemas/CallbackSchema.js';
+import { CallbackQuery, CallbackStore, ReplayQuery, StoredCallback, filterStoredCallbacks } from './store/CallbackStore.js';
+import { Deduplicator, DeduplicationOptions } from './dedup/Deduplicator.js';
+import { parseXml } from './parsers/XmlParser.js';
+import { DEFAULT_MULTIPART_MAX_TOTAL_SIZE, MultipartLimitError, MultipartOptions, multipartBoundary, parseMultipart } from './parsers/MultipartParser.js';
+import { CloudEvent, decodeCloudEvent } from './parsers/CloudEvents.js';
+import { CallbackForwarder, ForwardDeadLetter, ForwardOptions, ForwardResult, ForwardTarget } from './forward/CallbackForwarder.js';
+import { CallbackHub, CallbackHubEventNames } from './hub/CallbackHub.js';
+import { LogCodes, LogFields, LogLevel, Logger } from './logging/Logger.js';
+import { AccessDeniedReason, BasicAuthCredentials, RateLimitOptions, RateLimiter, checkBasicAuth, createIpAllowlist } from './access/AccessControl.js';
+import { CallbackMetrics, MetricsRegistry, PROMETHEUS_CONTENT_TYPE, registerCallbackMetrics } from './metrics/MetricsRegistry.js';
+import { CallbackInspector, InspectorOptions } from './inspector/CallbackInspector.js';
+import { LocalAdminServer } from './admin/LocalAdminServer.js';
+import { HttpsOptions } from './tls/HttpsOptions.js';
 
 /**
  * Defines constants for the event names emitted by CallbackHandler.
@@ -16,29 +42,197 @@ import * as ngrok from '@ngrok/ngrok';
 export const CallbackHandlerEventNames = {
     /** Emitted for general log messages */
     LOG: 'log',
-    /** Emitted when a callback is received on the /callback endpoint */
+    /** Emitted when a callback is received on the /callback endpoint or any named route */
     CALLBACK: 'callback',
-    /** Emitted when the Ngrok tunnel status changes (e.g., connection established, error) */
+    /** Emitted on every tunnel state transition (connecting, online, reconnecting, offline) */
     TUNNEL_STATUS: 'tunnelStatus',
+    /** Emitted when a reconnect yields a different public URL */
+    URL_CHANGED: 'urlChanged',
+    /** Emitted when a callback is rejected because its signature could not be validated */
+    REJECTED: 'rejected',
+    /** Emitted when a callback fails verification by the configured webhook verifiers */
+    VERIFICATION_FAILED: 'verificationFailed',
+    /** Emitted instead of 'callback' when a repeated delivery is suppressed by deduplication */
+    DUPLICATE: 'duplicate',
+    /** Emitted when a callback body fails the configured schema */
+    VALIDATION_ERROR: 'validationError',
+    /** Emitted for every inbound HTTP request once it has been answered, including 404s and rejections */
+    REQUEST: 'request',
+    /** Emitted when a callback has been forwarded to a target */
+    FORWARD_SUCCESS: 'forwardSuccess',
+    /** Emitted when a callback could not be forwarded to a target after all retries */
+    FORWARD_FAILED: 'forwardFailed',
+    /** Emitted on every lifecycle transition (idle, starting, running, stopping, stopped) */
+    STATE_CHANGE: 'stateChange',
+    /** Emitted when a request is refused by the IP allowlist, rate limit, basic auth or body size limit */
+    ACCESS_DENIED: 'accessDenied',
 } as const;
 
 /**
- * Interface for log event data emitted by the 'log' event.
+ * Lifecycle states of a {@link CallbackHandler}.
+ *
+ * `idle` → `starting` → `running` → `stopping` → `stopped`, and from `stopped` back to
+ * `starting` when the handler is started again. A failed start goes straight to `stopped`.
+ */
+export type CallbackHandlerState = 'idle' | 'starting' | 'running' | 'stopping' | 'stopped';
+
+/**
+ * Interface for log event data emitted by the 'log' event, with the structured fields
+ * relevant to the message.
  * @see {@link CallbackHandlerEventNames.LOG}
  */
-export interface LogEventData {
-    level: 'info' | 'warn' | 'error';
+export interface LogEventData extends LogFields {
+    level: LogLevel;
     message: string | Error;
 }
 
 /**
  * Interface for callback event data emitted by the 'callback' event.
+ * `TBody` and `TQuery` type the body and query parameters, see {@link CallbackHandlerOptions.schema}.
  * @see {@link CallbackHandlerEventNames.CALLBACK}
  */
-export interface CallbackEventData {
+export interface CallbackEventData<TBody = any, TQuery = any> {
     level: 'info';
+    queryParameters: TQuery;
+    body: TBody; // For the request body
+    /** The request headers, with lower-cased names */
+    headers: IncomingHttpHeaders;
+    /** Unique identifier generated for this delivery. Also the `id` of its {@link StoredCallback}. */
+    receiptId: string;
+    /** When the request was received, as an ISO 8601 string */
+    receivedAt: string;
+    /** The HTTP method of the request */
+    method: string;
+    /** Path and query string of the request as received */
+    url: string;
+    /** Address of the sender, from `X-Forwarded-For` when the request came through the local tunnel agent */
+    sourceIp: string | null;
+    /** The request's Content-Type header, or null if it had none */
+    contentType: string | null;
+    /** The unparsed request body, e.g. for your own signature checks. Empty if there was none. */
+    rawBody: Buffer;
+    /** The decoded envelope when the callback is a CloudEvent, in structured or binary mode */
+    cloudEvent?: CloudEvent;
+    /** Name of the route the callback arrived on. `default` for the plain /callback endpoint. */
+    route: string;
+    /** Identifier of the named route, or null for the plain /callback endpoint */
+    callbackId: string | null;
+    /** True when the callback is being re-emitted by {@link CallbackHandler.replay} */
+    replayed?: boolean;
+}
+
+/**
+ * Route name reported in {@link CallbackEventData} for callbacks on the plain /callback endpoint
+ */
+export const DEFAULT_ROUTE = 'default';
+
+/**
+ * Interface for duplicate event data emitted by the 'duplicate' event.
+ * @see {@link CallbackHandlerEventNames.DUPLICATE}
+ */
+export interface DuplicateEventData<TBody = any> extends CallbackEventData<TBody> {
+    /** The idempotency key that was seen before */
+    duplicateKey: string;
+}
+
+/**
+ * Interface for validation error data emitted by the 'validationError' event.
+ * @see {@link CallbackHandlerEventNames.VALIDATION_ERROR}
+ */
+export interface ValidationErrorEventData {
+    level: 'warn';
+    /** The error reported by the schema, e.g. a ZodError or {@link CallbackSchemaError} */
+    error: unknown;
     queryParameters: any;
-    body: any; // For the request body
+    body: any;
+    route: string;
+    callbackId: string | null;
+}
+
+/**
+ * Interface for request event data emitted by the 'request' event.
+ * @see {@link CallbackHandlerEventNames.REQUEST}
+ */
+export interface RequestEventData {
+    level: 'info' | 'warn';
+    /** Receipt ID of the request, matching {@link CallbackEventData.receiptId} when it became a callback */
+    receiptId: string;
+    receivedAt: string;
+    method: string;
+    url: string;
+    headers: IncomingHttpHeaders;
+    sourceIp: string | null;
+    /** The status code the request was answered with */
+    status: number;
+    /** Time taken to answer the request in milliseconds */
+    durationMs: number;
+}
+
+/**
+ * Interface for forward event data emitted by the 'forwardSuccess' event.
+ * @see {@link CallbackHandlerEventNames.FORWARD_SUCCESS}
+ */
+export interface ForwardSuccessEventData {
+    level: 'info';
+    /** Name of the target, its URL unless named */
+    target: string;
+    url: string;
+    /** The status the target answered with */
+    status: number;
+    attempts: number;
+    durationMs: number;
+    receiptId: string;
+    route: string;
+}
+
+/**
+ * Interface for forward failure data emitted by the 'forwardFailed' event.
+ * @see {@link CallbackHandlerEventNames.FORWARD_FAILED}
+ */
+export interface ForwardFailedEventData {
+    level: 'error';
+    target: string;
+    url: string;
+    /** The status of the last attempt, or null if the target could not be reached */
+    status: number | null;
+    error: Error;
+    attempts: number;
+    durationMs: number;
+    receiptId: string;
+    route: string;
+}
+
+/**
+ * Interface for lifecycle event data emitted by the 'stateChange' event.
+ * @see {@link CallbackHandlerEventNames.STATE_CHANGE}
+ */
+export interface StateChangeEventData {
+    level: 'info';
+    state: CallbackHandlerState;
+    previousState: CallbackHandlerState;
+}
+
+/**
+ * Interface for access denial data emitted by the 'accessDenied' event.
+ * @see {@link CallbackHandlerEventNames.ACCESS_DENIED}
+ */
+export interface AccessDeniedEventData {
+    level: 'warn';
+    reason: AccessDeniedReason;
+    /** The HTTP status sent: 403, 429, 401 or 413 */
+    status: number;
+    method: string;
+    /** Path and query string of the request as received */
+    url: string;
+    /** Address of the sender, from `X-Forwarded-For` when the request came through the local tunnel agent */
+    sourceIp: string | null;
+    /** Receipt assigned to the request, or null if it was not tracked */
+    receiptId: string | null;
+    /**
+     * Name of the route the request was addressed to. `default` for the plain /callback endpoint,
+     * `unknown` when it names no existing route.
+     */
+    route: string;
 }
 
 /**
@@ -47,14 +241,59 @@ export interface CallbackEventData {
  */
 export interface TunnelStatusEventData {
     level: 'info' | 'error';
+    /** The callback URL when `online`, the error when `level` is 'error', otherwise a description of the state */
     message: string | Error;
+    /** The tunnel state after the transition */
+    state: TunnelState;
+    /** The public callback URL, if known */
+    url: string | null;
+    /** Reconnect attempt number, 0 for the initial connection */
+    attempt: number;
+    /** The failure that caused the transition, if any */
+    error?: Error;
+}
+
+/**
+ * Interface for URL change event data emitted by the 'urlChanged' event.
+ * @see {@link CallbackHandlerEventNames.URL_CHANGED}
+ */
+export interface UrlChangedEventData {
+    level: 'info';
+    /** The callback URL before the reconnect */
+    previousUrl: string | null;
+    /** The new callback URL. Re-register it with upstream APIs. */
+    url: string;
+}
+
+/**
+ * Interface for rejected event data emitted by the 'rejected' event.
+ * @see {@link CallbackHandlerEventNames.REJECTED}
+ */
+export interface RejectedEventData {
+    level: 'warn';
+    reason: string;
+    queryParameters: any;
+    body: any;
+}
+
+/**
+ * Interface for verification failure data emitted by the 'verificationFailed' event.
+ * @see {@link CallbackHandlerEventNames.VERIFICATION_FAILED}
+ */
+export interface VerificationFailedEventData {
+    level: 'warn';
+    /** Name of the verifier that failed, or null if no verifier recognised the request */
+    verifier: string | null;
+    reason: string;
+    queryParameters: any;
+    body: any;
 }
 
 /**
  * Defines the events emitted by the {@link CallbackHandler} class.
  * Use {@link CallbackHandlerEventNames} constants for event names.
  */
-export interface CallbackHandlerEvents {
+export interface CallbackHandlerEvents<TBody = any> {
     /**
      * Emitted for logging purposes (info, warnings, errors).
      * @param data - The log event data.
@@ -68,22 +307,304 @@ export interface CallbackHandlerEvents {
      * @see {@link CallbackEventData}
      * @see {@link CallbackHandlerEventNames.CALLBACK}
      */
-    [CallbackHandlerEventNames.CALLBACK]: (data: CallbackEventData) => void;
+    [CallbackHandlerEventNames.CALLBACK]: (data: CallbackEventData<TBody>) => void;
     /**
-     * Emitted when the Ngrok tunnel status changes or provides the initial URL.
+     * Emitted on every tunnel state transition, including when the initial URL becomes available.
      * @param data - The tunnel status event data.
      * @see {@link TunnelStatusEventData}
      * @see {@link CallbackHandlerEventNames.TUNNEL_STATUS}
      */
     [CallbackHandlerEventNames.TUNNEL_STATUS]: (data: TunnelStatusEventData) => void;
+    /**
+     * Emitted when a reconnect yields a new public URL.
+     * @param data - The previous and new callback URLs.
+     * @see {@link UrlChangedEventData}
+     * @see {@link CallbackHandlerEventNames.URL_CHANGED}
+     */
+    [CallbackHandlerEventNames.URL_CHANGED]: (data: UrlChangedEventData) => void;
+    /**
+     * Emitted when a request to the /callback endpoint fails signature validation and is answered with 403.
+     * @param data - The rejected event data, containing the reason and the rejected request.
+     * @see {@link RejectedEventData}
+     * @see {@link CallbackHandlerEventNames.REJECTED}
+     */
+    [CallbackHandlerEventNames.REJECTED]: (data: RejectedEventData) => void;
+    /**
+     * Emitted when a request to the /callback endpoint fails the configured verifiers and is answered with 401.
+     * @param data - The verification failure data.
+     * @see {@link VerificationFailedEventData}
+     * @see {@link CallbackHandlerEventNames.VERIFICATION_FAILED}
+     */
+    [CallbackHandlerEventNames.VERIFICATION_FAILED]: (data: VerificationFailedEventData) => void;
+    /**
+     * Emitted instead of 'callback' when a callback with an already seen idempotency key is received.
+     * @param data - The callback event data plus the duplicate key.
+     * @see {@link DuplicateEventData}
+     * @see {@link CallbackHandlerEventNames.DUPLICATE}
+     */
+    [CallbackHandlerEventNames.DUPLICATE]: (data: DuplicateEventData<TBody>) => void;
+    /**
+     * Emitted when a callback body fails the configured schema and is answered with `validationErrorStatus`.
+     * @param data - The validation error and the rejected request.
+     * @see {@link ValidationErrorEventData}
+     * @see {@link CallbackHandlerEventNames.VALIDATION_ERROR}
+     */
+    [CallbackHandlerEventNames.VALIDATION_ERROR]: (data: ValidationErrorEventData) => void;
+    /**
+     * Emitted for every inbound request once it has been answered. Useful for debugging providers
+     * that call the wrong path or method. `level` is 'warn' for 4xx and 5xx replies.
+     * @param data - The request metadata and the reply status.
+     * @see {@link RequestEventData}
+     * @see {@link CallbackHandlerEventNames.REQUEST}
+     */
+    [CallbackHandlerEventNames.REQUEST]: (data: RequestEventData) => void;
+    /**
+     * Emitted when a callback has been forwarded to one of the `forward` targets.
+     * @param data - The target and the delivery outcome.
+     * @see {@link ForwardSuccessEventData}
+     * @see {@link CallbackHandlerEventNames.FORWARD_SUCCESS}
+     */
+    [CallbackHandlerEventNames.FORWARD_SUCCESS]: (data: ForwardSuccessEventData) => void;
+    /**
+     * Emitted when forwarding to a target fails for good. The callback is kept as a dead letter.
+     * @param data - The target and the last failure.
+     * @see {@link ForwardFailedEventData}
+     * @see {@link CallbackHandlerEventNames.FORWARD_FAILED}
+     */
+    [CallbackHandlerEventNames.FORWARD_FAILED]: (data: ForwardFailedEventData) => void;
+    /**
+     * Emitted on every lifecycle transition, see {@link CallbackHandlerState}.
+     * @param data - The new and previous state.
+     * @see {@link StateChangeEventData}
+     * @see {@link CallbackHandlerEventNames.STATE_CHANGE}
+     */
+    [CallbackHandlerEventNames.STATE_CHANGE]: (data: StateChangeEventData) => void;
+    /**
+     * Emitted when a request is refused before reaching the callback logic, see {@link AccessDeniedReason}.
+     * @param data - The reason, the reply status and the request.
+     * @see {@link AccessDeniedEventData}
+     * @see {@link CallbackHandlerEventNames.ACCESS_DENIED}
+     */
+    [CallbackHandlerEventNames.ACCESS_DENIED]: (data: AccessDeniedEventData) => void;
 }
 
+/**
+ * Express request with the raw body bytes captured by the body parsers and the receipt
+ * assigned when the request arrived.
+ */
+type CallbackRequest = express.Request & { rawBody?: Buffer; receiptId?: string; receivedAt?: Date };
+
 /**
  * Interface for {@link CallbackHandler} constructor options.
  */
-export interface CallbackHandlerOptions {
-    ngrokAuthToken: string;
+export interface CallbackHandlerOptions<TBody = any> {
+    /** Ngrok auth token. Required unless a `tunnelProvider` or `hub` is supplied. */
+    ngrokAuthToken?: string;
+    /** Custom ngrok domain. Ignored when a `tunnelProvider` is supplied. */
     customDomain?: string;
+    /**
+     * Provider used to expose the local server. Defaults to an {@link NgrokTunnelProvider}
+     * built from `ngrokAuthToken` and `customDomain`.
+     * @see {@link LocalOnlyProvider}
+     * @see {@link StaticUrlProvider}
+     */
+    tunnelProvider?: TunnelProvider;
+    /**
+     * Validate the `X-Twilio-Signature` header of every callback. Requests that fail are
+     * answered with 403 and reported through the 'rejected' event.
+     */
+    signatureValidation?: TwilioSignatureValidationOptions;
+    /**
+     * Webhook verifiers for other senders (Stripe, GitHub, Standard Webhooks, or your own).
+     * When set, every callback must pass at least one applicable verifier. Requests that fail
+     * are answered with 401 and reported through the 'verificationFailed' event.
+     */
+    verifiers?: WebhookVerifier[];
+    /**
+     * How long received callbacks are kept for {@link CallbackHandler.waitForCallback}, so that
+     * callbacks arriving before the waiter registers are not missed. Defaults to 30000ms.
+     */
+    recentCallbackTtlMs?: number;
+    /** Maximum number of recent callbacks kept. Defaults to 100. */
+    recentCallbackLimit?: number;
+    /**
+     * Records every received callback for {@link CallbackHandler.history} and {@link CallbackHandler.replay}.
+     * @see {@link MemoryCallbackStore}
+     * @see {@link JsonlFileCallbackStore}
+     */
+    store?: CallbackStore;
+    /**
+     * Suppress repeated deliveries of the same callback. `true` uses the defaults, which key on the
+     * `I-Twilio-Idempotency-Token` or `webhook-id` header. Suppressed callbacks are answered with 200
+     * and emitted as 'duplicate' instead of 'callback'.
+     */
+    deduplication?: DeduplicationOptions | boolean;
+    /**
+     * Local port to listen on. Defaults to 4000, trying the following ports if it is in use.
+     * Use `0` to let the operating system assign a free port.
+     */
+    port?: number;
+    /** Local interface to listen on. Defaults to all interfaces. */
+    host?: string;
+    /** How many consecutive ports to try, starting at `port`. Defaults to 100. */
+    maxPortAttempts?: number;
+    /** Inclusive range of ports to try, e.g. `[4000, 4010]`. Takes precedence over `port` and `maxPortAttempts`. */
+    portRange?: [number, number];
+    /**
+     * An existing Express application to mount the callback routes on (at `mountPath`),
+     * instead of creating a new one.
+     */
+    app?: express.Application;
+    /**
+     * An existing HTTP or HTTPS server to tunnel to. If it is already listening its port is used as is,
+     * otherwise it is started using the port options. Requests must reach the handler's routes,
+     * either through `app` or by mounting {@link CallbackHandler.router} yourself.
+     */
+    server?: Server | https.Server;
+    /**
+     * Serve HTTPS from the given certificate and key, or a generated self-signed certificate,
+     * optionally requiring client certificates. The URLs reported by the tunnel provider use
+     * `https://` (with {@link LocalOnlyProvider}), and ngrok forwards to the HTTPS port. Not used with `server`.
+     */
+    https?: HttpsOptions;
+    /** Path the callback routes are mounted at when using `app`, `server` or `hub`, e.g. `/hooks`. Defaults to none. */
+    mountPath?: string;
+    /**
+     * A {@link CallbackHub} whose server and tunnel this handler shares with other handlers, under
+     * `mountPath`. The port, tunnel, `app` and `server` options are ignored, and stopping the handler
+     * leaves the hub running. Usually set through {@link CallbackHub.createHandler}.
+     */
+    hub?: CallbackHub;
+    /**
+     * How the tunnel is reconnected when it fails, using exponential backoff.
+     * Pass `false` to disable reconnecting.
+     */
+    reconnect?: TunnelReconnectOptions | false;
+    /**
+     * Decides the HTTP reply for each callback, e.g. TwiML or a JSON ack. Routes created with
+     * {@link CallbackHandler.createCallback} can override it. Defaults to `200 Callback received`.
+     * @see {@link emptyTwiml}
+     * @see {@link jsonAck}
+     */
+    respond?: CallbackResponder;
+    /** How long `respond` may take before the default reply is sent. Defaults to 5000ms. */
+    respondTimeoutMs?: number;
+    /**
+     * Reply with 500 when a 'callback' listener (or `respond`) throws or rejects, so the provider retries.
+     * Async listeners are awaited before replying. Defaults to false: errors are logged and the reply is unaffected.
+     */
+    failOnListenerError?: boolean;
+    /**
+     * Validates callback bodies before they are emitted. Zod schemas work as is. Listeners receive
+     * the parsed body typed as `TBody`; invalid bodies are reported through 'validationError'.
+     * GET and HEAD callbacks are validated on their query parameters, and the parsed result becomes the body.
+     * @see {@link fieldsSchema}
+     * @see {@link twilioCallStatusSchema}
+     */
+    schema?: CallbackSchema<TBody>;
+    /** Status code sent for bodies that fail `schema`. Defaults to 400. */
+    validationErrorStatus?: number;
+    /**
+     * Maximum size of non-multipart bodies, as bytes or a string such as `'1mb'`.
+     * Larger requests are answered with 413. Defaults to `'100kb'`.
+     */
+    bodyLimit?: number | string;
+    /** Size and count limits for `multipart/form-data` bodies such as recording uploads */
+    multipart?: MultipartOptions;
+    /**
+     * HTTP methods accepted on the callback endpoints, e.g. `['GET', 'POST']` for providers
+     * configured with `StatusCallbackMethod=GET`. Other methods are answered with 405. Defaults to `['POST']`.
+     */
+    methods?: string[];
+    /**
+     * Downstream URLs that receive a copy of every accepted callback, with retries and a dead-letter list.
+     * See {@link ForwardTarget} for per-target filters, timeouts and retry settings.
+     */
+    forward?: ForwardOptions | ForwardTarget[];
+    /**
+     * Stop the handler gracefully on SIGINT and SIGTERM. Once stopped, the signal is raised again
+     * if nothing else is listening for it, so the process still exits. Defaults to `false`.
+     */
+    handleSignals?: boolean;
+    /**
+     * Receives every log message with its structured fields, in addition to the 'log' event.
+     * @see {@link consoleLogger}
+     * @see {@link pinoLogger}
+     */
+    logger?: Logger;
+    /**
+     * Record callback counts, rejections, duplicates, response latency and tunnel reconnects,
+     * served in Prometheus text format at `path` (default `/metrics`) on a separate listener
+     * bound to 127.0.0.1 (see `adminPort`), never through the tunnel.
+     * @see {@link getMetricsUrl}
+     */
+    metrics?: boolean | MetricsOptions;
+    /**
+     * Addresses and CIDR ranges allowed to send callbacks, e.g. a provider's published egress ranges.
+     * The sender's address is taken from `X-Forwarded-For` when the request came through the local
+     * tunnel agent. Others are answered with 403. Defaults to allowing everyone.
+     */
+    allowIps?: string[];
+    /** Limit the requests each source IP may make to the callback endpoints. Excess requests are answered with 429. */
+    rateLimit?: RateLimitOptions;
+    /**
+     * Adds a secret segment to the callback URLs, e.g. `/<token>/callback`, so they cannot be guessed.
+     * Pass `true` for a random token or a string to keep the URLs stable across restarts.
+     */
+    pathToken?: boolean | string;
+    /** Require these credentials through HTTP basic auth. Other requests are answered with 401. */
+    basicAuth?: BasicAuthCredentials;
+    /** Whether the handler's own app answers `GET /` with a short description. Defaults to true. */
+    healthCheck?: boolean;
+    /**
+     * Serve a page at `path` (default `/inspector`) that lists recent callbacks, shows new ones
+     * live and can replay them or copy them as curl commands. It is served on a separate listener
+     * bound to 127.0.0.1 (see `adminPort`), never through the tunnel. Disabled by default.
+     * @see {@link getInspectorUrl}
+     */
+    inspector?: boolean | InspectorOptions;
+    /**
+     * Port of the listener bound to 127.0.0.1 that serves the inspector and the metrics endpoint.
+     * Defaults to 0, any free port. Set it to scrape metrics at a fixed address.
+     */
+    adminPort?: number;
+}
+
+/**
+ * Interface for the `metrics` option of {@link CallbackHandlerOptions}.
+ */
+export interface MetricsOptions {
+    /** Registry to record into, e.g. one shared with other handlers. Defaults to a new registry. */
+    registry?: MetricsRegistry;
+    /** Path of the metrics endpoint, or false to not serve one. Defaults to `/metrics`. */
+    path?: string | false;
+}
+
+/**
+ * Interface for {@link CallbackHandler.stop} options.
+ */
+export interface StopOptions {
+    /**
+     * How long to wait for in-flight requests and async listeners before closing anyway,
+     * in milliseconds. Defaults to 5000.
+     */
+    drainTimeoutMs?: number;
+}
+
+/**
+ * Interface for {@link CallbackHandler.waitForCallback} options.
+ */
+export interface WaitForCallbackOptions {
+    /** Which callback to wait for. Defaults to any callback. */
+    match?: CallbackMatcher;
+    /** Only consider callbacks on this route (see {@link CallbackHandler.createCallback}) */
+    route?: string;
+    /** How long to wait before rejecting with a {@link CallbackTimeoutError}. Defaults to 30000ms. */
+    timeoutMs?: number;
+    /** Aborts the wait, rejecting with the signal's reason */
+    signal?: AbortSignal;
+    /** Whether callbacks received shortly before the call may satisfy it. Defaults to true. */
+    includeRecent?: boolean;
 }
 
 /**
@@ -91,8 +612,9 @@ export interface CallbackHandlerOptions {
  *
  * Establishes an Ngrok tunnel to a local Express server for handling API status callbacks,
  * particularly useful in development environments or for MCP (Model Context Protocol) servers.
- * It automatically finds an available port, starts an Express server, connects it via Ngrok,
- * and emits events for logs, received callbacks, and tunnel status changes.
+ * It automatically finds an available port, starts an Express server, connects it via the
+ * configured {@link TunnelProvider} (Ngrok by default), and emits events for logs, received
+ * callbacks, and tunnel status changes.
  *
  * Use {@link CallbackHandlerEventNames} constants when subscribing to events.
  *
@@ -125,188 +647,1101 @@ export interface CallbackHandlerOptions {
  *
  * // To stop: await handler.stop();
  *
+ * @typeParam TBody - Type of callback bodies, usually inferred from the `schema` option
  * @extends EventEmitter
  */
-export class CallbackHandler extends EventEmitter {
-    private app: express.Application;
-    private server: any;
-    private ngrokListener: ngrok.Listener | null = null;
-    private ngrokUrl: string | null = null;
-    private ngrokAuthToken: string;
-    private customDomain?: string;
+export class CallbackHandler<TBody = any> extends EventEmitter {
+    private hub: CallbackHub;
+    private ownsHub: boolean;
+    private callbackRouter: express.Router;
+    private currentState: CallbackHandlerState = 'idle';
+    private starting: Promise<string> | null = null;
+    private stopping: Promise<void> | null = null;
+    // Callback requests being handled and async listeners still running
+    private inFlight: Set<Promise<unknown>> = new Set();
+    private handleSignals: boolean;
+    private signalHandler: ((signal: NodeJS.Signals) => void) | null = null;
+    private mountPath: string;
+    // Secret path segment in front of the callback endpoints, e.g. `/<token>`, or empty
+    private pathPrefix: string;
+    private isAllowedIp?: (ip: string) => boolean;
+    private rateLimiter?: RateLimiter;
+    private basicAuth?: BasicAuthCredentials;
+    private signatureValidation?: TwilioSignatureValidationOptions;
+    private verifiers: WebhookVerifier[];
+    private routes: Map<string, CallbackRoute<any>> = new Map();
+    private recentCallbacks: Array<{ data: CallbackEventData; receivedAt: number }> = [];
+    private recentCallbackTtlMs: number;
+    private recentCallbackLimit: number;
+    private store?: CallbackStore;
+    private deduplicator?: Deduplicator;
+    private respond?: CallbackResponder;
+    private respondTimeoutMs: number;
+    private failOnListenerError: boolean;
+    private schema?: CallbackSchema<TBody>;
+    private validationErrorStatus: number;
+    private multipart: MultipartOptions;
+    private methods: Set<string>;
+    private forwarder?: CallbackForwarder;
+    private logger?: Logger;
+    private metricsRegistry?: MetricsRegistry;
+    private metrics?: CallbackMetrics;
+    private metricsPath?: string;
+    private inspector?: CallbackInspector;
+    private inspectorPath?: string;
+    private adminServer?: LocalAdminServer;
 
     /**
      * Creates a new CallbackHandler instance
      *
      * @param options Configuration options
      */
-    constructor(options: CallbackHandlerOptions) {
+    constructor(options: CallbackHandlerOptions<TBody>) {
         super();
-        this.ngrokAuthToken = options.ngrokAuthToken;
-        this.customDomain = options.customDomain;
-        this.app = express();
-
-        // Configure Express
-        this.app.use(express.json());
-        this.app.use(express.urlencoded({ extended: true }));
+        this.signatureValidation = options.signatureValidation;
+        this.verifiers = options.verifiers ?? [];
+        this.recentCallbackTtlMs = options.recentCallbackTtlMs ?? 30000;
+        this.recentCallbackLimit = options.recentCallbackLimit ?? 100;
+        this.store = options.store;
+        if (options.deduplication) {
+            this.deduplicator = new Deduplicator(options.deduplication === true ? {} : options.deduplication);
+        }
+        this.respond = options.respond;
+        this.respondTimeoutMs = options.respondTimeoutMs ?? 5000;
+        this.failOnListenerError = options.failOnListenerError ?? false;
+        this.schema = options.schema;
+        this.validationErrorStatus = options.validationErrorStatus ?? 400;
+        this.multipart = options.multipart ?? {};
+        this.methods = new Set((options.methods ?? ['POST']).map((method) => method.toUpperCase()));
+        this.handleSignals = options.handleSignals ?? false;
+        this.logger = options.logger;
+        if (options.metrics) {
+            this.metricsRegistry = (options.metrics === true ? undefined : options.metrics.registry) ?? new MetricsRegistry();
+            this.metrics = registerCallbackMetrics(this.metricsRegistry);
+        }
+        if (options.forward) {
+            this.forwarder = new CallbackForwarder(options.forward);
+            this.forwarder.on('success', (result: ForwardResult) => {
+                this.emit(CallbackHandlerEventNames.FORWARD_SUCCESS, {
+                    level: 'info',
+                    target: result.target,
+                    url: result.url,
+                    status: result.status as number,
+                    attempts: result.attempts,
+                    durationMs: result.durationMs,
+                    receiptId: result.data.receiptId,
+                    route: result.data.route
+                });
+            });
+            this.forwarder.on('failure', (result: ForwardResult) => {
+                this.emit(CallbackHandlerEventNames.FORWARD_FAILED, {
+                    level: 'error',
+                    target: result.target,
+                    url: result.url,
+                    status: result.status,
+                    error: result.error as Error,
+                    attempts: result.attempts,
+                    durationMs: result.durationMs,
+                    receiptId: result.data.receiptId,
+                    route: result.data.route
+                });
+            });
+        }
+        this.mountPath = (options.mountPath ?? '').replace(/\/+$/, '');
+        const pathToken = options.pathToken === true ? randomBytes(18).toString('base64url') : options.pathToken;
+        if (pathToken && !/^[A-Za-z0-9_-]+$/.test(pathToken)) {
+            throw new Error(`Invalid path token: use letters, digits, '-' and '_' only`);
+        }
+        this.pathPrefix = pathToken ? `/${pathToken}` : '';
+        if (options.allowIps) {
+            this.isAllowedIp = createIpAllowlist(options.allowIps);
+        }
+        if (options.rateLimit) {
+            this.rateLimiter = new RateLimiter(options.rateLimit);
+        }
+        this.basicAuth = options.basicAuth;
 
-        // Add health check route
-        this.app.get('/', (_, res) => {
-            res.send('POST status callbacks to /callback');
+        // A handler on its own gets a private hub for its server and tunnel
+        this.ownsHub = !options.hub;
+        this.hub = options.hub ?? new CallbackHub({
+            ngrokAuthToken: options.ngrokAuthToken,
+            customDomain: options.customDomain,
+            tunnelProvider: options.tunnelProvider,
+            port: options.port,
+            host: options.host,
+            maxPortAttempts: options.maxPortAttempts,
+            portRange: options.portRange,
+            app: options.app,
+            server: options.server,
+            https: options.https,
+            reconnect: options.reconnect,
+            requestHandler: this.trackRequest,
+            logger: options.logger,
+            healthCheck: options.healthCheck
+        });
+        // The hub passes its messages to its own logger, so they are only re-emitted here
+        this.hub.on(CallbackHubEventNames.LOG, (data) => this.emit(CallbackHandlerEventNames.LOG, data));
+        this.hub.on(CallbackHubEventNames.TUNNEL_STATUS, (data) => {
+            // Count successful reconnects once per tunnel, not once per handler sharing it
+            if (data.state === 'online' && data.attempt > 0 && this.ownsHub) {
+                this.metrics?.tunnelReconnects.inc();
+            }
+            this.handleTunnelStatus(data);
+        });
+        this.hub.on(CallbackHubEventNames.URL_CHANGED, (data) => {
+            this.emit(CallbackHandlerEventNames.URL_CHANGED, {
+                level: 'info',
+                previousUrl: data.previousUrl ? `${data.previousUrl}${this.mountPath}${this.pathPrefix}/callback` : null,
+                url: `${data.url}${this.mountPath}${this.pathPrefix}/callback`
+            });
         });
 
+        // The callback routes live on their own router so they can be mounted into another app
+        this.callbackRouter = express.Router();
+
+        // In someone else's app, or on a shared hub, only requests that reach the callback endpoints are ours to report
+        const callbackPath = `${this.pathPrefix}/callback`;
+        if (options.hub || options.app || options.server) {
+            this.callbackRouter.use(callbackPath, this.trackRequest);
+        }
+
+        // Refuse unwanted senders before spending any work on their requests
+        this.callbackRouter.use(callbackPath, this.guardAccess);
+
+        const metricsPath = options.metrics && options.metrics !== true ? options.metrics.path : undefined;
+        if (this.metricsRegistry && metricsPath !== false) {
+            this.metricsPath = metricsPath ?? '/metrics';
+            this.adminServer = new LocalAdminServer({ port: options.adminPort });
+            this.adminServer.use(this.metricsPath, express.Router().get('/', this.serveMetrics));
+        }
+
+        if (options.inspector) {
+            const inspectorOptions = options.inspector === true ? {} : options.inspector;
+            this.inspectorPath = inspectorOptions.path ?? '/inspector';
+            this.inspector = new CallbackInspector(
+                () => this.getPublicUrl() ?? this.hub.getLocalUrl(),
+                (data) => this.emitReplayed({ ...data, replayed: true }),
+                inspectorOptions
+            );
+            this.adminServer ??= new LocalAdminServer({ port: options.adminPort });
+            this.adminServer.use(this.inspectorPath, this.inspector.router());
+        }
+
+        // Configure Express, keeping the raw bytes around for signature validation
+        const keepRawBody = (req: express.Request, _res: unknown, buf: Buffer) => {
+            (req as CallbackRequest).rawBody = buf;
+        };
+        const limit = options.bodyLimit ?? '100kb';
+        this.callbackRouter.use(express.json({ type: ['application/json', 'application/*+json'], limit, verify: keepRawBody }));
+        this.callbackRouter.use(express.urlencoded({ extended: true, limit, verify: keepRawBody }));
+        this.callbackRouter.use(express.text({ type: ['text/*', 'application/xml', 'application/*+xml'], limit, verify: keepRawBody }));
+        // Multipart and any other content type are buffered as is and decoded in handleCallback
+        this.callbackRouter.use(express.raw({ type: 'multipart/form-data', limit: this.multipart.maxTotalSize ?? DEFAULT_MULTIPART_MAX_TOTAL_SIZE, verify: keepRawBody }));
+        this.callbackRouter.use(express.raw({ type: () => true, limit, verify: keepRawBody }));
+
+        // Answer methods that are not accepted before doing any work, and ask providers to retry
+        // later while we shut down
+        const allowMethods: express.RequestHandler = (req, res, next) => {
+            if (!this.methods.has(req.method)) {
+                res.set('Allow', [...this.methods].join(', ')).status(405).send('Method not allowed');
+                return;
+            }
+            if (this.currentState === 'stopping' || this.currentState === 'stopped') {
+                res.status(503).send('Callback handler is stopping');
+                return;
+            }
+            next();
+        };
+
         // This is the main status callback endpoint. It will pass the request body to whoever is listening
-        this.app.post('/callback', (req, res) => {
-            // Extract query parameters using req.query
-            const queryParameters = req.query; // Use the object directly as parsed by Express
-
-            // Process the body based on content type
-            let body = req.body;
-
-            // Check if the request is URL-encoded (Twilio's default format)
-            const contentType = req.get('Content-Type') || '';
-            if (contentType.includes('application/x-www-form-urlencoded')) {
-                this.emit('log', { level: 'info', message: `application/x-www-form-urlencoded received, so converting to JSON` });
-                // Body is already parsed by express.urlencoded middleware
-                // But we want to ensure it's treated as a proper JSON object
-                body = { ...body };
+        this.callbackRouter.all(callbackPath, allowMethods, (req, res, next) => {
+            this.trackInFlight(this.handleCallback(req, res, null)).catch(next);
+        });
+
+        // Named routes created with createCallback()
+        this.callbackRouter.all(`${callbackPath}/:name/:id`, allowMethods, (req, res, next) => {
+            const route = this.routes.get(`${req.params.name}/${req.params.id}`);
+            if (!route) {
+                res.status(404).send('Unknown callback route');
+                return;
             }
-            // If it's already JSON, express.json middleware has parsed it and we can use it as is
+            this.trackInFlight(this.handleCallback(req, res, route)).catch(next);
+        });
+
+        // Bodies over the size limits are reported like the other refusals
+        this.callbackRouter.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+            if (error?.type === 'entity.too.large' && !res.headersSent) {
+                this.denyAccess(req, res, 'payload_too_large', 413, 'Payload too large');
+                return;
+            }
+            next(error);
+        });
+
+        this.hub.attach(this, this.mountPath, this.callbackRouter);
+    }
+
+    /**
+     * Returns the Express router serving the callback routes, for mounting into your own app.
+     * Set `mountPath` to the path you mount it at so that the returned URLs are correct.
+     *
+     * @example
+     * const handler = new CallbackHandler({ server: myServer, mountPath: '/hooks', tunnelProvider });
+     * myApp.use('/hooks', handler.router());
+     */
+    router(): express.Router {
+        return this.callbackRouter;
+    }
+
+    /**
+     * Assigns each request a receipt and emits the 'request' event once it has been answered
+     */
+    private trackRequest: express.RequestHandler = (req, res, next) => {
+        const request = req as CallbackRequest;
+        request.receiptId = randomUUID();
+        request.receivedAt = new Date();
 
-            // Emit an event with the query parameters object and the processed body
-            // Use the constant for consistency, although the string literal works here too
-            this.emit(CallbackHandlerEventNames.CALLBACK, { level: 'info', queryParameters: queryParameters, body: body });
+        res.on('finish', () => {
+            this.emit(CallbackHandlerEventNames.REQUEST, {
+                level: res.statusCode >= 400 ? 'warn' : 'info',
+                receiptId: request.receiptId as string,
+                receivedAt: (request.receivedAt as Date).toISOString(),
+                method: req.method,
+                url: req.originalUrl,
+                headers: req.headers,
+                sourceIp: req.ip ?? null,
+                status: res.statusCode,
+                durationMs: Date.now() - (request.receivedAt as Date).getTime()
+            });
+        });
+        next();
+    };
+
+    /**
+     * Serves the metrics in Prometheus text format
+     */
+    private serveMetrics: express.RequestHandler = (_req, res) => {
+        res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(this.metricsRegistry?.render() ?? '');
+    };
+
+    /**
+     * Applies the IP allowlist, rate limit and basic auth to requests for the callback endpoints
+     */
+    private guardAccess: express.RequestHandler = (req, res, next) => {
+        const sourceIp = req.ip ?? '';
+        if (this.isAllowedIp && !this.isAllowedIp(sourceIp)) {
+            this.denyAccess(req, res, 'ip_not_allowed', 403, 'Forbidden');
+            return;
+        }
+        if (this.rateLimiter) {
+            const { allowed, retryAfterMs } = this.rateLimiter.take(sourceIp);
+            if (!allowed) {
+                res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+                this.denyAccess(req, res, 'rate_limited', 429, 'Too many requests');
+                return;
+            }
+        }
+        if (this.basicAuth && !checkBasicAuth(req.get('Authorization'), this.basicAuth)) {
+            res.set('WWW-Authenticate', 'Basic realm="callbacks"');
+            this.denyAccess(req, res, 'unauthorized', 401, 'Unauthorized');
+            return;
+        }
+        next();
+    };
 
-            // Send a success response
-            res.status(200).send('Callback received');
+    /**
+     * Answers a refused request and reports it through the 'accessDenied' event
+     */
+    private denyAccess(req: express.Request, res: express.Response, reason: AccessDeniedReason, status: number, body: string): void {
+        const route = this.routeLabel(req);
+        this.metrics?.rejected.inc({ route, reason });
+        res.status(status).send(body);
+        this.emit(CallbackHandlerEventNames.ACCESS_DENIED, {
+            level: 'warn',
+            reason,
+            status,
+            method: req.method,
+            url: req.originalUrl,
+            sourceIp: req.ip ?? null,
+            receiptId: (req as CallbackRequest).receiptId ?? null,
+            route
         });
     }
 
     /**
-     * Starts the callback server.
-     * Automatically finds an available port if the specified port is in use.
-     * 
-     * @returns Promise that resolves to the callback URL
+     * Names the route a refused request was addressed to: the name of an existing named route,
+     * {@link DEFAULT_ROUTE} for the plain /callback endpoint, and `unknown` for anything else, so
+     * unauthenticated requests cannot choose the label
      */
-    async start(): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const startServer = async (portToTry: number = 4000) => {
-                const serverAttempt = this.app.listen(portToTry);
-
-                serverAttempt.on('error', (error: NodeJS.ErrnoException) => {
-                    if (error.code === 'EADDRINUSE') {
-                        this.emit(CallbackHandlerEventNames.LOG, { level: 'warn', message: `Port ${portToTry} in use, trying port ${portToTry + 1}` });
-                        serverAttempt.close();
-                        startServer(portToTry + 1);
-                    } else {
-                        this.emit(CallbackHandlerEventNames.LOG, { level: 'error', message: `Start server Error: ${error}` });
-                        reject(error);
-                    }
+    private routeLabel(req: express.Request): string {
+        const path = req.originalUrl.split('?')[0];
+        // Named routes are addressed as /callback/<name>/<id>
+        const [, name, id] = /\/callback\/([^/]+)\/([^/]+)\/?$/.exec(path) ?? [];
+        if (name !== undefined && id !== undefined) {
+            try {
+                const route = this.routes.get(`${decodeURIComponent(name)}/${decodeURIComponent(id)}`);
+                if (route) return route.name;
+            } catch {
+                // Malformed percent-encoding matches no route
+            }
+            return 'unknown';
+        }
+        return /\/callback\/?$/.test(path) ? DEFAULT_ROUTE : 'unknown';
+    }
+
+    /**
+     * Validates an inbound callback request and emits it to listeners
+     *
+     * @param req The Express request
+     * @param res The Express response
+     * @param route The named route the request arrived on, or null for the plain /callback endpoint
+     */
+    private async handleCallback(req: express.Request, res: express.Response, route: CallbackRoute<any> | null): Promise<void> {
+        // Extract query parameters using req.query
+        const queryParameters = req.query; // Use the object directly as parsed by Express
+        const routeName = route ? route.name : DEFAULT_ROUTE;
+        const receiptId = (req as CallbackRequest).receiptId;
+        const receivedAt = (req as CallbackRequest).receivedAt ?? new Date();
+
+        res.once('finish', () => {
+            const durationMs = Date.now() - receivedAt.getTime();
+            this.metrics?.responseSeconds.observe({ route: routeName }, durationMs / 1000);
+            this.log('debug', `Answered ${req.method} ${req.originalUrl} with ${res.statusCode}`, {
+                code: LogCodes.CALLBACK_ANSWERED, url: req.originalUrl, route: routeName, receiptId, status: res.statusCode, durationMs
+            });
+        });
+
+        // Process the body based on content type
+        let body = req.body;
+        const rawBody = (req as CallbackRequest).rawBody ?? Buffer.alloc(0);
+
+        // Check if the request is URL-encoded (Twilio's default format)
+        const contentType = req.get('Content-Type') || '';
+        if (contentType.includes('application/x-www-form-urlencoded')) {
+            this.log('debug', `application/x-www-form-urlencoded received, so converting to JSON`, { code: LogCodes.BODY_CONVERTED, route: routeName, receiptId });
+            // Body is already parsed by express.urlencoded middleware
+            // But we want to ensure it's treated as a proper JSON object
+            body = { ...body };
+        }
+        // Other content types arrive as text or a Buffer, so decode the ones we understand
+        else if (contentType && !/json/i.test(contentType)) {
+            try {
+                body = this.decodeBody(contentType, body, rawBody);
+            } catch (error) {
+                const tooLarge = error instanceof MultipartLimitError;
+                this.metrics?.rejected.inc({ route: routeName, reason: tooLarge ? 'too_large' : 'malformed' });
+                this.log('warn', `Could not parse ${contentType} callback body: ${error}`, { code: LogCodes.BODY_PARSE_FAILED, route: routeName, receiptId, error: error as Error });
+                res.status(tooLarge ? 413 : 400).send(tooLarge ? 'Payload too large' : 'Malformed callback body');
+                return;
+            }
+        }
+        // If it's already JSON, express.json middleware has parsed it and we can use it as is
+
+        // Reject anything that is not signed by Twilio when validation is enabled
+        if (this.signatureValidation) {
+            const publicUrl = this.getPublicUrl();
+            const result = publicUrl
+                ? validateTwilioRequest(this.signatureValidation.authToken, {
+                    url: `${publicUrl}${req.originalUrl}`,
+                    signature: req.get('X-Twilio-Signature'),
+                    contentType,
+                    body,
+                    rawBody
+                })
+                : { valid: false, reason: 'Public URL not available' };
+
+            if (!result.valid) {
+                const reason = result.reason ?? 'Signature validation failed';
+                this.metrics?.rejected.inc({ route: routeName, reason: 'signature' });
+                this.emit(CallbackHandlerEventNames.REJECTED, { level: 'warn', reason, queryParameters, body });
+                res.status(403).send('Forbidden');
+                return;
+            }
+        }
+
+        // Run the registered webhook verifiers against the raw body
+        if (this.verifiers.length > 0) {
+            const publicUrl = this.getPublicUrl();
+            const result = await runVerifiers(this.verifiers, {
+                headers: req.headers,
+                rawBody,
+                body,
+                url: publicUrl ? `${publicUrl}${req.originalUrl}` : null
+            });
+
+            if (!result.valid) {
+                const reason = result.reason ?? 'Verification failed';
+                this.metrics?.rejected.inc({ route: routeName, reason: 'verification' });
+                this.emit(CallbackHandlerEventNames.VERIFICATION_FAILED, { level: 'warn', verifier: result.verifier, reason, queryParameters, body });
+                res.status(401).send('Unauthorized');
+                return;
+            }
+        }
+
+        // Validate the body against the route's or handler's schema, using the parsed result from here on.
+        // GET and HEAD callbacks carry their fields in the query string, so that is what they are checked on.
+        const schema: CallbackSchema<unknown> | undefined = route?.schema ?? this.schema;
+        if (schema) {
+            const result = schema.safeParse(req.method === 'GET' || req.method === 'HEAD' ? queryParameters : body);
+            if (!result.success) {
+                this.metrics?.rejected.inc({ route: routeName, reason: 'validation' });
+                this.emit(CallbackHandlerEventNames.VALIDATION_ERROR, {
+                    level: 'warn',
+                    error: result.error,
+                    queryParameters,
+                    body,
+                    route: routeName,
+                    callbackId: route ? route.id : null
+                });
+                res.status(this.validationErrorStatus).send('Invalid callback payload');
+                return;
+            }
+            body = result.data;
+        }
+
+        // Emit an event with the query parameters object and the processed body
+        // Use the constant for consistency, although the string literal works here too
+        const data: CallbackEventData = {
+            level: 'info',
+            queryParameters: queryParameters,
+            body: body,
+            headers: req.headers,
+            receiptId: receiptId ?? randomUUID(),
+            receivedAt: receivedAt.toISOString(),
+            method: req.method,
+            url: req.originalUrl,
+            sourceIp: req.ip ?? null,
+            contentType: contentType || null,
+            rawBody,
+            route: routeName,
+            callbackId: route ? route.id : null
+        };
+        const cloudEvent = decodeCloudEvent(req.headers, body, contentType);
+        if (cloudEvent) {
+            data.cloudEvent = cloudEvent;
+        }
+
+        // Acknowledge provider retries without handing them to listeners again
+        const deduplicationRequest = { headers: req.headers, queryParameters, body, route: data.route };
+        const duplicateKey = this.deduplicator?.check(deduplicationRequest);
+        if (duplicateKey !== undefined) {
+            this.metrics?.duplicates.inc({ route: routeName });
+            this.emit(CallbackHandlerEventNames.DUPLICATE, { ...data, duplicateKey });
+            await this.recordCallback(data, req, true);
+            this.sendResponse(res, DEFAULT_CALLBACK_RESPONSE);
+            return;
+        }
+        // The key is held while this delivery is handled, so concurrent retries are still suppressed,
+        // but released if it fails so that the provider's retry is handled again
+        if (this.deduplicator) {
+            const deduplicator = this.deduplicator;
+            res.once('close', () => {
+                if (!res.writableFinished || res.statusCode >= 400) {
+                    deduplicator.forget(deduplicationRequest);
+                }
+            });
+        }
+
+        this.metrics?.received.inc({ route: routeName });
+        await this.recordCallback(data, req);
+        this.rememberCallback(data);
+        this.inspector?.record(data);
+        this.forwarder?.forward(data);
+
+        // Call the listeners ourselves so that their failures can decide the reply
+        const handlerListeners = invokeListeners(this, CallbackHandlerEventNames.CALLBACK, data);
+        const routeListeners = route ? invokeListeners(route, CallbackRouteEventNames.CALLBACK, data) : { errors: [], pending: [] };
+        const errors = [...handlerListeners.errors, ...routeListeners.errors];
+        const pending = [...handlerListeners.pending, ...routeListeners.pending];
+
+        if (this.failOnListenerError) {
+            for (const result of await Promise.allSettled(pending)) {
+                if (result.status === 'rejected') {
+                    errors.push(result.reason instanceof Error ? result.reason : new Error(String(result.reason)));
+                }
+            }
+        } else {
+            for (const promise of pending) {
+                this.trackInFlight(promise).catch((error) => {
+                    this.log('error', `Callback listener failed: ${error}`, { code: LogCodes.LISTENER_FAILED, route: routeName, receiptId: data.receiptId, error });
                 });
+            }
+        }
+
+        for (const error of errors) {
+            this.log('error', `Callback listener failed: ${error}`, { code: LogCodes.LISTENER_FAILED, route: routeName, receiptId: data.receiptId, error });
+        }
+        if (errors.length > 0 && this.failOnListenerError) {
+            res.status(500).send('Callback processing failed');
+            return;
+        }
+
+        this.sendResponse(res, await this.resolveResponse(data, route));
+    }
+
+    /**
+     * Decodes bodies the JSON and form parsers leave alone: XML becomes an object, other text stays
+     * a string, multipart becomes a {@link MultipartBody} and anything else stays a Buffer
+     */
+    private decodeBody(contentType: string, body: any, rawBody: Buffer): any {
+        const mediaType = contentType.split(';')[0].trim().toLowerCase();
+        if (mediaType === 'multipart/form-data') {
+            const boundary = multipartBoundary(contentType);
+            if (!boundary) {
+                throw new Error('Missing multipart boundary');
+            }
+            return parseMultipart(rawBody, boundary, this.multipart);
+        }
+        if (mediaType === 'text/xml' || mediaType === 'application/xml' || mediaType.endsWith('+xml')) {
+            return typeof body === 'string' && body.trim() ? parseXml(body) : body;
+        }
+        // Match the JSON and form parsers, which give an empty object for an empty body
+        return Buffer.isBuffer(body) && body.length === 0 ? {} : body;
+    }
+
+    /**
+     * Runs the route's or handler's responder, falling back to the default reply when there is
+     * none, it returns nothing or it takes longer than `respondTimeoutMs`
+     */
+    private async resolveResponse(data: CallbackEventData, route: CallbackRoute<any> | null): Promise<CallbackResponse> {
+        const responder = route?.respond ?? this.respond;
+        if (!responder) {
+            return DEFAULT_CALLBACK_RESPONSE;
+        }
 
-                serverAttempt.on('listening', async () => {
-                    this.server = serverAttempt; // Store the successful server instance
-                    this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: `Callback server listening on port ${portToTry}` });
-
-                    if (!this.ngrokAuthToken) {
-                        const error = new Error('Ngrok auth token not provided');
-                        this.emit(CallbackHandlerEventNames.LOG, { level: 'error', message: error });
-                        reject(error);
-                        return;
-                    }
-
-                    try {
-                        // Use the official SDK to establish the tunnel
-                        this.ngrokListener = await ngrok.forward({
-                            addr: portToTry,
-                            authtoken: this.ngrokAuthToken,
-                            domain: this.customDomain,
-                            // Optional status change handler
-                            onStatusChange: (status: string) => {
-                                // Status will contain error information if there's a problem
-                                if (status.includes('error') || status.includes('disconnected')) {
-                                    this.emit(CallbackHandlerEventNames.LOG, {
-                                        level: 'error',
-                                        message: `Tunnel status changed: ${status}`
-                                    });
-                                }
-                            }
-                        });
-
-                        this.ngrokUrl = this.ngrokListener.url();
-                        const callbackUrl = `${this.ngrokUrl}/callback`;
-
-                        if (this.customDomain) {
-                            this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: `Using custom domain: ${this.customDomain}` });
-                        }
-
-                        this.emit(CallbackHandlerEventNames.TUNNEL_STATUS, {
-                            level: 'info',
-                            message: callbackUrl
-                        });
-
-                        resolve(callbackUrl);
-                    } catch (error) {
-                        this.emit(CallbackHandlerEventNames.LOG, {
-                            level: 'error',
-                            message: `Failed to establish ngrok tunnel: ${error}`
-                        });
-
-                        this.emit(CallbackHandlerEventNames.TUNNEL_STATUS, {
-                            level: 'error',
-                            message: error instanceof Error ? error : String(error)
-                        });
-
-                        reject(error);
-                    }
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<'timeout'>((resolve) => {
+            timer = setTimeout(() => resolve('timeout'), this.respondTimeoutMs);
+        });
+
+        try {
+            const response = await Promise.race([Promise.resolve(responder(data)), timeout]);
+            if (response === 'timeout') {
+                this.log('warn', `Callback responder timed out after ${this.respondTimeoutMs}ms, sending default reply`, {
+                    code: LogCodes.RESPONDER_TIMEOUT, route: data.route, receiptId: data.receiptId, durationMs: this.respondTimeoutMs
                 });
-            };
+                return DEFAULT_CALLBACK_RESPONSE;
+            }
+            return response ?? DEFAULT_CALLBACK_RESPONSE;
+        } catch (error) {
+            this.log('error', `Callback responder failed: ${error}`, { code: LogCodes.RESPONDER_FAILED, route: data.route, receiptId: data.receiptId, error: error as Error });
+            return this.failOnListenerError ? { status: 500, body: 'Callback processing failed' } : DEFAULT_CALLBACK_RESPONSE;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Writes a {@link CallbackResponse} to the Express response
+     */
+    private sendResponse(res: express.Response, response: CallbackResponse): void {
+        res.status(response.status ?? 200);
+        for (const [name, value] of Object.entries(response.headers ?? {})) {
+            res.set(name, value);
+        }
+
+        const body = response.body;
+        if (body === undefined) {
+            res.end();
+        } else if (typeof body === 'string' || Buffer.isBuffer(body)) {
+            res.send(body);
+        } else {
+            res.json(body);
+        }
+    }
+
+    /**
+     * The current lifecycle state
+     */
+    get state(): CallbackHandlerState {
+        return this.currentState;
+    }
+
+    private setState(state: CallbackHandlerState): void {
+        const previousState = this.currentState;
+        this.currentState = state;
+        this.emit(CallbackHandlerEventNames.STATE_CHANGE, { level: 'info', state, previousState });
+    }
+
+    /**
+     * Emits a 'log' event and passes the message to the configured logger
+     */
+    private log(level: LogLevel, message: string | Error, fields: LogFields = {}): void {
+        this.emit(CallbackHandlerEventNames.LOG, { level, message, ...fields });
+        this.logger?.[level](String(message), message instanceof Error ? { error: message, ...fields } : fields);
+    }
 
-            startServer();
+    /**
+     * Remembers a promise until it settles, so that {@link stop} can wait for it
+     */
+    private trackInFlight<T>(promise: Promise<T>): Promise<T> {
+        this.inFlight.add(promise);
+        const forget = () => {
+            this.inFlight.delete(promise);
+        };
+        promise.then(forget, forget);
+        return promise;
+    }
+
+    /**
+     * Starts the callback server, or joins the hub's server when created with `hub`.
+     * Automatically finds an available port if the specified port is in use.
+     * 
+     * @returns Promise that resolves to the callback URL
+     * @throws If the handler is already starting, running or stopping
+     */
+    start(): Promise<string> {
+        if (this.currentState !== 'idle' && this.currentState !== 'stopped') {
+            return Promise.reject(new Error(`Cannot start a CallbackHandler that is ${this.currentState}`));
+        }
+        this.starting = this.startup().finally(() => {
+            this.starting = null;
         });
+        return this.starting;
+    }
+
+    private async startup(): Promise<string> {
+        this.setState('starting');
+        this.forwarder?.open();
+
+        // Starts the shared server and tunnel, or joins them if another handler already did
+        try {
+            await this.adminServer?.start();
+            await this.hub.start();
+        } catch (error) {
+            await this.adminServer?.stop();
+            this.setState('stopped');
+            throw error;
+        }
+
+        this.installSignalHandlers();
+        this.setState('running');
+        return this.getCallbackUrl() as string;
+    }
+
+    /**
+     * Stops the handler on SIGINT and SIGTERM when `handleSignals` is set
+     */
+    private installSignalHandlers(): void {
+        if (!this.handleSignals || this.signalHandler) return;
+        this.signalHandler = (signal: NodeJS.Signals) => {
+            this.log('info', `Received ${signal}, stopping`, { code: LogCodes.SIGNAL_RECEIVED });
+            this.stop().finally(() => {
+                // Fall back to the default behaviour (exiting) if no one else handles the signal
+                if (process.listenerCount(signal) === 0) {
+                    process.kill(process.pid, signal);
+                }
+            });
+        };
+        process.once('SIGINT', this.signalHandler);
+        process.once('SIGTERM', this.signalHandler);
+    }
+
+    private removeSignalHandlers(): void {
+        if (!this.signalHandler) return;
+        process.removeListener('SIGINT', this.signalHandler);
+        process.removeListener('SIGTERM', this.signalHandler);
+        this.signalHandler = null;
+    }
+
+    /**
+     * Re-emits the hub's 'tunnelStatus' events with this handler's callback URL
+     */
+    private handleTunnelStatus(status: TunnelStatusEventData): void {
+        const url = status.url ? `${status.url}${this.mountPath}${this.pathPrefix}/callback` : null;
+        const data: TunnelStatusEventData = { ...status, url, message: status.state === 'online' && url ? url : status.message };
+        this.emit(CallbackHandlerEventNames.TUNNEL_STATUS, data);
     }
 
     /**
-     * Returns the public ngrok URL if available
+     * Returns the current state of the tunnel
+     */
+    getTunnelState(): TunnelState {
+        return this.hub.getTunnelState();
+    }
+
+    /**
+     * Returns the local port the callback server is bound to
+     *
+     * @returns The bound port or null if not listening
+     */
+    getLocalPort(): number | null {
+        return this.hub.getLocalPort();
+    }
+
+    /**
+     * Returns the public URL of the default /callback endpoint
+     *
+     * @returns The callback URL or null if the tunnel is not connected
+     */
+    getCallbackUrl(): string | null {
+        const baseUrl = this.getCallbackBaseUrl();
+        return baseUrl ? `${baseUrl}/callback` : null;
+    }
+
+    /**
+     * Returns the public URL the callback routes are mounted under
+     */
+    private getCallbackBaseUrl(): string | null {
+        const publicUrl = this.getPublicUrl();
+        return publicUrl ? `${publicUrl}${this.mountPath}${this.pathPrefix}` : null;
+    }
+
+    /**
+     * Returns the local URL of the inspector page, for opening in a browser on this machine
+     *
+     * @returns The inspector URL or null if the `inspector` option is off or the handler is not started
+     */
+    getInspectorUrl(): string | null {
+        const baseUrl = this.adminServer?.getUrl();
+        return this.inspectorPath && baseUrl ? `${baseUrl}${this.inspectorPath}/` : null;
+    }
+
+    /**
+     * Returns the public tunnel URL if available
      * 
-     * @returns The public ngrok URL or null if not available
+     * @returns The public tunnel URL or null if not available
      */
     getPublicUrl(): string | null {
-        return this.ngrokUrl;
+        return this.hub.getPublicUrl();
+    }
+
+    /**
+     * Creates a named callback route with its own unique URL.
+     *
+     * Callbacks sent to the route are emitted on the route itself and, with `route` and
+     * `callbackId` set, on this handler's 'callback' event.
+     *
+     * @param name Route name, made of letters, digits, `-` and `_`
+     * @param options Route options
+     * @returns The new route. Its `url` is available once the handler has started.
+     *
+     * @example
+     * const callStatus = handler.createCallback('call-status');
+     * callStatus.on('callback', (data) => console.log(data.body.CallStatus));
+     * await client.calls.create({ statusCallback: callStatus.url, ... });
+     */
+    createCallback<TRouteBody = TBody>(name: string, options: CreateCallbackOptions<TRouteBody> = {}): CallbackRoute<TRouteBody> {
+        const id = options.id ?? randomUUID();
+        const validSegment = /^[A-Za-z0-9_-]+$/;
+        if (!validSegment.test(name) || !validSegment.test(id)) {
+            throw new Error(`Invalid callback route '${name}/${id}': use letters, digits, '-' and '_' only`);
+        }
+
+        const key = `${name}/${id}`;
+        if (this.routes.has(key)) {
+            throw new Error(`Callback route '${key}' already exists`);
+        }
+
+        const route = new CallbackRoute<TRouteBody>(name, id, () => this.getCallbackBaseUrl(), (closed) => {
+            this.routes.delete(`${closed.name}/${closed.id}`);
+        }, options);
+        this.routes.set(key, route);
+        return route;
     }
 
     /**
-     * Stops the callback server and closes all ngrok tunnels
+     * Returns the named callback routes that are currently open
      */
-    async stop(): Promise<void> {
+    getCallbacks(): CallbackRoute<any>[] {
+        return [...this.routes.values()];
+    }
+
+    /**
+     * Writes a callback to the configured store, flagged if it was suppressed as a duplicate.
+     * Failures are logged rather than failing the request.
+     */
+    private async recordCallback(data: CallbackEventData, req: express.Request, duplicate = false): Promise<void> {
+        if (!this.store) return;
         try {
-            // Close the ngrok listener if it exists
-            if (this.ngrokListener) {
-                await this.ngrokListener.close();
-                this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: 'Ngrok tunnel closed' });
-                this.ngrokListener = null;
-                this.ngrokUrl = null;
-            } else {
-                // If for some reason we don't have a listener reference but have a URL,
-                // try to disconnect using the URL
-                if (this.ngrokUrl) {
-                    await ngrok.disconnect(this.ngrokUrl);
-                    this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: `Disconnected tunnel: ${this.ngrokUrl}` });
-                    this.ngrokUrl = null;
-                }
+            await this.store.append({
+                id: data.receiptId,
+                receivedAt: data.receivedAt,
+                route: data.route,
+                callbackId: data.callbackId,
+                headers: req.headers,
+                method: data.method,
+                url: data.url,
+                sourceIp: data.sourceIp,
+                contentType: data.contentType,
+                rawBody: data.rawBody.length > 0 ? data.rawBody.toString('base64') : undefined,
+                queryParameters: data.queryParameters,
+                body: data.body,
+                ...(duplicate ? { duplicate: true } : {})
+            });
+        } catch (error) {
+            this.log('error', `Failed to store callback: ${error}`, { code: LogCodes.STORE_FAILED, route: data.route, receiptId: data.receiptId, error: error as Error });
+        }
+    }
+
+    /**
+     * Returns callbacks recorded by the configured store, oldest first
+     *
+     * @param query Optional filter by time, route and count
+     * @returns The stored callbacks
+     * @throws If no `store` was configured
+     */
+    async history(query?: CallbackQuery): Promise<StoredCallback[]> {
+        if (!this.store) {
+            throw new Error('No callback store configured');
+        }
+        return this.store.query(query);
+    }
+
+    /**
+     * Re-emits stored callbacks on the 'callback' event (and on their named route, if it is still open),
+     * with `replayed` set to true. Use this to recover status updates missed while no listener was attached.
+     * Suppressed duplicates are skipped unless `includeDuplicates` is set.
+     *
+     * @param query Optional filter by time, route and count
+     * @returns The number of callbacks replayed
+     * @throws If no `store` was configured
+     */
+    async replay(query: ReplayQuery = {}): Promise<number> {
+        const { limit, includeDuplicates, ...filter } = query;
+        const stored = await this.history(filter);
+        const records = filterStoredCallbacks(stored.filter((record) => includeDuplicates || !record.duplicate), { limit });
+        for (const record of records) {
+            const data: CallbackEventData = {
+                level: 'info',
+                queryParameters: record.queryParameters,
+                body: record.body,
+                headers: record.headers,
+                receiptId: record.id,
+                receivedAt: record.receivedAt,
+                method: record.method ?? 'POST',
+                url: record.url ?? (record.callbackId ? `/callback/${record.route}/${record.callbackId}` : '/callback'),
+                sourceIp: record.sourceIp ?? null,
+                contentType: record.contentType ?? null,
+                rawBody: record.rawBody ? Buffer.from(record.rawBody, 'base64') : Buffer.alloc(0),
+                route: record.route,
+                callbackId: record.callbackId,
+                replayed: true
+            };
+            this.emitReplayed(data);
+        }
+        return records.length;
+    }
 
-                // As a fallback, disconnect all tunnels
-                await ngrok.disconnect();
-                this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: 'All ngrok tunnels closed' });
+    /**
+     * Emits a replayed callback on the 'callback' event and on its named route, if it is still open
+     */
+    private emitReplayed(data: CallbackEventData): void {
+        this.emit(CallbackHandlerEventNames.CALLBACK, data);
+        this.routes.get(`${data.route}/${data.callbackId}`)?.emit(CallbackRouteEventNames.CALLBACK, data);
+    }
+
+    /**
+     * Adds a callback to the short-lived buffer consulted by {@link waitForCallback}
+     */
+    private rememberCallback(data: CallbackEventData): void {
+        this.pruneRecentCallbacks();
+        this.recentCallbacks.push({ data, receivedAt: Date.now() });
+        if (this.recentCallbacks.length > this.recentCallbackLimit) {
+            this.recentCallbacks.splice(0, this.recentCallbacks.length - this.recentCallbackLimit);
+        }
+    }
+
+    /**
+     * Drops buffered callbacks older than the configured TTL
+     */
+    private pruneRecentCallbacks(): void {
+        const cutoff = Date.now() - this.recentCallbackTtlMs;
+        while (this.recentCallbacks.length > 0 && this.recentCallbacks[0].receivedAt < cutoff) {
+            this.recentCallbacks.shift();
+        }
+    }
+
+    /**
+     * Waits for a callback matching the given criteria.
+     *
+     * Callbacks received within the last `recentCallbackTtlMs` are checked first, so a status
+     * callback that arrives before this is called is not missed.
+     *
+     * @param options What to wait for and for how long
+     * @returns Promise that resolves to the matching callback
+     * @throws {CallbackTimeoutError} If no matching callback arrives within `timeoutMs`
+     *
+     * @example
+     * const call = await client.calls.create({ statusCallback: url, ... });
+     * const completed = await handler.waitForCallback({
+     *   match: { CallSid: call.sid, CallStatus: 'completed' },
+     *   timeoutMs: 60000
+     * });
+     */
+    waitForCallback(options: WaitForCallbackOptions = {}): Promise<CallbackEventData<TBody>> {
+        const { match, route, timeoutMs = 30000, signal, includeRecent = true } = options;
+        const isMatch = (data: CallbackEventData) => (!route || data.route === route) && matchesCallback(data, match);
+
+        if (includeRecent) {
+            this.pruneRecentCallbacks();
+            const recent = this.recentCallbacks.find((entry) => isMatch(entry.data));
+            if (recent) {
+                return Promise.resolve(recent.data);
             }
-        } catch (error) {
-            this.emit(CallbackHandlerEventNames.LOG, { level: 'error', message: `Error during tunnel cleanup: ${error}` });
         }
 
-        // Close server if it exists
-        if (this.server) {
-            this.server.close();
-            this.emit(CallbackHandlerEventNames.LOG, { level: 'info', message: 'Callback server stopped' });
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason ?? new Error('Aborted'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                this.removeListener(CallbackHandlerEventNames.CALLBACK, onCallback);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const onCallback = (data: CallbackEventData) => {
+                if (isMatch(data)) {
+                    cleanup();
+                    resolve(data);
+                }
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(signal?.reason ?? new Error('Aborted'));
+            };
+            const timer = setTimeout(() => {
+                cleanup();
+                reject(new CallbackTimeoutError(timeoutMs));
+            }, timeoutMs);
+
+            this.on(CallbackHandlerEventNames.CALLBACK, onCallback);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Iterates over every callback received from now on, across all routes.
+     * Break out of the loop to stop listening.
+     *
+     * @example
+     * for await (const data of handler.callbacks()) {
+     *   console.log(data.route, data.body);
+     * }
+     */
+    callbacks(): AsyncIterableIterator<CallbackEventData<TBody>> {
+        return createEventIterator<CallbackEventData<TBody>>(this, CallbackHandlerEventNames.CALLBACK);
+    }
+
+    /**
+     * Returns the registry the `metrics` option records into, or undefined if metrics are off
+     */
+    getMetrics(): MetricsRegistry | undefined {
+        return this.metricsRegistry;
+    }
+
+    /**
+     * Returns the local URL of the metrics endpoint, for scraping from this machine
+     *
+     * @returns The metrics URL or null if metrics are off or not served, or the handler is not started
+     */
+    getMetricsUrl(): string | null {
+        const baseUrl = this.adminServer?.getUrl();
+        return this.metricsPath && baseUrl ? `${baseUrl}${this.metricsPath}` : null;
+    }
+
+    /**
+     * Returns the callbacks that could not be forwarded to a `forward` target, oldest first
+     */
+    getDeadLetters(): ForwardDeadLetter[] {
+        return this.forwarder?.getDeadLetters() ?? [];
+    }
+
+    /**
+     * Forwards the dead letters to their targets again. Those that fail again return to the list.
+     *
+     * @returns The number of dead letters retried
+     */
+    retryDeadLetters(): number {
+        return this.forwarder?.retryDeadLetters() ?? 0;
+    }
+
+    /**
+     * Returns the tunnel provider used by this handler
+     */
+    getTunnelProvider(): TunnelProvider {
+        return this.hub.getTunnelProvider();
+    }
+
+    /**
+     * Returns the hub providing this handler's server and tunnel. A handler created without
+     * `hub` has a private one.
+     */
+    getHub(): CallbackHub {
+        return this.hub;
+    }
+
+    /**
+     * Stops the handler gracefully: new callbacks are answered with 503, in-flight requests, async
+     * listeners and forward deliveries are given `drainTimeoutMs` to finish (deliveries still
+     * running then are aborted), and then all named routes, the tunnel and the server (if this
+     * handler started it) are closed. A handler on a shared hub leaves the hub's tunnel and server
+     * running. Calling it while starting waits for the start to finish first. Calling it again
+     * while stopping returns the same promise. Calling it when not started does nothing, unless
+     * the handler sits on a shared hub that is listening, where it answers callbacks even before
+     * its own start().
+     *
+     * @param options Drain timeout
+     */
+    stop(options: StopOptions = {}): Promise<void> {
+        if (this.stopping) {
+            return this.stopping;
+        }
+        const serving = this.currentState === 'idle' && !this.ownsHub && this.hub.getLocalPort() !== null;
+        if ((this.currentState === 'idle' && !serving) || this.currentState === 'stopped') {
+            return Promise.resolve();
+        }
+
+        const drainTimeoutMs = options.drainTimeoutMs ?? 5000;
+        // A pending start() finishes first, so that it cannot mark a stopped handler as running
+        const shutdown = this.starting
+            ? this.starting.then(() => this.shutdown(drainTimeoutMs), () => undefined)
+            : this.shutdown(drainTimeoutMs);
+        this.stopping = shutdown.finally(() => {
+            this.stopping = null;
+        });
+        return this.stopping;
+    }
+
+    private async shutdown(drainTimeoutMs: number): Promise<void> {
+        this.setState('stopping');
+        this.removeSignalHandlers();
+        await this.drain(drainTimeoutMs);
+
+        for (const route of [...this.routes.values()]) {
+            route.close();
+        }
+        this.forwarder?.close();
+        this.inspector?.close();
+        await this.adminServer?.stop();
+
+        if (this.ownsHub) {
+            await this.hub.stop();
+        }
+        this.setState('stopped');
+    }
+
+    /**
+     * Waits for in-flight requests, async listeners and forward deliveries, including any they
+     * start, up to `timeoutMs`
+     */
+    private async drain(timeoutMs: number): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        const pending = () => this.inFlight.size + (this.forwarder?.pending ?? 0);
+        while (pending() > 0 && Date.now() < deadline) {
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<void>((resolve) => {
+                timer = setTimeout(resolve, deadline - Date.now());
+            });
+            await Promise.race([Promise.allSettled([...this.inFlight, this.forwarder?.drain()]), timeout]);
+            clearTimeout(timer);
+        }
+
+        if (this.inFlight.size > 0) {
+            this.log('warn', `Stopping with ${this.inFlight.size} callback(s) still in flight after ${timeoutMs}ms`, { code: LogCodes.DRAIN_TIMEOUT, durationMs: timeoutMs });
+        }
+        if ((this.forwarder?.pending ?? 0) > 0) {
+            this.log('warn', `Cancelling ${this.forwarder?.pending} forward delivery(s) still in flight after ${timeoutMs}ms`, { code: LogCodes.DRAIN_TIMEOUT, durationMs: timeoutMs });
         }
     }
 
@@ -327,7 +1762,7 @@ export class CallbackHandler extends EventEmitter {
      */
     on<E extends keyof CallbackHandlerEvents>(
         event: E,
-        listener: CallbackHandlerEvents[E]
+        listener: CallbackHandlerEvents<TBody>[E]
     ): this {
         // The `as any` cast is necessary because TypeScript struggles to reconcile
         // the generic E with the specific keys of CallbackHandlerEvents within the super call.
@@ -347,7 +1782,7 @@ export class CallbackHandler extends EventEmitter {
      */
     once<E extends keyof CallbackHandlerEvents>(
         event: E,
-        listener: CallbackHandlerEvents[E]
+        listener: CallbackHandlerEvents<TBody>[E]
     ): this {
         return super.once(event, listener as any);
     }
@@ -364,7 +1799,7 @@ export class CallbackHandler extends EventEmitter {
      */
     emit<E extends keyof CallbackHandlerEvents>(
         event: E,
-        ...args: Parameters<CallbackHandlerEvents[E]>
+        ...args: Parameters<CallbackHandlerEvents<TBody>[E]>
     ): boolean {
         return super.emit(event, ...args);
     }
@@ -0,0 +1,36 @@
+import { CallbackEventData } from './CallbackHandler.js';
+
+/**
+ * Selects callbacks, either with a predicate or with key/value pairs that must all be present
+ * in the callback's `body` or `queryParameters`.
+ *
+ * @example
+ * // Predicate
+ * const isCompleted: CallbackMatcher = (data) => data.body.CallStatus === 'completed';
+ * // Key/value pairs
+ * const sameCall: CallbackMatcher = { CallSid: 'CA123', CallStatus: 'completed' };
+ */
+export type CallbackMatcher =
+    | ((data: CallbackEventData) => boolean)
+    | Record<string, string | number | boolean>;
+
+/**
+ * Tests a callback against a {@link CallbackMatcher}. Key/value pairs are compared as strings,
+ * since form-encoded bodies and query parameters always arrive as strings.
+ *
+ * @param data The callback to test
+ * @param matcher The matcher. Undefined matches everything.
+ * @returns Whether the callback matches
+ */
+export function matchesCallback(data: CallbackEventData, matcher: CallbackMatcher | undefined): boolean {
+    if (!matcher) {
+        return true;
+    }
+    if (typeof matcher === 'function') {
+        return matcher(data);
+    }
+    return Object.entries(matcher).every(([key, expected]) => {
+        const actual = data.body?.[key] ?? data.queryParameters?.[key];
+        return actual !== undefined && String(actual) === String(expected);
+    });
+}
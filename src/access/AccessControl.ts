@@ -0,0 +1,146 @@
+import { BlockList, isIP } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+
+/**
+ * Why a request was refused before reaching the callback logic
+ */
+export type AccessDeniedReason = 'ip_not_allowed' | 'rate_limited' | 'unauthorized' | 'payload_too_large';
+
+/**
+ * Interface for the `rateLimit` option of {@link CallbackHandlerOptions}.
+ */
+export interface RateLimitOptions {
+    /** Requests allowed per source IP in each window */
+    max: number;
+    /** Length of the window in milliseconds. Defaults to 60000. */
+    windowMs?: number;
+}
+
+/**
+ * Interface for the `basicAuth` option of {@link CallbackHandlerOptions}.
+ */
+export interface BasicAuthCredentials {
+    username: string;
+    password: string;
+}
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix, e.g. `::ffff:10.0.0.1` becomes `10.0.0.1`
+ */
+function normalizeIp(ip: string): string {
+    return ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+}
+
+/**
+ * Builds a matcher for a list of addresses and CIDR ranges, e.g. a provider's published egress ranges
+ *
+ * @param entries IPv4 or IPv6 addresses and ranges, e.g. `['54.172.60.0/23', '2600:1f18::/32', '127.0.0.1']`
+ * @returns A function telling whether an address is in the list
+ * @throws If an entry is not a valid address or range
+ */
+export function createIpAllowlist(entries: string[]): (ip: string) => boolean {
+    const list = new BlockList();
+    for (const entry of entries) {
+        const [address, prefix] = entry.trim().split('/');
+        const normalized = normalizeIp(address);
+        const family = isIP(normalized);
+        const bits = prefix === undefined ? undefined : Number(prefix);
+        const maxBits = family === 4 ? 32 : 128;
+        if (family === 0 || (bits !== undefined && (!Number.isInteger(bits) || bits < 0 || bits > maxBits))) {
+            throw new Error(`Invalid IP address or range '${entry}'`);
+        }
+        const type = family === 4 ? 'ipv4' : 'ipv6';
+        if (bits === undefined) {
+            list.addAddress(normalized, type);
+        } else {
+            list.addSubnet(normalized, bits, type);
+        }
+    }
+
+    return (ip: string) => {
+        const normalized = normalizeIp(ip);
+        const family = isIP(normalized);
+        return family !== 0 && list.check(normalized, family === 4 ? 'ipv4' : 'ipv6');
+    };
+}
+
+/**
+ * Fixed-window request counter per key, typically the source IP
+ */
+export class RateLimiter {
+    private max: number;
+    private windowMs: number;
+    private windows: Map<string, { count: number; resetAt: number }> = new Map();
+
+    constructor(options: RateLimitOptions) {
+        this.max = options.max;
+        this.windowMs = options.windowMs ?? 60000;
+    }
+
+    /**
+     * Counts a request
+     *
+     * @param key Who made the request
+     * @returns Whether it is allowed, and if not, how long until the window resets
+     */
+    take(key: string): { allowed: boolean; retryAfterMs: number } {
+        const now = Date.now();
+        let window = this.windows.get(key);
+        if (!window || window.resetAt <= now) {
+            this.prune(now);
+            window = { count: 0, resetAt: now + this.windowMs };
+            this.windows.set(key, window);
+        }
+        window.count++;
+        return { allowed: window.count <= this.max, retryAfterMs: window.count <= this.max ? 0 : window.resetAt - now };
+    }
+
+    /**
+     * Drops expired windows once many keys have been seen
+     */
+    private prune(now: number): void {
+        if (this.windows.size < 1000) return;
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) this.windows.delete(key);
+        }
+    }
+}
+
+/**
+ * Checks an `Authorization: Basic` header against the expected credentials in constant time
+ *
+ * @param header The Authorization header, if any
+ * @param credentials The expected username and password
+ */
+export function checkBasicAuth(header: string | undefined, credentials: BasicAuthCredentials): boolean {
+    const match = /^Basic\s+(\S+)$/i.exec(header ?? '');
+    if (!match) return false;
+    const received = Buffer.from(match[1], 'base64');
+    const expected = Buffer.from(`${credentials.username}:${credentials.password}`);
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Tells whether a request was made on this machine rather than relayed through the tunnel.
+ * The tunnel agent also connects from loopback, but adds forwarding headers.
+ *
+ * @param req The incoming request
+ */
+export function isLocalRequest(req: IncomingMessage): boolean {
+    const address = req.socket.remoteAddress ?? '';
+    const loopback = address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+    return loopback && req.headers['x-forwarded-for'] === undefined && req.headers['forwarded'] === undefined;
+}
+
+/**
+ * Tells whether a `Host` header names this machine by a loopback name or address. Anything else
+ * may be a DNS rebinding attack, where a web page resolves its own host name to 127.0.0.1.
+ *
+ * @param host The `Host` header, with or without a port
+ */
+export function isLocalHost(host: string | undefined): boolean {
+    if (!host) return false;
+    const hostname = host.replace(/:\d+$/, '').toLowerCase();
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+}
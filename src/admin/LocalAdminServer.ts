@@ -0,0 +1,99 @@
+import express from 'express';
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { isLocalHost } from '../access/AccessControl.js';
+
+/**
+ * Interface for {@link LocalAdminServer} constructor options.
+ */
+export interface LocalAdminServerOptions {
+    /** Port to listen on. Defaults to 0, any free port. */
+    port?: number;
+}
+
+/**
+ * LocalAdminServer Class
+ *
+ * A listener bound to 127.0.0.1, separate from the server the tunnel forwards to, for pages and
+ * endpoints meant only for this machine such as the inspector and the metrics endpoint. Local
+ * relays like `ssh -R` or `socat` reach the callback server without adding forwarding headers,
+ * so a different port is the only reliable boundary. Requests whose `Host` header is not a
+ * loopback name are refused, so a web page cannot reach it through DNS rebinding.
+ *
+ * @example
+ * const admin = new LocalAdminServer({ port: 9464 });
+ * admin.use('/metrics', (req, res) => res.send(registry.render()));
+ * await admin.start(); // http://127.0.0.1:9464
+ */
+export class LocalAdminServer {
+    private app = express();
+    private server: Server | null = null;
+    private port: number;
+
+    /**
+     * Creates a new LocalAdminServer instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: LocalAdminServerOptions = {}) {
+        this.port = options.port ?? 0;
+        this.app.disable('x-powered-by');
+        this.app.use((req, res, next) => {
+            if (!isLocalHost(req.headers.host)) {
+                res.status(403).send('Forbidden');
+                return;
+            }
+            next();
+        });
+    }
+
+    /**
+     * Serves `handler` at `path`
+     *
+     * @param path Path to mount the handler at
+     * @param handler An Express handler or router
+     */
+    use(path: string, handler: express.RequestHandler | express.Router): void {
+        this.app.use(path, handler);
+    }
+
+    /**
+     * Starts listening on 127.0.0.1. Calling it while listening does nothing.
+     *
+     * @returns The bound port
+     */
+    async start(): Promise<number> {
+        if (!this.server) {
+            const server = createServer(this.app);
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(this.port, '127.0.0.1', () => {
+                    server.removeListener('error', reject);
+                    resolve();
+                });
+            });
+            this.server = server;
+        }
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    /**
+     * Returns the base URL, e.g. `http://127.0.0.1:9464`, or null if not listening
+     */
+    getUrl(): string | null {
+        return this.server ? `http://127.0.0.1:${(this.server.address() as AddressInfo).port}` : null;
+    }
+
+    /**
+     * Stops listening, closing open connections such as the inspector's live stream
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) return;
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections?.();
+        });
+    }
+}
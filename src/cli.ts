@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+/**
+ * MCP Status Callback command line interface
+ *
+ * Grabs a public callback URL and shows, forwards or replays what providers send to it.
+ *
+ *   mcp-status-callback listen [options]
+ *   mcp-status-callback forward --to http://localhost:3000/hook [options]
+ *   mcp-status-callback replay <journal-file> [--to <url>] [--since <time>] [--route <name>]
+ */
+
+import { parseArgs } from 'util';
+import { readFileSync } from 'fs';
+import { CallbackEventData, CallbackHandler, CallbackHandlerEventNames, CallbackHandlerOptions } from './CallbackHandler.js';
+import { LocalOnlyProvider } from './tunnels/LocalOnlyProvider.js';
+import { StaticUrlProvider } from './tunnels/StaticUrlProvider.js';
+import { JsonlFileCallbackStore } from './store/JsonlFileCallbackStore.js';
+import { relayCallback } from './forward/CallbackForwarder.js';
+
+const USAGE = `Usage: mcp-status-callback <command> [options]
+
+Commands:
+  listen                   Print the callback URL and pretty-print each callback
+  forward --to <url>       Relay each callback to a local target, retrying failures
+  replay <journal-file>    Print (or relay with --to) callbacks recorded in a JSONL journal
+
+Options:
+  --auth-token <token>     Ngrok auth token (default: $NGROK_AUTH_TOKEN)
+  --domain <domain>        Ngrok custom domain (default: $NGROK_CUSTOM_DOMAIN)
+  --provider <name>        Tunnel provider: ngrok, local or static (default: ngrok)
+  --public-url <url>       Public base URL for the static provider
+  --port <port>            Local port to listen on, 0 for any free port (default: 4000)
+  --host <host>            Local interface to listen on
+  --methods <list>         Comma-separated HTTP methods to accept (default: GET,POST)
+  --journal <file>         Record received callbacks to a JSONL journal
+  --inspector              Serve a local page listing received callbacks live
+  --admin-port <port>      Port on 127.0.0.1 for the inspector (default: any free port)
+  --cert <file>            Serve HTTPS with this PEM certificate (requires --key)
+  --key <file>             PEM private key for --cert
+  --self-signed            Serve HTTPS with a generated self-signed certificate
+  --client-ca <file>       Require client certificates signed by this PEM CA (mutual TLS)
+  --to <url>               Target URL for forward and replay
+  --since <time>           Replay only callbacks received since this ISO time
+  --route <name>           Replay only callbacks on this route
+  -h, --help               Show this help
+`;
+
+type CliOptions = {
+    'auth-token'?: string;
+    domain?: string;
+    provider?: string;
+    'public-url'?: string;
+    port?: string;
+    host?: string;
+    methods?: string;
+    journal?: string;
+    inspector?: boolean;
+    'admin-port'?: string;
+    cert?: string;
+    key?: string;
+    'self-signed'?: boolean;
+    'client-ca'?: string;
+    to?: string;
+    since?: string;
+    route?: string;
+};
+
+/**
+ * Parses a port number option
+ */
+function parsePort(value: string): number {
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${value}`);
+    }
+    return port;
+}
+
+/**
+ * Maps command line options onto {@link CallbackHandlerOptions}
+ */
+function handlerOptions(options: CliOptions): CallbackHandlerOptions {
+    const handlerOptions: CallbackHandlerOptions = {
+        ngrokAuthToken: options['auth-token'] ?? process.env.NGROK_AUTH_TOKEN,
+        customDomain: options.domain ?? process.env.NGROK_CUSTOM_DOMAIN,
+        host: options.host
+    };
+
+    if (options.port !== undefined) {
+        handlerOptions.port = parsePort(options.port);
+    }
+
+    // Providers such as Twilio can be configured to send status callbacks as GET requests
+    const methods = (options.methods ?? 'GET,POST').split(',').map((method) => method.trim()).filter(Boolean);
+    if (methods.length === 0) {
+        throw new Error(`Invalid methods: ${options.methods}`);
+    }
+    handlerOptions.methods = methods;
+
+    switch (options.provider ?? 'ngrok') {
+        case 'ngrok':
+            break;
+        case 'local':
+            handlerOptions.tunnelProvider = new LocalOnlyProvider();
+            break;
+        case 'static':
+            if (!options['public-url']) {
+                throw new Error('--public-url is required with --provider static');
+            }
+            handlerOptions.tunnelProvider = new StaticUrlProvider({ publicUrl: options['public-url'] });
+            break;
+        default:
+            throw new Error(`Unknown provider: ${options.provider}`);
+    }
+
+    if (options.journal) {
+        handlerOptions.store = new JsonlFileCallbackStore({ path: options.journal });
+    }
+    if (options.inspector) {
+        handlerOptions.inspector = true;
+    }
+    if (options['admin-port'] !== undefined) {
+        handlerOptions.adminPort = parsePort(options['admin-port']);
+    }
+
+    if (options.cert || options.key || options['self-signed'] || options['client-ca']) {
+        if (!options['self-signed'] && !(options.cert && options.key)) {
+            throw new Error('HTTPS requires --cert and --key, or --self-signed');
+        }
+        handlerOptions.https = {
+            cert: options.cert ? readFileSync(options.cert) : undefined,
+            key: options.key ? readFileSync(options.key) : undefined,
+            selfSigned: options['self-signed'],
+            clientCa: options['client-ca'] ? readFileSync(options['client-ca']) : undefined
+        };
+    }
+    return handlerOptions;
+}
+
+/**
+ * Pretty-prints a callback to stdout
+ */
+function printCallback(data: { route: string; callbackId: string | null; queryParameters: any; body: any }, receivedAt = new Date().toISOString()): void {
+    const route = data.callbackId ? `${data.route}/${data.callbackId}` : data.route;
+    console.log(`\n[${receivedAt}] ${route}`);
+    if (data.queryParameters && Object.keys(data.queryParameters).length > 0) {
+        console.log('Query:', JSON.stringify(data.queryParameters, null, 2));
+    }
+    console.log('Body:', JSON.stringify(data.body, null, 2));
+}
+
+/**
+ * Starts a handler and runs `onCallback` for every callback until interrupted
+ */
+async function serve(options: CliOptions, onCallback: (data: CallbackEventData) => void | Promise<void>, extraOptions: Partial<CallbackHandlerOptions> = {}): Promise<void> {
+    const handler = new CallbackHandler({ ...handlerOptions(options), handleSignals: true, ...extraOptions });
+
+    handler.on(CallbackHandlerEventNames.LOG, (data) => {
+        if (data.level === 'warn' || data.level === 'error') {
+            console.error(`[${data.level.toUpperCase()}] ${data.message}`);
+        }
+    });
+    handler.on(CallbackHandlerEventNames.CALLBACK, (data) => {
+        Promise.resolve(onCallback(data)).catch((error) => console.error(`Error handling callback: ${error}`));
+    });
+    handler.on(CallbackHandlerEventNames.FORWARD_SUCCESS, (data) => {
+        console.log(`Forwarded ${data.receiptId} to ${data.target}: ${data.status}`);
+    });
+    handler.on(CallbackHandlerEventNames.FORWARD_FAILED, (data) => {
+        console.error(`Failed to forward ${data.receiptId} to ${data.target} after ${data.attempts} attempt(s): ${data.error.message}`);
+    });
+
+    const url = await handler.start();
+    console.log(`Callback URL: ${url}`);
+    const inspectorUrl = handler.getInspectorUrl();
+    if (inspectorUrl) {
+        console.log(`Inspector: ${inspectorUrl}`);
+    }
+    console.log('Waiting for callbacks... (Press Ctrl+C to stop)');
+}
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'auth-token': { type: 'string' },
+            domain: { type: 'string' },
+            provider: { type: 'string' },
+            'public-url': { type: 'string' },
+            port: { type: 'string' },
+            host: { type: 'string' },
+            methods: { type: 'string' },
+            journal: { type: 'string' },
+            inspector: { type: 'boolean' },
+            'admin-port': { type: 'string' },
+            cert: { type: 'string' },
+            key: { type: 'string' },
+            'self-signed': { type: 'boolean' },
+            'client-ca': { type: 'string' },
+            to: { type: 'string' },
+            since: { type: 'string' },
+            route: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    const [command, ...args] = positionals;
+
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+
+    switch (command) {
+        case 'listen':
+            await serve(values, (data) => printCallback(data));
+            break;
+
+        case 'forward': {
+            const target = values.to;
+            if (!target) {
+                throw new Error('forward requires --to <url>');
+            }
+            await serve(values, (data) => printCallback(data), { forward: [{ url: target }] });
+            break;
+        }
+
+        case 'replay': {
+            const [journal] = args;
+            if (!journal) {
+                throw new Error('replay requires a journal file');
+            }
+            if (values.since !== undefined && Number.isNaN(Date.parse(values.since))) {
+                throw new Error(`Invalid --since time: ${values.since}`);
+            }
+            const store = new JsonlFileCallbackStore({ path: journal });
+            // Suppressed duplicates stay in the journal as an audit trail but are not replayed
+            const records = (await store.query({ since: values.since, route: values.route })).filter((record) => !record.duplicate);
+            for (const record of records) {
+                printCallback(record, record.receivedAt);
+                if (values.to) {
+                    const response = await relayCallback(values.to, record);
+                    console.log(`Replayed to ${values.to}: ${response.status}`);
+                }
+            }
+            console.log(`\n${records.length} callback(s) replayed`);
+            break;
+        }
+
+        default:
+            throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
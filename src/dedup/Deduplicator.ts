@@ -0,0 +1,136 @@
+import { IncomingHttpHeaders } from 'http';
+import { headerValue } from '../verification/WebhookVerifier.js';
+
+/**
+ * The parts of a callback available to a {@link DeduplicationKeyExtractor}.
+ */
+export interface DeduplicationRequest {
+    headers: IncomingHttpHeaders;
+    queryParameters: any;
+    body: any;
+    route: string;
+}
+
+/**
+ * Returns the key identifying a delivery, or undefined if the request cannot be deduplicated.
+ */
+export type DeduplicationKeyExtractor = (request: DeduplicationRequest) => string | undefined;
+
+/**
+ * Interface for the `deduplication` option of {@link CallbackHandlerOptions}.
+ */
+export interface DeduplicationOptions {
+    /** Extracts the idempotency key. Defaults to {@link defaultDeduplicationKey}. */
+    key?: DeduplicationKeyExtractor;
+    /** How long a key is remembered, in milliseconds. Defaults to 600000 (10 minutes). */
+    ttlMs?: number;
+    /** Maximum number of keys remembered. Defaults to 10000. */
+    maxKeys?: number;
+}
+
+/**
+ * Uses the value of a request header as the key
+ *
+ * @param name Header name, e.g. `I-Twilio-Idempotency-Token`
+ */
+export function headerDeduplicationKey(name: string): DeduplicationKeyExtractor {
+    return (request) => headerValue(request.headers, name);
+}
+
+/**
+ * Combines body (or query) fields into the key, e.g. `['CallSid', 'CallStatus']`.
+ * Returns undefined if any of the fields is missing.
+ *
+ * @param fields The fields to combine
+ */
+export function fieldsDeduplicationKey(fields: string[]): DeduplicationKeyExtractor {
+    return (request) => {
+        const values = fields.map((field) => request.body?.[field] ?? request.queryParameters?.[field]);
+        return values.every((value) => value !== undefined) ? values.map(String).join('+') : undefined;
+    };
+}
+
+/**
+ * The default extractor: Twilio's `I-Twilio-Idempotency-Token`, then the Standard Webhooks
+ * `webhook-id` (or `svix-id`) header, then `Idempotency-Key` as sent by {@link CallbackSender}.
+ */
+export const defaultDeduplicationKey: DeduplicationKeyExtractor = (request) =>
+    headerValue(request.headers, 'i-twilio-idempotency-token') ??
+    headerValue(request.headers, 'webhook-id') ??
+    headerValue(request.headers, 'svix-id') ??
+    headerValue(request.headers, 'idempotency-key');
+
+/**
+ * Deduplicator Class
+ *
+ * Remembers the keys of recently delivered callbacks for a limited time so that provider
+ * retries of the same delivery can be suppressed.
+ */
+export class Deduplicator {
+    private extractKey: DeduplicationKeyExtractor;
+    private ttlMs: number;
+    private maxKeys: number;
+    // Insertion ordered, so the oldest keys are always first
+    private seen: Map<string, number> = new Map();
+
+    /**
+     * Creates a new Deduplicator instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: DeduplicationOptions = {}) {
+        this.extractKey = options.key ?? defaultDeduplicationKey;
+        this.ttlMs = options.ttlMs ?? 600000;
+        this.maxKeys = options.maxKeys ?? 10000;
+    }
+
+    /**
+     * Checks a request against recently seen keys and remembers its key
+     *
+     * @param request The callback to check
+     * @returns The key if the request is a duplicate, otherwise undefined
+     */
+    check(request: DeduplicationRequest): string | undefined {
+        const key = this.extractKey(request);
+        if (key === undefined) {
+            return undefined;
+        }
+
+        const now = Date.now();
+        this.prune(now);
+
+        const scopedKey = `${request.route}:${key}`;
+        if (this.seen.has(scopedKey)) {
+            return key;
+        }
+
+        this.seen.set(scopedKey, now + this.ttlMs);
+        if (this.seen.size > this.maxKeys) {
+            this.seen.delete(this.seen.keys().next().value as string);
+        }
+        return undefined;
+    }
+
+    /**
+     * Forgets the key of a request, so that a retry of it is handled again. Used when the
+     * first delivery was not answered with success.
+     *
+     * @param request The callback whose key to forget
+     */
+    forget(request: DeduplicationRequest): void {
+        const key = this.extractKey(request);
+        if (key !== undefined) {
+            this.seen.delete(`${request.route}:${key}`);
+        }
+    }
+
+    /**
+     * Drops expired keys
+     */
+    private prune(now: number): void {
+        for (const [key, expiresAt] of this.seen) {
+            if (expiresAt > now) break;
+            this.seen.delete(key);
+        }
+    }
+}
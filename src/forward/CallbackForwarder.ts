@@ -0,0 +1,397 @@
+import { EventEmitter } from 'events';
+import { IncomingHttpHeaders } from 'http';
+import { CallbackEventData } from '../CallbackHandler.js';
+
+/**
+ * Retry behaviour for a {@link ForwardTarget}.
+ */
+export interface ForwardRetryOptions {
+    /** Total attempts including the first. Defaults to 3. */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds. Defaults to 500. */
+    initialDelayMs?: number;
+    /** Upper bound for the delay between attempts in milliseconds. Defaults to 10000. */
+    maxDelayMs?: number;
+    /** Multiplier applied to the delay after each failed attempt. Defaults to 2. */
+    factor?: number;
+}
+
+/**
+ * A downstream URL that receives a copy of each callback.
+ */
+export interface ForwardTarget {
+    /** The URL to relay to. The callback's query string is appended as received. */
+    url: string;
+    /** Name reported in events and dead letters. Defaults to the URL. */
+    name?: string;
+    /** Only forward callbacks on these routes (`default` is the plain /callback endpoint) */
+    routes?: string[];
+    /** Only forward callbacks for which this returns true */
+    filter?: (data: CallbackEventData) => boolean;
+    /**
+     * Extra headers to send, replacing any received header of the same name. Received
+     * `Authorization` and `Cookie` headers are never relayed, so set them here if the target needs them.
+     */
+    headers?: Record<string, string>;
+    /** Timeout for each attempt in milliseconds. Defaults to 10000. */
+    timeoutMs?: number;
+    /** Retry behaviour, or false to try only once */
+    retry?: ForwardRetryOptions | false;
+}
+
+/**
+ * Interface for the `forward` option of {@link CallbackHandlerOptions}.
+ */
+export interface ForwardOptions {
+    targets: ForwardTarget[];
+    /** Maximum number of dead letters kept, oldest dropped first. Defaults to 100. */
+    deadLetterLimit?: number;
+}
+
+/**
+ * A callback that could not be forwarded to a target after all attempts.
+ */
+export interface ForwardDeadLetter {
+    /** Name of the target */
+    target: string;
+    url: string;
+    data: CallbackEventData;
+    /** The last failure */
+    error: Error;
+    /** HTTP status of the last attempt, or null if there was no response */
+    status: number | null;
+    attempts: number;
+    /** When the last attempt failed, as an ISO 8601 string */
+    failedAt: string;
+}
+
+/**
+ * Outcome of forwarding one callback to one target, as emitted by {@link CallbackForwarder}.
+ */
+export interface ForwardResult {
+    target: string;
+    url: string;
+    data: CallbackEventData;
+    /** HTTP status of the last attempt, or null if there was no response */
+    status: number | null;
+    attempts: number;
+    durationMs: number;
+    /** Set when forwarding failed */
+    error?: Error;
+}
+
+/**
+ * The parts of a callback needed to relay it. Stored callbacks keep the raw body base64 encoded.
+ */
+export interface RelayableCallback {
+    method?: string;
+    /** Path and query string as received. Its query string is relayed as is, rather than rebuilt from `queryParameters`. */
+    url?: string;
+    headers: IncomingHttpHeaders;
+    queryParameters: any;
+    body: any;
+    rawBody?: Buffer | string;
+}
+
+// Headers that describe a single connection and must not be relayed
+const HOP_BY_HOP_HEADERS = new Set([
+    'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer',
+    'transfer-encoding', 'upgrade', 'host', 'content-length',
+    // The raw body is captured after express has decompressed it, so the original encoding no longer applies
+    'content-encoding'
+]);
+
+// Credentials meant for this endpoint, e.g. its basic auth, which must not leak to targets
+const CREDENTIAL_HEADERS = new Set(['authorization', 'cookie']);
+
+/**
+ * Sends a callback on to another URL, preserving its method, headers (minus hop-by-hop ones,
+ * `Content-Encoding` and credentials), query and body. The body is sent uncompressed. The
+ * original query string and bytes are sent when available, otherwise the parsed query and body
+ * are re-encoded.
+ *
+ * @param target The URL to send to
+ * @param data The callback to send
+ * @param options Extra headers, a timeout in milliseconds and a signal to abort the request
+ * @returns The response from the target
+ */
+export async function relayCallback(
+    target: string,
+    data: RelayableCallback,
+    options: { headers?: Record<string, string>; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<Response> {
+    const url = new URL(target);
+    if (data.url !== undefined) {
+        // Keep the exact bytes, since a signature may cover them
+        const search = new URL(data.url, 'http://localhost').search.slice(1);
+        if (search) {
+            url.search = url.search ? `${url.search}&${search}` : search;
+        }
+    } else {
+        for (const [key, value] of Object.entries(data.queryParameters ?? {})) {
+            url.searchParams.append(key, String(value));
+        }
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(data.headers ?? {})) {
+        const name = key.toLowerCase();
+        if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name) && !CREDENTIAL_HEADERS.has(name)) {
+            headers[key] = Array.isArray(value) ? value.join(', ') : value;
+        }
+    }
+    for (const [key, value] of Object.entries(options.headers ?? {})) {
+        headers[key.toLowerCase()] = value;
+    }
+
+    const method = data.method ?? 'POST';
+    let body: Buffer | string | undefined;
+    if (method !== 'GET' && method !== 'HEAD') {
+        const rawBody = typeof data.rawBody === 'string' ? Buffer.from(data.rawBody, 'base64') : data.rawBody;
+        const contentType = headers['content-type'] ?? '';
+        body = rawBody && rawBody.length > 0
+            ? rawBody
+            : contentType.includes('application/x-www-form-urlencoded')
+                ? new URLSearchParams(data.body).toString()
+                : JSON.stringify(data.body ?? {});
+    }
+
+    return fetch(url, {
+        method,
+        headers,
+        body,
+        signal: anySignal([options.signal, options.timeoutMs !== undefined ? AbortSignal.timeout(options.timeoutMs) : undefined])
+    });
+}
+
+/**
+ * Combines signals into one that aborts with the first of them, like AbortSignal.any on newer Node versions
+ */
+function anySignal(candidates: (AbortSignal | undefined)[]): AbortSignal | undefined {
+    const signals = candidates.filter((signal): signal is AbortSignal => signal !== undefined);
+    if (signals.length <= 1) return signals[0];
+
+    const controller = new AbortController();
+    for (const signal of signals) {
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+            break;
+        }
+        signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+    }
+    return controller.signal;
+}
+
+/**
+ * Error for a target that answered with a non-2xx status
+ */
+class ForwardStatusError extends Error {
+    readonly status: number;
+
+    constructor(status: number) {
+        super(`Target responded with ${status}`);
+        this.name = 'ForwardStatusError';
+        this.status = status;
+    }
+}
+
+/**
+ * CallbackForwarder Class
+ *
+ * Relays callbacks to downstream HTTP targets in the background. Each target is retried with
+ * exponential backoff on network errors, timeouts, 429 and 5xx replies; other 4xx replies fail
+ * at once. Emits 'success' and 'failure' with a {@link ForwardResult}, and keeps failed
+ * deliveries in a bounded dead-letter list.
+ *
+ * @extends EventEmitter
+ */
+export class CallbackForwarder extends EventEmitter {
+    private targets: ForwardTarget[];
+    private deadLetterLimit: number;
+    private deadLetters: ForwardDeadLetter[] = [];
+    private pendingRetries: Set<() => void> = new Set();
+    private deliveries: Set<Promise<void>> = new Set();
+    private abortController = new AbortController();
+    private closed = false;
+
+    /**
+     * Creates a new CallbackForwarder instance
+     *
+     * @param options The targets, or the full forwarding options
+     */
+    constructor(options: ForwardOptions | ForwardTarget[]) {
+        super();
+        const forwardOptions = Array.isArray(options) ? { targets: options } : options;
+        this.targets = forwardOptions.targets;
+        this.deadLetterLimit = forwardOptions.deadLetterLimit ?? 100;
+    }
+
+    /**
+     * Starts forwarding a callback to every target whose filters match. Does not wait for delivery.
+     *
+     * @param data The received callback
+     */
+    forward(data: CallbackEventData): void {
+        for (const target of this.targets) {
+            if (target.routes && !target.routes.includes(data.route)) continue;
+            try {
+                if (target.filter && !target.filter(data)) continue;
+            } catch (error) {
+                this.fail(target, data, error instanceof Error ? error : new Error(String(error)), null, 0, 0);
+                continue;
+            }
+            this.track(this.deliver(target, data));
+        }
+    }
+
+    /**
+     * The number of deliveries that have not finished, including those waiting for a retry
+     */
+    get pending(): number {
+        return this.deliveries.size;
+    }
+
+    /**
+     * Waits until every delivery has finished, including any started meanwhile
+     */
+    async drain(): Promise<void> {
+        while (this.deliveries.size > 0) {
+            await Promise.allSettled([...this.deliveries]);
+        }
+    }
+
+    /**
+     * Returns the callbacks that could not be forwarded, oldest first
+     */
+    getDeadLetters(): ForwardDeadLetter[] {
+        return [...this.deadLetters];
+    }
+
+    /**
+     * Forwards the dead letters again, removing them from the list. Those that fail again are re-added.
+     *
+     * @returns The number of dead letters retried
+     */
+    retryDeadLetters(): number {
+        const letters = this.deadLetters.splice(0);
+        for (const letter of letters) {
+            const target = this.targets.find((candidate) => (candidate.name ?? candidate.url) === letter.target);
+            if (target) {
+                this.track(this.deliver(target, letter.data));
+            }
+        }
+        return letters.length;
+    }
+
+    /**
+     * Allows retries again after {@link close}, e.g. when the handler is restarted
+     */
+    open(): void {
+        if (this.closed) {
+            this.abortController = new AbortController();
+        }
+        this.closed = false;
+    }
+
+    /**
+     * Cancels pending retries and aborts requests in progress. Deliveries that are cancelled end
+     * up in the dead-letter list.
+     */
+    close(): void {
+        this.closed = true;
+        this.abortController.abort();
+        for (const cancel of [...this.pendingRetries]) {
+            cancel();
+        }
+    }
+
+    /**
+     * Remembers a delivery until it finishes, so that {@link drain} can wait for it
+     */
+    private track(delivery: Promise<void>): void {
+        const settled = delivery.catch(() => undefined).then(() => {
+            this.deliveries.delete(settled);
+        });
+        this.deliveries.add(settled);
+    }
+
+    private async deliver(target: ForwardTarget, data: CallbackEventData): Promise<void> {
+        const retry = target.retry === false ? { maxAttempts: 1 } : (target.retry ?? {});
+        const maxAttempts = Math.max(1, retry.maxAttempts ?? 3);
+        const started = Date.now();
+        let lastError: Error = new Error('Not attempted');
+        let lastStatus: number | null = null;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            if (attempt > 1) {
+                const delay = Math.min(
+                    (retry.initialDelayMs ?? 500) * Math.pow(retry.factor ?? 2, attempt - 2),
+                    retry.maxDelayMs ?? 10000
+                );
+                if (!(await this.wait(delay))) {
+                    this.fail(target, data, new Error('Forwarding stopped'), lastStatus, attempt - 1, Date.now() - started);
+                    return;
+                }
+            }
+
+            try {
+                const response = await relayCallback(target.url, data, {
+                    headers: target.headers,
+                    timeoutMs: target.timeoutMs ?? 10000,
+                    signal: this.abortController.signal
+                });
+                lastStatus = response.status;
+                await response.arrayBuffer().catch(() => undefined);
+                if (response.ok) {
+                    const result: ForwardResult = { target: target.name ?? target.url, url: target.url, data, status: response.status, attempts: attempt, durationMs: Date.now() - started };
+                    this.emit('success', result);
+                    return;
+                }
+                lastError = new ForwardStatusError(response.status);
+                // Other client errors will not succeed on a retry
+                if (response.status < 500 && response.status !== 429) {
+                    this.fail(target, data, lastError, lastStatus, attempt, Date.now() - started);
+                    return;
+                }
+            } catch (error) {
+                if (this.closed) {
+                    this.fail(target, data, new Error('Forwarding stopped'), null, attempt, Date.now() - started);
+                    return;
+                }
+                lastError = error instanceof Error ? error : new Error(String(error));
+                lastStatus = null;
+            }
+        }
+
+        this.fail(target, data, lastError, lastStatus, maxAttempts, Date.now() - started);
+    }
+
+    private fail(target: ForwardTarget, data: CallbackEventData, error: Error, status: number | null, attempts: number, durationMs: number): void {
+        const name = target.name ?? target.url;
+        this.deadLetters.push({ target: name, url: target.url, data, error, status, attempts, failedAt: new Date().toISOString() });
+        if (this.deadLetters.length > this.deadLetterLimit) {
+            this.deadLetters.splice(0, this.deadLetters.length - this.deadLetterLimit);
+        }
+        const result: ForwardResult = { target: name, url: target.url, data, status, attempts, durationMs, error };
+        this.emit('failure', result);
+    }
+
+    /**
+     * Waits for `ms`, resolving false early if the forwarder is closed
+     */
+    private wait(ms: number): Promise<boolean> {
+        if (this.closed) return Promise.resolve(false);
+        return new Promise((resolve) => {
+            const cancel = () => {
+                clearTimeout(timer);
+                this.pendingRetries.delete(cancel);
+                resolve(false);
+            };
+            const timer = setTimeout(() => {
+                this.pendingRetries.delete(cancel);
+                resolve(true);
+            }, ms);
+            this.pendingRetries.add(cancel);
+        });
+    }
+}
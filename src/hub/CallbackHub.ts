@@ -0,0 +1,454 @@
+import express from 'express';
+import { EventEmitter } from 'events';
+import { Server, createServer } from 'http';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import { TunnelProvider } from '../tunnels/TunnelProvider.js';
+import { NgrokTunnelProvider } from '../tunnels/NgrokTunnelProvider.js';
+import { TunnelReconnectOptions, TunnelState, TunnelStateChange, TunnelSupervisor, TunnelUrlChange } from '../tunnels/TunnelSupervisor.js';
+import { PortUnavailableError } from '../CallbackErrors.js';
+import { LogCodes, LogFields, LogLevel, Logger } from '../logging/Logger.js';
+import { HttpsOptions, createHttpsServerOptions } from '../tls/HttpsOptions.js';
+import { CallbackHandler, CallbackHandlerOptions, LogEventData, TunnelStatusEventData, UrlChangedEventData } from '../CallbackHandler.js';
+
+/**
+ * Defines constants for the event names emitted by CallbackHub.
+ */
+export const CallbackHubEventNames = {
+    /** Emitted for general log messages about the shared server and tunnel */
+    LOG: 'log',
+    /** Emitted on every tunnel state transition. URLs are the tunnel's base URL. */
+    TUNNEL_STATUS: 'tunnelStatus',
+    /** Emitted when a reconnect yields a different public base URL */
+    URL_CHANGED: 'urlChanged',
+} as const;
+
+/**
+ * Defines the signatures for the events emitted by CallbackHub.
+ */
+export interface CallbackHubEvents {
+    [CallbackHubEventNames.LOG]: (data: LogEventData) => void;
+    [CallbackHubEventNames.TUNNEL_STATUS]: (data: TunnelStatusEventData) => void;
+    [CallbackHubEventNames.URL_CHANGED]: (data: UrlChangedEventData) => void;
+}
+
+/**
+ * Interface for {@link CallbackHub} constructor options. These are the server and tunnel
+ * options of {@link CallbackHandlerOptions}, shared by every handler on the hub.
+ */
+export interface CallbackHubOptions {
+    /** Ngrok auth token. Required unless a `tunnelProvider` is supplied. */
+    ngrokAuthToken?: string;
+    /** Custom ngrok domain. Ignored when a `tunnelProvider` is supplied. */
+    customDomain?: string;
+    /** Tunnel implementation to use. Defaults to an {@link NgrokTunnelProvider}. */
+    tunnelProvider?: TunnelProvider;
+    /** Local port to listen on. Defaults to 4000, trying the following ports if it is in use. */
+    port?: number;
+    /** Local interface to listen on. Defaults to all interfaces. */
+    host?: string;
+    /** How many consecutive ports to try, starting at `port`. Defaults to 100. */
+    maxPortAttempts?: number;
+    /** Inclusive range of ports to try. Takes precedence over `port` and `maxPortAttempts`. */
+    portRange?: [number, number];
+    /** An existing Express application to mount the handlers on, instead of creating a new one */
+    app?: express.Application;
+    /** An existing HTTP or HTTPS server to tunnel to, see {@link CallbackHandlerOptions.server} */
+    server?: Server | https.Server;
+    /** Serve HTTPS instead of HTTP, see {@link CallbackHandlerOptions.https}. Not used with `server`. */
+    https?: HttpsOptions;
+    /** How the tunnel is reconnected when it fails. Pass `false` to disable reconnecting. */
+    reconnect?: TunnelReconnectOptions | false;
+    /**
+     * Middleware run before every request on the hub's own app, e.g. for access logging.
+     * Not used with `app` or `server`.
+     */
+    requestHandler?: express.RequestHandler;
+    /** Receives the hub's log messages in addition to the 'log' event */
+    logger?: Logger;
+    /** Whether the hub's own app answers `GET /` with the callback endpoints. Defaults to true. */
+    healthCheck?: boolean;
+}
+
+/**
+ * Options for {@link CallbackHub.createHandler}: everything a {@link CallbackHandler} accepts
+ * except the server and tunnel settings, which come from the hub.
+ */
+export type ScopedCallbackHandlerOptions<TBody = any> = Omit<
+    CallbackHandlerOptions<TBody>,
+    'ngrokAuthToken' | 'customDomain' | 'tunnelProvider' | 'port' | 'host' | 'maxPortAttempts'
+    | 'portRange' | 'app' | 'server' | 'https' | 'mountPath' | 'reconnect' | 'hub' | 'healthCheck'
+>;
+
+/**
+ * CallbackHub Class
+ *
+ * Owns one HTTP server and one tunnel and shares them between several {@link CallbackHandler}s,
+ * each mounted under its own path prefix with its own events, verification, schema and routes.
+ * Starting any handler starts the hub; stopping a handler leaves the hub and the other handlers
+ * running. {@link stop} stops every handler, including those never started, which answer
+ * callbacks as soon as the hub listens, and then the tunnel and server.
+ *
+ * A `CallbackHandler` created on its own runs on a private hub, so a single handler needs no hub.
+ *
+ * @example
+ * const hub = new CallbackHub({ ngrokAuthToken: 'token' });
+ * const twilio = hub.createHandler('twilio', { signatureValidation: { authToken } });
+ * const stripe = hub.createHandler('stripe', { verifiers: [new StripeSignatureVerifier({ secret })] });
+ * await Promise.all([twilio.start(), stripe.start()]);
+ * twilio.getCallbackUrl(); // https://example.ngrok.app/twilio/callback
+ *
+ * @extends EventEmitter
+ */
+export class CallbackHub extends EventEmitter {
+    private app: express.Application;
+    private server: Server | https.Server | null = null;
+    private externalServer?: Server | https.Server;
+    private httpsServerOptions?: https.ServerOptions;
+    private ownsListener = false;
+    private host?: string;
+    private firstPort: number;
+    private lastPort: number;
+    private tunnelProvider: TunnelProvider;
+    private tunnelSupervisor: TunnelSupervisor;
+    private customDomain?: string;
+    private logger?: Logger;
+    private starting: Promise<number> | null = null;
+    private handlers: Map<string, CallbackHandler<any>> = new Map();
+
+    /**
+     * Creates a new CallbackHub instance
+     *
+     * @param options Configuration options
+     * @throws If `https.clientCa` is combined with ngrok, whose agent cannot present a client certificate
+     */
+    constructor(options: CallbackHubOptions) {
+        super();
+        this.customDomain = options.tunnelProvider ? undefined : options.customDomain;
+        this.tunnelProvider = options.tunnelProvider ?? new NgrokTunnelProvider({
+            ngrokAuthToken: options.ngrokAuthToken ?? '',
+            customDomain: options.customDomain
+        });
+        if (options.https?.clientCa !== undefined && this.tunnelProvider instanceof NgrokTunnelProvider) {
+            throw new Error('`https.clientCa` cannot be used with ngrok: the ngrok agent does not present a client certificate, so every tunnelled callback would be refused');
+        }
+        this.tunnelSupervisor = new TunnelSupervisor(this.tunnelProvider, options.reconnect);
+        this.tunnelSupervisor.on('stateChange', (change: TunnelStateChange) => this.handleTunnelStateChange(change));
+        this.tunnelSupervisor.on('urlChanged', (change: TunnelUrlChange) => {
+            this.emit(CallbackHubEventNames.URL_CHANGED, { level: 'info', previousUrl: change.previousUrl, url: change.url });
+        });
+        this.host = options.host;
+        this.logger = options.logger;
+        if (options.portRange) {
+            [this.firstPort, this.lastPort] = options.portRange;
+        } else {
+            this.firstPort = options.port ?? 4000;
+            this.lastPort = this.firstPort === 0 ? 0 : this.firstPort + (options.maxPortAttempts ?? 100) - 1;
+        }
+
+        this.externalServer = options.server;
+        if (options.https && !options.server) {
+            this.httpsServerOptions = createHttpsServerOptions(options.https);
+        }
+        if (options.app) {
+            this.app = options.app;
+        } else {
+            this.app = express();
+
+            // The tunnel agent connects from this machine, so trust its X-Forwarded-For for the sender's address
+            this.app.set('trust proxy', 'loopback');
+            if (options.requestHandler && !options.server) {
+                this.app.use(options.requestHandler);
+            }
+
+            // Add health check route
+            if (options.healthCheck ?? true) {
+                this.app.get('/', (_, res) => {
+                    const endpoints = [...this.handlers.keys()].map((mountPath) => `${mountPath}/callback`);
+                    res.send(`POST status callbacks to ${endpoints.join(', ')}`);
+                });
+            }
+        }
+    }
+
+    /**
+     * Creates a handler that serves its callbacks under `/<prefix>` on this hub's server and tunnel
+     *
+     * @param prefix Path prefix, made of letters, digits, `-` and `_`
+     * @param options Handler options such as verification, schema and responses
+     * @returns The new handler. Its URLs are available once the hub has started.
+     * @throws If the prefix is invalid or already in use
+     */
+    createHandler<TBody = any>(prefix: string, options: ScopedCallbackHandlerOptions<TBody> = {}): CallbackHandler<TBody> {
+        if (!/^[A-Za-z0-9_-]+$/.test(prefix)) {
+            throw new Error(`Invalid handler prefix '${prefix}': use letters, digits, '-' and '_' only`);
+        }
+        return new CallbackHandler<TBody>({ ...options, hub: this, mountPath: `/${prefix}` });
+    }
+
+    /**
+     * Mounts a handler's router at its mount path. Called by {@link CallbackHandler}.
+     *
+     * @internal
+     */
+    attach(handler: CallbackHandler<any>, mountPath: string, router: express.Router): void {
+        if (this.handlers.has(mountPath)) {
+            throw new Error(`A handler is already mounted at '${mountPath || '/'}'`);
+        }
+        this.handlers.set(mountPath, handler);
+        this.app.use(mountPath || '/', router);
+    }
+
+    /**
+     * Returns the handlers on this hub
+     */
+    getHandlers(): CallbackHandler<any>[] {
+        return [...this.handlers.values()];
+    }
+
+    /**
+     * Starts the server and the tunnel. Calling it again while starting or running returns the
+     * same result, so every handler can call it.
+     *
+     * @returns Promise that resolves to the public base URL
+     */
+    async start(): Promise<string> {
+        if (!this.starting) {
+            this.starting = this.startListening().catch((error) => {
+                this.starting = null;
+                throw error;
+            });
+        }
+        await this.starting;
+        return this.getPublicUrl() as string;
+    }
+
+    private async startListening(): Promise<number> {
+        const port = await this.listen();
+        this.log('info', `Callback server listening on port ${port}`, { code: LogCodes.SERVER_LISTENING, port });
+
+        try {
+            await this.tunnelSupervisor.start(port, (status: string) => {
+                // Status will contain error information if there's a problem
+                if (status.includes('error') || status.includes('disconnected')) {
+                    this.log('error', `Tunnel status changed: ${status}`, { code: LogCodes.TUNNEL_STATUS });
+                }
+            }, { protocol: this.getProtocol() });
+
+            if (this.customDomain) {
+                this.log('info', `Using custom domain: ${this.customDomain}`, { code: LogCodes.TUNNEL_CUSTOM_DOMAIN, url: this.getPublicUrl() ?? undefined });
+            }
+        } catch (error) {
+            this.log('error', `Failed to establish tunnel: ${error}`, { code: LogCodes.TUNNEL_FAILED, port, error: error as Error });
+
+            // Don't leave the port bound when there is no tunnel to it
+            await this.closeServer();
+            throw error;
+        }
+        return port;
+    }
+
+    /**
+     * Starts listening, trying each port in the configured range until one is free.
+     * An external server that is already listening is used as is.
+     *
+     * @returns The bound local port
+     */
+    private async listen(): Promise<number> {
+        const server = this.externalServer ?? (this.httpsServerOptions
+            ? https.createServer(this.httpsServerOptions, this.app)
+            : createServer(this.app));
+        if (server.listening) {
+            this.server = server;
+            this.ownsListener = false;
+            return (server.address() as AddressInfo).port;
+        }
+
+        for (let portToTry = this.firstPort; portToTry <= this.lastPort; portToTry++) {
+            try {
+                await new Promise<void>((resolve, reject) => {
+                    const onError = (error: Error) => {
+                        server.removeListener('listening', onListening);
+                        reject(error);
+                    };
+                    const onListening = () => {
+                        server.removeListener('error', onError);
+                        resolve();
+                    };
+                    server.once('error', onError);
+                    server.once('listening', onListening);
+                    server.listen(portToTry, this.host);
+                });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'EADDRINUSE' && portToTry < this.lastPort) {
+                    this.log('warn', `Port ${portToTry} in use, trying port ${portToTry + 1}`, { code: LogCodes.PORT_IN_USE, port: portToTry });
+                    continue;
+                }
+                if ((error as NodeJS.ErrnoException).code === 'EADDRINUSE') {
+                    const exhausted = new PortUnavailableError(this.firstPort, this.lastPort);
+                    this.log('error', exhausted, { code: LogCodes.PORT_UNAVAILABLE, port: portToTry });
+                    throw exhausted;
+                }
+                this.log('error', `Start server Error: ${error}`, { code: LogCodes.SERVER_ERROR, port: portToTry, error: error as Error });
+                throw error;
+            }
+
+            this.server = server; // Store the successful server instance
+            this.ownsListener = true;
+            return (server.address() as AddressInfo).port;
+        }
+
+        throw new PortUnavailableError(this.firstPort, this.lastPort);
+    }
+
+    /**
+     * Translates tunnel supervisor transitions into 'tunnelStatus' events
+     */
+    private handleTunnelStateChange(change: TunnelStateChange): void {
+        const failed = change.state === 'offline' && change.error !== undefined;
+
+        let message: string | Error;
+        if (failed) {
+            message = change.error as Error;
+        } else if (change.state === 'online' && change.url) {
+            message = change.url;
+        } else if (change.state === 'reconnecting') {
+            message = `Tunnel reconnecting (attempt ${change.attempt}): ${change.error?.message ?? 'unknown error'}`;
+        } else {
+            message = `Tunnel ${change.state}`;
+        }
+
+        const data: TunnelStatusEventData = { level: failed ? 'error' : 'info', message, state: change.state, url: change.url, attempt: change.attempt };
+        if (change.error) data.error = change.error;
+        this.emit(CallbackHubEventNames.TUNNEL_STATUS, data);
+
+        if (change.state === 'reconnecting') {
+            this.log('warn', message as string, { code: LogCodes.TUNNEL_RECONNECTING, attempt: change.attempt, error: change.error });
+        }
+    }
+
+    /**
+     * Returns the current state of the tunnel
+     */
+    getTunnelState(): TunnelState {
+        return this.tunnelSupervisor.state;
+    }
+
+    /**
+     * Returns the tunnel provider used by this hub
+     */
+    getTunnelProvider(): TunnelProvider {
+        return this.tunnelProvider;
+    }
+
+    /**
+     * Returns the Express application the handlers are mounted on
+     */
+    getApp(): express.Application {
+        return this.app;
+    }
+
+    /**
+     * Returns the local port the server is bound to
+     *
+     * @returns The bound port or null if not listening
+     */
+    getLocalPort(): number | null {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address.port : null;
+    }
+
+    /**
+     * Returns the public tunnel URL if available
+     *
+     * @returns The public tunnel URL or null if not available
+     */
+    getPublicUrl(): string | null {
+        return this.tunnelProvider.url();
+    }
+
+    /**
+     * Returns whether the local server speaks plain HTTP or HTTPS
+     */
+    getProtocol(): 'http' | 'https' {
+        const server = this.server ?? this.externalServer;
+        return this.httpsServerOptions || server instanceof https.Server ? 'https' : 'http';
+    }
+
+    /**
+     * Returns the URL of the local server on the loopback interface, without any path
+     *
+     * @returns The local URL or null if not listening
+     */
+    getLocalUrl(): string | null {
+        const port = this.getLocalPort();
+        return port !== null ? `${this.getProtocol()}://127.0.0.1:${port}` : null;
+    }
+
+    /**
+     * Stops every handler gracefully, then closes the tunnel and the server (if the hub started
+     * it). Handlers that were never started are stopped too, since the hub was serving their
+     * endpoints. The hub can be started again afterwards.
+     */
+    async stop(): Promise<void> {
+        // Handlers already stopping are the ones that asked us to stop
+        await Promise.all(this.getHandlers()
+            .filter((handler) => handler.state !== 'stopping' && handler.state !== 'stopped')
+            .map((handler) => handler.stop()));
+
+        const starting = this.starting;
+        this.starting = null;
+        await starting?.catch(() => undefined);
+
+        try {
+            const wasConnected = this.tunnelSupervisor.state !== 'offline';
+            await this.tunnelSupervisor.stop();
+            if (wasConnected) {
+                this.log('info', 'Tunnel closed', { code: LogCodes.TUNNEL_CLOSED });
+            }
+        } catch (error) {
+            this.log('error', `Error during tunnel cleanup: ${error}`, { code: LogCodes.TUNNEL_CLEANUP_FAILED, error: error as Error });
+        }
+
+        await this.closeServer();
+    }
+
+    /**
+     * Closes the server if this hub started it, waiting for it to close
+     */
+    private async closeServer(): Promise<void> {
+        const server = this.server;
+        const port = this.getLocalPort() ?? undefined;
+        this.server = null;
+        if (!server || !this.ownsListener) return;
+
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            // Keep-alive connections would otherwise hold the server open
+            server.closeAllConnections?.();
+        });
+        this.log('info', 'Callback server stopped', { code: LogCodes.SERVER_STOPPED, port });
+    }
+
+    /**
+     * Emits a 'log' event and passes the message to the configured logger
+     */
+    private log(level: LogLevel, message: string | Error, fields: LogFields = {}): void {
+        this.emit(CallbackHubEventNames.LOG, { level, message, ...fields });
+        this.logger?.[level](String(message), message instanceof Error ? { error: message, ...fields } : fields);
+    }
+
+    // --- Type-safe EventEmitter Overrides ---
+
+    on<E extends keyof CallbackHubEvents>(event: E, listener: CallbackHubEvents[E]): this {
+        return super.on(event, listener as any);
+    }
+
+    once<E extends keyof CallbackHubEvents>(event: E, listener: CallbackHubEvents[E]): this {
+        return super.once(event, listener as any);
+    }
+
+    emit<E extends keyof CallbackHubEvents>(event: E, ...args: Parameters<CallbackHubEvents[E]>): boolean {
+        return super.emit(event, ...args);
+    }
+}
@@ -7,12 +7,231 @@
 export {
     CallbackHandler,
     CallbackHandlerOptions,
+    WaitForCallbackOptions,
     LogEventData,
     CallbackEventData,
     TunnelStatusEventData,
+    UrlChangedEventData,
+    RejectedEventData,
+    VerificationFailedEventData,
+    DuplicateEventData,
+    ValidationErrorEventData,
+    RequestEventData,
+    ForwardSuccessEventData,
+    ForwardFailedEventData,
+    StateChangeEventData,
+    AccessDeniedEventData,
+    MetricsOptions,
+    CallbackHandlerState,
+    StopOptions,
     CallbackHandlerEvents,
-    CallbackHandlerEventNames // Export the new constants
+    CallbackHandlerEventNames, // Export the new constants
+    DEFAULT_ROUTE
 } from './CallbackHandler.js';
 
+export {
+    CallbackHub,
+    CallbackHubOptions,
+    CallbackHubEvents,
+    CallbackHubEventNames,
+    ScopedCallbackHandlerOptions
+} from './hub/CallbackHub.js';
+
+export {
+    CallbackRoute,
+    CallbackRouteEvents,
+    CallbackRouteEventNames,
+    CreateCallbackOptions
+} from './routes/CallbackRoute.js';
+
+export {
+    CallbackResponse,
+    CallbackResponder,
+    DEFAULT_CALLBACK_RESPONSE,
+    emptyTwiml,
+    jsonAck
+} from './responses/CallbackResponse.js';
+export {
+    CallbackSchema,
+    CallbackSchemaResult,
+    CallbackSchemaError,
+    SchemaField,
+    fieldsSchema
+} from './schemas/CallbackSchema.js';
+export {
+    TwilioCallStatus,
+    TwilioMessageStatus,
+    TwilioRecordingStatus,
+    TwilioCallStatusCallback,
+    TwilioMessageStatusCallback,
+    TwilioRecordingStatusCallback,
+    TWILIO_CALL_STATUSES,
+    TWILIO_MESSAGE_STATUSES,
+    TWILIO_RECORDING_STATUSES,
+    twilioCallStatusSchema,
+    twilioMessageStatusSchema,
+    twilioRecordingStatusSchema
+} from './schemas/TwilioCallbacks.js';
+export { parseXml, XmlParseError } from './parsers/XmlParser.js';
+export {
+    MultipartBody,
+    MultipartFile,
+    MultipartOptions,
+    MultipartLimitError,
+    multipartBoundary,
+    parseMultipart
+} from './parsers/MultipartParser.js';
+export { CloudEvent, decodeCloudEvent, isStructuredCloudEvent } from './parsers/CloudEvents.js';
+export {
+    CallbackForwarder,
+    ForwardOptions,
+    ForwardTarget,
+    ForwardRetryOptions,
+    ForwardDeadLetter,
+    ForwardResult,
+    RelayableCallback,
+    relayCallback
+} from './forward/CallbackForwarder.js';
+export {
+    StatusTracker,
+    StatusTrackerOptions,
+    StatusTrackerEvents,
+    StatusTrackerEventNames,
+    StatusChangedEventData,
+    TerminalEventData,
+    StatusUpdate,
+    TrackedResource,
+    TrackedResourceKind
+} from './tracking/StatusTracker.js';
+export {
+    Logger,
+    LogLevel,
+    LogFields,
+    LogCode,
+    LogCodes,
+    ConsoleLoggerOptions,
+    PinoLike,
+    consoleLogger,
+    pinoLogger
+} from './logging/Logger.js';
+export {
+    MetricsRegistry,
+    Counter,
+    Histogram,
+    MetricLabels,
+    MetricOptions,
+    CallbackMetrics,
+    registerCallbackMetrics,
+    PROMETHEUS_CONTENT_TYPE,
+    DEFAULT_HISTOGRAM_BUCKETS,
+    DEFAULT_MAX_SERIES,
+    OVERFLOW_LABEL_VALUE
+} from './metrics/MetricsRegistry.js';
+export {
+    AccessDeniedReason,
+    BasicAuthCredentials,
+    RateLimitOptions,
+    RateLimiter,
+    checkBasicAuth,
+    createIpAllowlist,
+    isLocalRequest,
+    isLocalHost
+} from './access/AccessControl.js';
+export { CallbackInspector, InspectorOptions, InspectedCallback, toCurl } from './inspector/CallbackInspector.js';
+export { LocalAdminServer, LocalAdminServerOptions } from './admin/LocalAdminServer.js';
+export {
+    CallbackSender,
+    CallbackSenderEventNames,
+    CallbackSenderEvents,
+    CallbackSenderOptions,
+    CallbackSigningScheme,
+    CallbackSigningOptions,
+    CallbackPayloadFormat,
+    SenderRetryOptions,
+    SendOptions,
+    CallbackDelivery,
+    DeliveryAttempt,
+    DeliveredEventData,
+    RetryingEventData,
+    DeliveryFailedEventData
+} from './sender/CallbackSender.js';
+export { HttpsOptions, createHttpsServerOptions } from './tls/HttpsOptions.js';
+export {
+    SelfSignedCertificate,
+    SelfSignedCertificateOptions,
+    generateSelfSignedCertificate
+} from './tls/SelfSignedCertificate.js';
+export { CallbackMatcher, matchesCallback } from './CallbackMatcher.js';
+export { CallbackTimeoutError, PortUnavailableError, CallbackDeliveryError } from './CallbackErrors.js';
+
+export {
+    CallbackStore,
+    CallbackQuery,
+    ReplayQuery,
+    StoredCallback,
+    filterStoredCallbacks
+} from './store/CallbackStore.js';
+export { MemoryCallbackStore, MemoryCallbackStoreOptions } from './store/MemoryCallbackStore.js';
+export { JsonlFileCallbackStore, JsonlFileCallbackStoreOptions } from './store/JsonlFileCallbackStore.js';
+
+export {
+    Deduplicator,
+    DeduplicationOptions,
+    DeduplicationRequest,
+    DeduplicationKeyExtractor,
+    defaultDeduplicationKey,
+    headerDeduplicationKey,
+    fieldsDeduplicationKey
+} from './dedup/Deduplicator.js';
+
+export {
+    McpCallbackBridge,
+    McpCallbackBridgeOptions,
+    McpTool,
+    McpToolResult,
+    McpResource,
+    RECENT_CALLBACKS_URI
+} from './mcp/McpCallbackBridge.js';
+export {
+    JsonRpcTransport,
+    JsonRpcMessage,
+    JsonRpcRequest,
+    JsonRpcResponse,
+    JsonRpcNotification,
+    JsonRpcError,
+    JsonRpcErrorCodes
+} from './mcp/JsonRpc.js';
+export { JsonRpcClient, JsonRpcRequestError } from './mcp/JsonRpcClient.js';
+export { StdioTransport, StdioTransportOptions } from './mcp/StdioTransport.js';
+export { InMemoryTransport } from './mcp/InMemoryTransport.js';
+
+export { TunnelProvider, TunnelProviderStatus, TunnelConnectOptions } from './tunnels/TunnelProvider.js';
+export {
+    TunnelSupervisor,
+    TunnelState,
+    TunnelReconnectOptions,
+    TunnelStateChange,
+    TunnelUrlChange
+} from './tunnels/TunnelSupervisor.js';
+export { NgrokTunnelProvider, NgrokTunnelProviderOptions } from './tunnels/NgrokTunnelProvider.js';
+export { LocalOnlyProvider, LocalOnlyProviderOptions } from './tunnels/LocalOnlyProvider.js';
+export { StaticUrlProvider, StaticUrlProviderOptions } from './tunnels/StaticUrlProvider.js';
+
+export {
+    TwilioSignatureValidationOptions,
+    TwilioSignatureRequest,
+    TwilioSignatureResult,
+    computeTwilioSignature,
+    validateTwilioRequest
+} from './verification/TwilioSignature.js';
+export {
+    WebhookVerifier,
+    WebhookVerificationRequest,
+    WebhookVerificationResult
+} from './verification/WebhookVerifier.js';
+export { StripeSignatureVerifier, StripeSignatureVerifierOptions } from './verification/StripeSignatureVerifier.js';
+export { GitHubSignatureVerifier, GitHubSignatureVerifierOptions } from './verification/GitHubSignatureVerifier.js';
+export { StandardWebhooksVerifier, StandardWebhooksVerifierOptions } from './verification/StandardWebhooksVerifier.js';
+
 // For backward compatibility
 export { CallbackHandler as default } from './CallbackHandler.js';
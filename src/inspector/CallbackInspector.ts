@@ -0,0 +1,216 @@
+import express from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { CallbackEventData } from '../CallbackHandler.js';
+import { isLocalRequest } from '../access/AccessControl.js';
+import { renderInspectorPage } from './inspectorPage.js';
+
+/**
+ * Interface for the `inspector` option of {@link CallbackHandlerOptions}.
+ */
+export interface InspectorOptions {
+    /** Path the inspector is served at on the local admin listener. Defaults to `/inspector`. */
+    path?: string;
+    /** Number of callbacks listed, oldest dropped first. Defaults to 200. */
+    maxEntries?: number;
+}
+
+/**
+ * A received callback as listed by the inspector
+ */
+export interface InspectedCallback {
+    /** The callback's receipt ID */
+    id: string;
+    receivedAt: string;
+    route: string;
+    callbackId: string | null;
+    method: string;
+    url: string;
+    sourceIp: string | null;
+    contentType: string | null;
+    headers: IncomingHttpHeaders;
+    queryParameters: any;
+    body: any;
+    /** A curl command sending the same request to the public URL */
+    curl: string;
+}
+
+// Headers describing the original connection, which curl sets itself
+const SKIPPED_CURL_HEADERS = new Set([
+    'host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding', 'accept-encoding',
+    'x-forwarded-for', 'x-forwarded-proto', 'x-forwarded-host', 'forwarded', 'x-simulated-callback'
+]);
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Builds a curl command that repeats a callback against `baseUrl`
+ *
+ * @param data The received callback
+ * @param baseUrl Where to send it, e.g. the public tunnel URL
+ * @returns The command, on one line per option
+ */
+export function toCurl(data: CallbackEventData, baseUrl: string): string {
+    const lines = [`curl -X ${data.method} ${shellQuote(baseUrl.replace(/\/+$/, '') + data.url)}`];
+    for (const [name, value] of Object.entries(data.headers)) {
+        if (value === undefined || SKIPPED_CURL_HEADERS.has(name)) continue;
+        lines.push(`-H ${shellQuote(`${name}: ${Array.isArray(value) ? value.join(', ') : value}`)}`);
+    }
+
+    if (data.rawBody.length > 0) {
+        const text = data.rawBody.toString('utf8');
+        // Binary bodies do not survive a shell string, so they are piped in base64 encoded
+        if (Buffer.from(text, 'utf8').equals(data.rawBody) && !/[\x00-\x08\x0e-\x1f]/.test(text)) {
+            lines.push(`--data-binary ${shellQuote(text)}`);
+        } else {
+            return `printf %s ${shellQuote(data.rawBody.toString('base64'))} | base64 -d | ${lines.join(' \\\n  ')} \\\n  --data-binary @-`;
+        }
+    }
+    return lines.join(' \\\n  ');
+}
+
+/**
+ * Writes a value as JSON with Buffers as base64 strings
+ */
+function toJson(value: any): string {
+    return JSON.stringify(value, (_key, item) =>
+        item && item.type === 'Buffer' && Array.isArray(item.data) ? Buffer.from(item.data).toString('base64') : item);
+}
+
+/**
+ * CallbackInspector Class
+ *
+ * A small web page for watching callbacks while debugging. It lists recent callbacks with their
+ * headers, query and body, streams new ones over Server-Sent Events, filters by route and text,
+ * and offers "replay to listeners" and "copy as curl" for each entry. Everything is served
+ * without external assets from the handler's {@link LocalAdminServer}, a separate listener on
+ * 127.0.0.1 that the tunnel never reaches. Its port is the handler's `adminPort` option (any
+ * free port by default), and it refuses requests whose Host is not a loopback name.
+ *
+ * Enable it with the handler's `inspector` option rather than constructing it directly.
+ */
+export class CallbackInspector {
+    private entries: Array<{ entry: InspectedCallback; data: CallbackEventData }> = [];
+    private maxEntries: number;
+    private streams: Set<express.Response> = new Set();
+    private resolveBaseUrl: () => string | null;
+    private replay: (data: CallbackEventData) => void;
+    private expressRouter: express.Router;
+
+    /**
+     * Creates a new CallbackInspector instance
+     *
+     * @param resolveBaseUrl Returns the URL the curl commands target, e.g. the public tunnel URL
+     * @param replay Re-emits a callback to the handler's listeners
+     * @param options Configuration options
+     */
+    constructor(resolveBaseUrl: () => string | null, replay: (data: CallbackEventData) => void, options: InspectorOptions = {}) {
+        this.resolveBaseUrl = resolveBaseUrl;
+        this.replay = replay;
+        this.maxEntries = options.maxEntries ?? 200;
+
+        this.expressRouter = express.Router();
+        this.expressRouter.use((req, res, next) => {
+            if (!isLocalRequest(req)) {
+                res.status(404).send('Not found');
+                return;
+            }
+            next();
+        });
+
+        this.expressRouter.get('/', (req, res) => {
+            // Serve the page at a trailing slash so its relative API paths resolve below it
+            if (!req.originalUrl.split('?')[0].endsWith('/')) {
+                res.redirect(`${req.baseUrl}/`);
+                return;
+            }
+            res.type('html').send(renderInspectorPage());
+        });
+
+        this.expressRouter.get('/api/callbacks', (req, res) => {
+            const route = typeof req.query.route === 'string' ? req.query.route : undefined;
+            const entries = this.entries.map(({ entry }) => entry).filter((entry) => !route || entry.route === route);
+            res.type('json').send(toJson(entries));
+        });
+
+        this.expressRouter.get('/api/events', (req, res) => {
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+            res.write(': connected\n\n');
+            this.streams.add(res);
+            const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                this.streams.delete(res);
+            });
+        });
+
+        // Browsers cannot send custom headers cross-origin without a preflight we never answer,
+        // so requiring one keeps other web pages from triggering replays
+        this.expressRouter.post('/api/callbacks/:id/replay', (req, res) => {
+            if (req.get('X-Inspector') !== '1') {
+                res.status(403).send('Missing X-Inspector header');
+                return;
+            }
+            const found = this.entries.find(({ entry }) => entry.id === req.params.id);
+            if (!found) {
+                res.status(404).send('Unknown callback');
+                return;
+            }
+            this.replay(found.data);
+            res.status(202).json({ replayed: found.entry.id });
+        });
+    }
+
+    /**
+     * Returns the Express router serving the page and its API
+     */
+    router(): express.Router {
+        return this.expressRouter;
+    }
+
+    /**
+     * Adds a callback to the list and sends it to connected pages
+     *
+     * @param data The accepted callback
+     */
+    record(data: CallbackEventData): void {
+        const entry: InspectedCallback = {
+            id: data.receiptId,
+            receivedAt: data.receivedAt,
+            route: data.route,
+            callbackId: data.callbackId,
+            method: data.method,
+            url: data.url,
+            sourceIp: data.sourceIp,
+            contentType: data.contentType,
+            headers: data.headers,
+            queryParameters: data.queryParameters,
+            body: data.body,
+            curl: toCurl(data, this.resolveBaseUrl() ?? 'http://localhost')
+        };
+        this.entries.push({ entry, data });
+        if (this.entries.length > this.maxEntries) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+
+        const message = `event: callback\ndata: ${toJson(entry)}\n\n`;
+        for (const stream of this.streams) {
+            stream.write(message);
+        }
+    }
+
+    /**
+     * Ends the live streams of connected pages
+     */
+    close(): void {
+        for (const stream of this.streams) {
+            stream.end();
+        }
+        this.streams.clear();
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * Returns the inspector's single HTML page. Styles and script are inline so it works offline,
+ * and every value from a callback is inserted as text, never as markup.
+ */
+export function renderInspectorPage(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Callback Inspector</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 0; color: #222; background: #f6f7f9; }
+  header { display: flex; gap: 8px; align-items: center; padding: 10px 16px; background: #1f2933; color: #fff; }
+  header h1 { font-size: 16px; margin: 0 auto 0 0; }
+  header input, header select { font: inherit; padding: 4px 6px; }
+  #status { font-size: 12px; opacity: 0.8; }
+  main { padding: 12px 16px; }
+  .entry { background: #fff; border: 1px solid #d9dde3; border-radius: 4px; margin-bottom: 8px; }
+  .entry.new { border-color: #3b82f6; }
+  .summary { display: flex; gap: 12px; align-items: center; padding: 8px 10px; cursor: pointer; }
+  .summary .route { font-weight: 600; }
+  .summary .time, .summary .ip { color: #666; font-size: 12px; }
+  .summary .spacer { flex: 1; }
+  .details { display: none; border-top: 1px solid #eee; padding: 8px 10px; }
+  .entry.open .details { display: block; }
+  .details h3 { font-size: 12px; text-transform: uppercase; color: #666; margin: 8px 0 4px; }
+  pre { background: #f3f4f6; padding: 8px; margin: 0; overflow: auto; max-height: 300px; font-size: 12px; }
+  button { font: inherit; font-size: 12px; padding: 2px 8px; cursor: pointer; }
+  #empty { color: #666; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Callback Inspector</h1>
+  <select id="route"><option value="">All routes</option></select>
+  <input id="search" type="search" placeholder="Filter">
+  <span id="status">Connecting...</span>
+</header>
+<main>
+  <p id="empty">No callbacks received yet.</p>
+  <div id="entries"></div>
+</main>
+<script>
+(function () {
+  var entries = [];
+  var list = document.getElementById('entries');
+  var empty = document.getElementById('empty');
+  var routeSelect = document.getElementById('route');
+  var search = document.getElementById('search');
+  var status = document.getElementById('status');
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function section(parent, title, value) {
+    parent.appendChild(el('h3', '', title));
+    parent.appendChild(el('pre', '', typeof value === 'string' ? value : JSON.stringify(value, null, 2)));
+  }
+
+  function matches(entry) {
+    if (routeSelect.value && entry.route !== routeSelect.value) return false;
+    var text = search.value.trim().toLowerCase();
+    return !text || JSON.stringify(entry).toLowerCase().indexOf(text) !== -1;
+  }
+
+  function copy(text, button) {
+    var done = function () {
+      button.textContent = 'Copied';
+      setTimeout(function () { button.textContent = 'Copy as curl'; }, 1500);
+    };
+    if (navigator.clipboard && window.isSecureContext) {
+      navigator.clipboard.writeText(text).then(done);
+      return;
+    }
+    var area = el('textarea');
+    area.value = text;
+    document.body.appendChild(area);
+    area.select();
+    document.execCommand('copy');
+    document.body.removeChild(area);
+    done();
+  }
+
+  function replay(entry, button) {
+    button.disabled = true;
+    fetch('api/callbacks/' + encodeURIComponent(entry.id) + '/replay', { method: 'POST', headers: { 'X-Inspector': '1' } })
+      .then(function (res) { button.textContent = res.ok ? 'Replayed' : 'Replay failed (' + res.status + ')'; })
+      .catch(function () { button.textContent = 'Replay failed'; })
+      .then(function () {
+        setTimeout(function () { button.textContent = 'Replay to listeners'; button.disabled = false; }, 1500);
+      });
+  }
+
+  function render(entry, isNew) {
+    var item = el('div', 'entry' + (isNew ? ' new' : ''));
+    var summary = el('div', 'summary');
+    summary.appendChild(el('span', 'time', new Date(entry.receivedAt).toLocaleTimeString()));
+    summary.appendChild(el('span', 'method', entry.method));
+    summary.appendChild(el('span', 'route', entry.route + (entry.callbackId ? '/' + entry.callbackId : '')));
+    summary.appendChild(el('span', 'ip', entry.sourceIp || ''));
+    summary.appendChild(el('span', 'spacer'));
+    var replayButton = el('button', '', 'Replay to listeners');
+    var curlButton = el('button', '', 'Copy as curl');
+    replayButton.onclick = function (event) { event.stopPropagation(); replay(entry, replayButton); };
+    curlButton.onclick = function (event) { event.stopPropagation(); copy(entry.curl, curlButton); };
+    summary.appendChild(replayButton);
+    summary.appendChild(curlButton);
+    summary.onclick = function () { item.classList.toggle('open'); };
+
+    var details = el('div', 'details');
+    section(details, 'URL', entry.url);
+    section(details, 'Headers', entry.headers);
+    section(details, 'Query', entry.queryParameters);
+    section(details, 'Body', entry.body);
+    section(details, 'curl', entry.curl);
+
+    item.appendChild(summary);
+    item.appendChild(details);
+    item.hidden = !matches(entry);
+    entry.node = item;
+    list.insertBefore(item, list.firstChild);
+    empty.hidden = true;
+  }
+
+  function addRoute(route) {
+    for (var i = 0; i < routeSelect.options.length; i++) {
+      if (routeSelect.options[i].value === route) return;
+    }
+    routeSelect.appendChild(new Option(route, route));
+  }
+
+  function add(entry, isNew) {
+    entries.push(entry);
+    addRoute(entry.route);
+    render(entry, isNew);
+  }
+
+  function applyFilter() {
+    entries.forEach(function (entry) { entry.node.hidden = !matches(entry); });
+  }
+  routeSelect.onchange = applyFilter;
+  search.oninput = applyFilter;
+
+  fetch('api/callbacks')
+    .then(function (res) { return res.json(); })
+    .then(function (initial) {
+      initial.forEach(function (entry) { add(entry, false); });
+      var source = new EventSource('api/events');
+      source.addEventListener('callback', function (event) { add(JSON.parse(event.data), true); });
+      source.onopen = function () { status.textContent = 'Live'; };
+      source.onerror = function () { status.textContent = 'Disconnected, retrying...'; };
+    })
+    .catch(function () { status.textContent = 'Failed to load callbacks'; });
+})();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,128 @@
+/**
+ * Severity of a log message, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Stable identifiers for the messages logged by the handler and hub, for filtering and alerting
+ * without matching on message text.
+ */
+export const LogCodes = {
+    SERVER_LISTENING: 'server.listening',
+    PORT_IN_USE: 'server.port_in_use',
+    PORT_UNAVAILABLE: 'server.port_unavailable',
+    SERVER_ERROR: 'server.error',
+    SERVER_STOPPED: 'server.stopped',
+    TUNNEL_STATUS: 'tunnel.status',
+    TUNNEL_CUSTOM_DOMAIN: 'tunnel.custom_domain',
+    TUNNEL_FAILED: 'tunnel.failed',
+    TUNNEL_RECONNECTING: 'tunnel.reconnecting',
+    TUNNEL_CLOSED: 'tunnel.closed',
+    TUNNEL_CLEANUP_FAILED: 'tunnel.cleanup_failed',
+    BODY_CONVERTED: 'callback.body_converted',
+    BODY_PARSE_FAILED: 'callback.body_parse_failed',
+    CALLBACK_ANSWERED: 'callback.answered',
+    LISTENER_FAILED: 'callback.listener_failed',
+    RESPONDER_TIMEOUT: 'callback.responder_timeout',
+    RESPONDER_FAILED: 'callback.responder_failed',
+    STORE_FAILED: 'store.append_failed',
+    SIGNAL_RECEIVED: 'lifecycle.signal_received',
+    DRAIN_TIMEOUT: 'lifecycle.drain_timeout',
+} as const;
+
+export type LogCode = typeof LogCodes[keyof typeof LogCodes];
+
+/**
+ * Structured fields attached to a log message. Only the fields relevant to the message are set.
+ */
+export interface LogFields {
+    /** Identifies the message, see {@link LogCodes} */
+    code?: LogCode;
+    /** Local port the message is about */
+    port?: number;
+    /** URL or request path the message is about */
+    url?: string;
+    /** Callback route name, `default` for the plain /callback endpoint */
+    route?: string;
+    /** Receipt of the callback the message is about */
+    receiptId?: string;
+    /** HTTP status sent in reply */
+    status?: number;
+    /** Tunnel reconnect attempt */
+    attempt?: number;
+    /** How long the operation took, or the timeout that elapsed, in milliseconds */
+    durationMs?: number;
+    /** The underlying error */
+    error?: Error;
+}
+
+/**
+ * Receives the log messages of a {@link CallbackHandler} or {@link CallbackHub}, in addition
+ * to the 'log' event. Use {@link consoleLogger}, {@link pinoLogger} or your own implementation.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Interface for {@link consoleLogger} options.
+ */
+export interface ConsoleLoggerOptions {
+    /** Least severe level written. Defaults to `info`. */
+    level?: LogLevel;
+    /** Where to write. Defaults to the global `console`. */
+    console?: Pick<Console, LogLevel>;
+}
+
+/**
+ * Creates a {@link Logger} writing `[LEVEL] message` lines, followed by the fields if there are any
+ *
+ * @param options Minimum level and target console
+ */
+export function consoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+    const minimum = LOG_LEVEL_ORDER[options.level ?? 'info'];
+    const target = options.console ?? console;
+    const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+        if (LOG_LEVEL_ORDER[level] < minimum) return;
+        const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+        if (Object.keys(defined).length > 0) {
+            target[level](`[${level.toUpperCase()}] ${message}`, defined);
+        } else {
+            target[level](`[${level.toUpperCase()}] ${message}`);
+        }
+    };
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * The part of a pino logger used by {@link pinoLogger}
+ */
+export interface PinoLike {
+    debug(fields: object, message?: string): void;
+    info(fields: object, message?: string): void;
+    warn(fields: object, message?: string): void;
+    error(fields: object, message?: string): void;
+}
+
+/**
+ * Adapts a pino logger (or a child logger) to {@link Logger}. The error is passed as `err`
+ * so pino's error serializer applies.
+ *
+ * @param logger A pino logger
+ *
+ * @example
+ * import pino from 'pino';
+ * const handler = new CallbackHandler({ ngrokAuthToken, logger: pinoLogger(pino({ level: 'debug' })) });
+ */
+export function pinoLogger(logger: PinoLike): Logger {
+    const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+        const { error, ...rest } = fields;
+        logger[level](error ? { ...rest, err: error } : rest, message);
+    };
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
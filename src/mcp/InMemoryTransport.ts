@@ -0,0 +1,50 @@
+import { JsonRpcMessage, JsonRpcTransport } from './JsonRpc.js';
+
+/**
+ * InMemoryTransport Class
+ *
+ * One end of an in-process channel. Create both ends with {@link InMemoryTransport.createLinkedPair}
+ * to connect a {@link JsonRpcClient} to a {@link McpCallbackBridge} without any I/O, e.g. in tests.
+ *
+ * @example
+ * const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+ * bridge.connect(serverTransport);
+ * const client = new JsonRpcClient(clientTransport);
+ * const tools = await client.request('tools/list');
+ */
+export class InMemoryTransport implements JsonRpcTransport {
+    private peer: InMemoryTransport | null = null;
+    private handler: ((message: JsonRpcMessage) => void) | null = null;
+
+    /**
+     * Creates two transports connected to each other
+     */
+    static createLinkedPair(): [InMemoryTransport, InMemoryTransport] {
+        const a = new InMemoryTransport();
+        const b = new InMemoryTransport();
+        a.peer = b;
+        b.peer = a;
+        return [a, b];
+    }
+
+    send(message: JsonRpcMessage): void {
+        const peer = this.peer;
+        if (!peer) {
+            throw new Error('Transport is closed');
+        }
+        // Deliver asynchronously, as a real transport would
+        queueMicrotask(() => peer.handler?.(message));
+    }
+
+    onMessage(handler: (message: JsonRpcMessage) => void): void {
+        this.handler = handler;
+    }
+
+    async close(): Promise<void> {
+        if (this.peer) {
+            this.peer.peer = null;
+            this.peer = null;
+        }
+        this.handler = null;
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * JSON-RPC 2.0 message types and the transport abstraction used by {@link McpCallbackBridge}.
+ */
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id: JsonRpcId;
+    method: string;
+    params?: any;
+}
+
+export interface JsonRpcNotification {
+    jsonrpc: '2.0';
+    method: string;
+    params?: any;
+}
+
+export interface JsonRpcError {
+    code: number;
+    message: string;
+    data?: any;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: JsonRpcId | null;
+    result?: any;
+    error?: JsonRpcError;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const JsonRpcErrorCodes = {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+} as const;
+
+/**
+ * A bidirectional channel carrying JSON-RPC messages.
+ */
+export interface JsonRpcTransport {
+    /**
+     * Sends a message to the other side
+     */
+    send(message: JsonRpcMessage): void;
+
+    /**
+     * Registers the handler for messages received from the other side. Only one handler is kept.
+     */
+    onMessage(handler: (message: JsonRpcMessage) => void): void;
+
+    /**
+     * Closes the channel
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * Returns true if the message is a request (has both a method and an id)
+ */
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+    return 'method' in message && 'id' in message && message.id !== undefined && message.id !== null;
+}
+
+/**
+ * Returns true if the message is a notification (a method without an id)
+ */
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+    return 'method' in message && !('id' in message && message.id !== undefined && message.id !== null);
+}
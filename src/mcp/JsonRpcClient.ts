@@ -0,0 +1,107 @@
+import { EventEmitter } from 'events';
+import {
+    JsonRpcError,
+    JsonRpcId,
+    JsonRpcMessage,
+    JsonRpcNotification,
+    JsonRpcTransport,
+    isJsonRpcNotification
+} from './JsonRpc.js';
+
+/**
+ * Error returned by the other side of a JSON-RPC call
+ */
+export class JsonRpcRequestError extends Error {
+    readonly code: number;
+    readonly data?: any;
+
+    constructor(error: JsonRpcError) {
+        super(error.message);
+        this.name = 'JsonRpcRequestError';
+        this.code = error.code;
+        this.data = error.data;
+    }
+}
+
+/**
+ * JsonRpcClient Class
+ *
+ * A minimal JSON-RPC client, enough to drive an {@link McpCallbackBridge} in-process.
+ * Notifications from the server are emitted on the 'notification' event.
+ *
+ * @extends EventEmitter
+ */
+export class JsonRpcClient extends EventEmitter {
+    private transport: JsonRpcTransport;
+    private nextId = 1;
+    private pending: Map<JsonRpcId, { resolve: (value: any) => void; reject: (error: Error) => void }> = new Map();
+
+    /**
+     * Creates a new JsonRpcClient over the given transport
+     *
+     * @param transport The transport connected to the server
+     */
+    constructor(transport: JsonRpcTransport) {
+        super();
+        this.transport = transport;
+        this.transport.onMessage((message) => this.handleMessage(message));
+    }
+
+    /**
+     * Sends a request and waits for its result
+     *
+     * @param method The method name, e.g. `tools/call`
+     * @param params The method parameters
+     * @returns Promise that resolves to the result, or rejects with a {@link JsonRpcRequestError}
+     */
+    request(method: string, params?: any): Promise<any> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            try {
+                this.transport.send({ jsonrpc: '2.0', id, method, params });
+            } catch (error) {
+                this.pending.delete(id);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Sends a notification, which has no response
+     */
+    notify(method: string, params?: any): void {
+        this.transport.send({ jsonrpc: '2.0', method, params });
+    }
+
+    /**
+     * Closes the transport and rejects outstanding requests
+     */
+    async close(): Promise<void> {
+        for (const { reject } of this.pending.values()) {
+            reject(new Error('Client closed'));
+        }
+        this.pending.clear();
+        await this.transport.close();
+    }
+
+    private handleMessage(message: JsonRpcMessage): void {
+        if (isJsonRpcNotification(message)) {
+            this.emit('notification', message as JsonRpcNotification);
+            return;
+        }
+        if ('method' in message) {
+            // The client does not serve requests
+            return;
+        }
+
+        const pending = message.id !== null ? this.pending.get(message.id) : undefined;
+        if (!pending || message.id === null) return;
+        this.pending.delete(message.id);
+        if (message.error) {
+            pending.reject(new JsonRpcRequestError(message.error));
+        } else {
+            pending.resolve(message.result);
+        }
+    }
+}
@@ -0,0 +1,369 @@
+import { createRequire } from 'module';
+import { randomUUID } from 'crypto';
+import { CallbackEventData, CallbackHandler, CallbackHandlerEventNames } from '../CallbackHandler.js';
+import { CallbackTimeoutError } from '../CallbackErrors.js';
+import {
+    JsonRpcErrorCodes,
+    JsonRpcMessage,
+    JsonRpcRequest,
+    JsonRpcTransport,
+    isJsonRpcRequest
+} from './JsonRpc.js';
+
+/**
+ * URI of the resource listing the most recent callbacks
+ */
+export const RECENT_CALLBACKS_URI = 'callback://recent';
+
+/**
+ * Interface for {@link McpCallbackBridge} constructor options.
+ */
+export interface McpCallbackBridgeOptions {
+    /** Number of received callbacks exposed as resources. Defaults to 100. */
+    maxCallbacks?: number;
+    /** Name and version reported in the `initialize` response. Defaults to this package. */
+    serverInfo?: { name: string; version: string };
+}
+
+/**
+ * An MCP tool definition as returned by `tools/list`
+ */
+export interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, any>;
+}
+
+/**
+ * The result of an MCP `tools/call`
+ */
+export interface McpToolResult {
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+}
+
+/**
+ * An MCP resource as returned by `resources/list`
+ */
+export interface McpResource {
+    uri: string;
+    name: string;
+    mimeType: string;
+    description?: string;
+}
+
+/**
+ * Error raised for malformed MCP requests, mapped to a JSON-RPC error response
+ */
+class McpRequestError extends Error {
+    readonly code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+// Protocol versions the bridge speaks, newest first. Clients asking for another get the newest.
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+// Declared in the initialize result; notifications are only sent for what is declared here
+const CAPABILITIES = { tools: {}, resources: { subscribe: true, listChanged: true } };
+
+const TOOLS: McpTool[] = [
+    {
+        name: 'get_callback_url',
+        description: 'Returns a public URL that status callbacks can be sent to. Pass a name to get a dedicated route for one kind of callback; the same name returns the same route.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Optional route name, e.g. call-status' }
+            }
+        }
+    },
+    {
+        name: 'wait_for_callback',
+        description: 'Waits for a callback whose body or query parameters contain all the given key/value pairs, and returns it.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                match: { type: 'object', description: 'Key/value pairs the callback must contain, e.g. { "CallSid": "CA123" }', additionalProperties: { type: ['string', 'number', 'boolean'] } },
+                route: { type: 'string', description: 'Only consider callbacks on this route' },
+                timeoutMs: { type: 'number', description: 'How long to wait in milliseconds. Defaults to 30000.' }
+            }
+        }
+    },
+    {
+        name: 'list_recent_callbacks',
+        description: 'Lists the most recently received callbacks, newest last.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                route: { type: 'string', description: 'Only list callbacks on this route' },
+                limit: { type: 'number', description: 'Maximum number of callbacks to return. Defaults to 20.' }
+            }
+        }
+    }
+];
+
+/**
+ * Reads this package's version at runtime, since package.json lives outside the compiled sources
+ */
+function packageVersion(): string {
+    try {
+        return createRequire(import.meta.url)('../../package.json').version ?? '0.0.0';
+    } catch {
+        return '0.0.0';
+    }
+}
+
+/**
+ * Serializes tool and resource values, writing Buffers such as `rawBody` as base64 strings
+ * rather than arrays of bytes
+ */
+function toJson(value: any): string {
+    return JSON.stringify(value, (_key, item) =>
+        item && item.type === 'Buffer' && Array.isArray(item.data) ? Buffer.from(item.data).toString('base64') : item, 2);
+}
+
+/**
+ * McpCallbackBridge Class
+ *
+ * Exposes a {@link CallbackHandler} over the Model Context Protocol. It provides the tools
+ * `get_callback_url`, `wait_for_callback` and `list_recent_callbacks`, exposes each received
+ * callback as a `callback://` resource, and notifies the client when new callbacks arrive:
+ * `notifications/resources/list_changed` always, and `notifications/resources/updated` for
+ * `callback://recent` once the client has subscribed to it.
+ *
+ * Connect it to a {@link JsonRpcTransport} to run it as a standalone MCP server (for example
+ * over {@link StdioTransport}), or call {@link listTools}, {@link callTool}, {@link listResources}
+ * and {@link readResource} from the handlers of an existing MCP server.
+ *
+ * @example
+ * const bridge = new McpCallbackBridge(handler);
+ * await handler.start();
+ * bridge.connect(new StdioTransport());
+ */
+export class McpCallbackBridge {
+    private handler: CallbackHandler;
+    private maxCallbacks: number;
+    private serverInfo: { name: string; version: string };
+    private received: Array<{ uri: string; data: CallbackEventData }> = [];
+    private transport: JsonRpcTransport | null = null;
+    private subscriptions: Set<string> = new Set();
+    private onCallback = (data: CallbackEventData) => this.handleCallback(data);
+
+    /**
+     * Creates a new McpCallbackBridge and starts collecting callbacks from the handler
+     *
+     * @param handler The callback handler to expose
+     * @param options Configuration options
+     */
+    constructor(handler: CallbackHandler, options: McpCallbackBridgeOptions = {}) {
+        this.handler = handler;
+        this.maxCallbacks = options.maxCallbacks ?? 100;
+        this.serverInfo = options.serverInfo ?? { name: 'mcp-status-callback', version: packageVersion() };
+        this.handler.on(CallbackHandlerEventNames.CALLBACK, this.onCallback);
+    }
+
+    /**
+     * Serves MCP requests arriving on the transport
+     *
+     * @param transport The transport to serve
+     */
+    connect(transport: JsonRpcTransport): void {
+        this.transport = transport;
+        this.subscriptions.clear();
+        transport.onMessage((message) => {
+            this.handleMessage(message).catch(() => undefined);
+        });
+    }
+
+    /**
+     * Stops collecting callbacks and closes the transport, if connected
+     */
+    async close(): Promise<void> {
+        this.handler.removeListener(CallbackHandlerEventNames.CALLBACK, this.onCallback);
+        if (this.transport) {
+            await this.transport.close();
+            this.transport = null;
+        }
+    }
+
+    /**
+     * Returns the tools provided by the bridge
+     */
+    listTools(): McpTool[] {
+        return TOOLS;
+    }
+
+    /**
+     * Runs one of the bridge's tools
+     *
+     * @param name The tool name
+     * @param args The tool arguments
+     * @returns The tool result. Failures are reported with `isError` rather than thrown.
+     */
+    async callTool(name: string, args: Record<string, any> = {}): Promise<McpToolResult> {
+        switch (name) {
+            case 'get_callback_url': {
+                if (args.name) {
+                    const name = String(args.name);
+                    let route = this.handler.getCallbacks().find((candidate) => candidate.name === name);
+                    if (!route) {
+                        try {
+                            route = this.handler.createCallback(name);
+                        } catch (error) {
+                            return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+                        }
+                    }
+                    return this.toolResult(route.url ? { url: route.url, route: route.name, callbackId: route.id } : null);
+                }
+                const callbackUrl = this.handler.getCallbackUrl();
+                return this.toolResult(callbackUrl ? { url: callbackUrl } : null);
+            }
+            case 'wait_for_callback': {
+                try {
+                    const data = await this.handler.waitForCallback({
+                        match: args.match,
+                        route: args.route,
+                        timeoutMs: args.timeoutMs
+                    });
+                    return this.toolResult(data);
+                } catch (error) {
+                    if (error instanceof CallbackTimeoutError) {
+                        return { content: [{ type: 'text', text: error.message }], isError: true };
+                    }
+                    throw error;
+                }
+            }
+            case 'list_recent_callbacks': {
+                const limit = typeof args.limit === 'number' ? args.limit : 20;
+                const matching = this.received.filter((entry) => !args.route || entry.data.route === args.route);
+                return this.toolResult(matching.slice(Math.max(0, matching.length - limit)).map((entry) => ({
+                    uri: entry.uri,
+                    ...entry.data
+                })));
+            }
+            default:
+                throw new McpRequestError(JsonRpcErrorCodes.INVALID_PARAMS, `Unknown tool: ${name}`);
+        }
+    }
+
+    /**
+     * Returns the `callback://` resources currently available
+     */
+    listResources(): McpResource[] {
+        return [
+            {
+                uri: RECENT_CALLBACKS_URI,
+                name: 'Recent callbacks',
+                mimeType: 'application/json',
+                description: 'The most recently received callbacks'
+            },
+            ...this.received.map((entry) => ({
+                uri: entry.uri,
+                name: `Callback on ${entry.data.route} at ${entry.data.receivedAt}`,
+                mimeType: 'application/json'
+            }))
+        ];
+    }
+
+    /**
+     * Reads a `callback://` resource
+     *
+     * @param uri The resource URI
+     * @returns The resource contents
+     */
+    readResource(uri: string): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+        let value: any;
+        if (uri === RECENT_CALLBACKS_URI) {
+            value = this.received.map((entry) => ({ uri: entry.uri, ...entry.data }));
+        } else {
+            const entry = this.received.find((candidate) => candidate.uri === uri);
+            if (!entry) {
+                throw new McpRequestError(JsonRpcErrorCodes.INVALID_PARAMS, `Resource not found: ${uri}`);
+            }
+            value = entry.data;
+        }
+        return { contents: [{ uri, mimeType: 'application/json', text: toJson(value) }] };
+    }
+
+    private resourceUri(params: Record<string, any>): string {
+        if (typeof params.uri !== 'string') {
+            throw new McpRequestError(JsonRpcErrorCodes.INVALID_PARAMS, 'Missing resource uri');
+        }
+        return params.uri;
+    }
+
+    private toolResult(value: any): McpToolResult {
+        if (value === null) {
+            return { content: [{ type: 'text', text: 'Callback handler has not been started' }], isError: true };
+        }
+        return { content: [{ type: 'text', text: toJson(value) }] };
+    }
+
+    private handleCallback(data: CallbackEventData): void {
+        const entry = { uri: `callback://received/${randomUUID()}`, data };
+        this.received.push(entry);
+        if (this.received.length > this.maxCallbacks) {
+            this.received.splice(0, this.received.length - this.maxCallbacks);
+        }
+
+        if (this.transport) {
+            if (CAPABILITIES.resources.listChanged) {
+                this.transport.send({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+            }
+            // MCP only allows updates for resources the client subscribed to
+            if (this.subscriptions.has(RECENT_CALLBACKS_URI)) {
+                this.transport.send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: RECENT_CALLBACKS_URI } });
+            }
+        }
+    }
+
+    private async handleMessage(message: JsonRpcMessage): Promise<void> {
+        // Notifications (e.g. notifications/initialized) and responses need no reply
+        if (!isJsonRpcRequest(message)) return;
+
+        try {
+            const result = await this.dispatch(message);
+            this.transport?.send({ jsonrpc: '2.0', id: message.id, result });
+        } catch (error) {
+            const code = error instanceof McpRequestError ? error.code : JsonRpcErrorCodes.INTERNAL_ERROR;
+            const text = error instanceof Error ? error.message : String(error);
+            this.transport?.send({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+        }
+    }
+
+    private async dispatch(request: JsonRpcRequest): Promise<any> {
+        const params = request.params ?? {};
+        switch (request.method) {
+            case 'initialize':
+                return {
+                    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+                        ? params.protocolVersion
+                        : SUPPORTED_PROTOCOL_VERSIONS[0],
+                    capabilities: CAPABILITIES,
+                    serverInfo: this.serverInfo
+                };
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: this.listTools() };
+            case 'tools/call':
+                return this.callTool(params.name, params.arguments);
+            case 'resources/list':
+                return { resources: this.listResources() };
+            case 'resources/read':
+                return this.readResource(params.uri);
+            case 'resources/subscribe':
+                this.subscriptions.add(this.resourceUri(params));
+                return {};
+            case 'resources/unsubscribe':
+                this.subscriptions.delete(this.resourceUri(params));
+                return {};
+            default:
+                throw new McpRequestError(JsonRpcErrorCodes.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { JsonRpcErrorCodes, JsonRpcMessage, JsonRpcTransport } from './JsonRpc.js';
+
+/**
+ * Interface for {@link StdioTransport} constructor options.
+ */
+export interface StdioTransportOptions {
+    /** Stream to read messages from. Defaults to `process.stdin`. */
+    input?: Readable;
+    /** Stream to write messages to. Defaults to `process.stdout`. */
+    output?: Writable;
+}
+
+/**
+ * StdioTransport Class
+ *
+ * Newline delimited JSON-RPC over stdin/stdout, as used by MCP stdio servers.
+ * Lines that are not valid JSON are answered with a parse error, and lines that are not a
+ * single JSON-RPC object with an invalid request error.
+ */
+export class StdioTransport implements JsonRpcTransport {
+    private input: Readable;
+    private output: Writable;
+    private lines: Interface;
+    private handler: ((message: JsonRpcMessage) => void) | null = null;
+
+    /**
+     * Creates a new StdioTransport instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: StdioTransportOptions = {}) {
+        this.input = options.input ?? process.stdin;
+        this.output = options.output ?? process.stdout;
+        this.lines = createInterface({ input: this.input });
+        this.lines.on('line', (line) => {
+            if (!line.trim()) return;
+            let message: JsonRpcMessage;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                this.send({ jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCodes.PARSE_ERROR, message: 'Parse error' } });
+                return;
+            }
+            if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+                this.send({ jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCodes.INVALID_REQUEST, message: 'Invalid Request' } });
+                return;
+            }
+            this.handler?.(message);
+        });
+    }
+
+    send(message: JsonRpcMessage): void {
+        this.output.write(JSON.stringify(message) + '\n');
+    }
+
+    onMessage(handler: (message: JsonRpcMessage) => void): void {
+        this.handler = handler;
+    }
+
+    async close(): Promise<void> {
+        this.lines.close();
+        this.handler = null;
+    }
+}
@@ -0,0 +1,275 @@
+/**
+ * Content type of the Prometheus text exposition format produced by {@link MetricsRegistry.render}
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Default maximum number of series per metric, see {@link MetricOptions.maxSeries}
+ */
+export const DEFAULT_MAX_SERIES = 100;
+
+/**
+ * Label value that replaces every label of a series created after a metric reached its series limit
+ */
+export const OVERFLOW_LABEL_VALUE = '__overflow__';
+
+/**
+ * Label values of one series, keyed by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Interface for the options of {@link MetricsRegistry.counter} and {@link MetricsRegistry.histogram}.
+ */
+export interface MetricOptions {
+    /**
+     * Maximum number of distinct label sets. Further label sets are all recorded in one series
+     * whose labels are {@link OVERFLOW_LABEL_VALUE}, so label values taken from requests cannot
+     * grow memory without bound. Defaults to {@link DEFAULT_MAX_SERIES}.
+     */
+    maxSeries?: number;
+    /** Upper bounds of the buckets of a histogram. Defaults to {@link DEFAULT_HISTOGRAM_BUCKETS}. */
+    buckets?: number[];
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Shared series bookkeeping for {@link Counter} and {@link Histogram}
+ */
+abstract class Metric<TSeries> {
+    readonly name: string;
+    readonly help: string;
+    readonly labelNames: string[];
+    readonly maxSeries: number;
+    protected series: Map<string, { labels: MetricLabels; value: TSeries }> = new Map();
+
+    constructor(name: string, help: string, labelNames: string[], maxSeries = DEFAULT_MAX_SERIES) {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+            throw new Error(`Invalid metric name '${name}'`);
+        }
+        this.name = name;
+        this.help = help;
+        this.labelNames = labelNames;
+        this.maxSeries = maxSeries;
+    }
+
+    abstract readonly type: 'counter' | 'histogram';
+
+    protected abstract initial(): TSeries;
+
+    /**
+     * Returns the series for a set of label values, creating it if needed. Once `maxSeries`
+     * series exist, new label sets share the overflow series.
+     */
+    protected seriesFor(labels: MetricLabels): TSeries {
+        let ordered: MetricLabels = {};
+        for (const name of this.labelNames) {
+            ordered[name] = labels[name] ?? '';
+        }
+        let key = this.labelNames.map((name) => ordered[name]).join('\u0000');
+        if (!this.series.has(key) && this.series.size >= this.maxSeries) {
+            ordered = Object.fromEntries(this.labelNames.map((name) => [name, OVERFLOW_LABEL_VALUE]));
+            key = this.labelNames.map(() => OVERFLOW_LABEL_VALUE).join('\u0000');
+        }
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels: ordered, value: this.initial() };
+            this.series.set(key, entry);
+        }
+        return entry.value;
+    }
+
+    /**
+     * Renders the metric in the Prometheus text format
+     */
+    render(): string {
+        // A metric without labels has a single series, reported as zero until first used
+        if (this.labelNames.length === 0) {
+            this.seriesFor({});
+        }
+        const lines = [
+            `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+            `# TYPE ${this.name} ${this.type}`
+        ];
+        for (const { labels, value } of this.series.values()) {
+            lines.push(...this.renderSeries(labels, value));
+        }
+        return lines.join('\n');
+    }
+
+    protected abstract renderSeries(labels: MetricLabels, value: TSeries): string[];
+}
+
+/**
+ * A value that only goes up, such as the number of callbacks received
+ */
+export class Counter extends Metric<{ count: number }> {
+    readonly type = 'counter';
+
+    protected initial(): { count: number } {
+        return { count: 0 };
+    }
+
+    /**
+     * Increments the series with the given labels
+     *
+     * @param labels Label values
+     * @param value Amount to add. Defaults to 1.
+     */
+    inc(labels: MetricLabels = {}, value = 1): void {
+        this.seriesFor(labels).count += value;
+    }
+
+    /**
+     * Returns the current value of the series with the given labels
+     */
+    get(labels: MetricLabels = {}): number {
+        return this.seriesFor(labels).count;
+    }
+
+    protected renderSeries(labels: MetricLabels, value: { count: number }): string[] {
+        return [`${this.name}${formatLabels(labels)} ${value.count}`];
+    }
+}
+
+/**
+ * Observations counted into buckets, such as response latency
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+    readonly type = 'histogram';
+    readonly buckets: number[];
+
+    constructor(name: string, help: string, labelNames: string[], options: MetricOptions = {}) {
+        super(name, help, labelNames, options.maxSeries);
+        this.buckets = [...(options.buckets ?? DEFAULT_HISTOGRAM_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    protected initial(): { buckets: number[]; sum: number; count: number } {
+        return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    }
+
+    /**
+     * Records an observation in the series with the given labels
+     *
+     * @param labels Label values
+     * @param value The observed value, e.g. seconds
+     */
+    observe(labels: MetricLabels, value: number): void {
+        const series = this.seriesFor(labels);
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) series.buckets[index]++;
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    protected renderSeries(labels: MetricLabels, value: { buckets: number[]; sum: number; count: number }): string[] {
+        const lines = this.buckets.map((bound, index) =>
+            `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`);
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+        lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+        lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+        return lines;
+    }
+}
+
+/**
+ * MetricsRegistry Class
+ *
+ * Holds counters and histograms and renders them in the Prometheus text format. Asking for a
+ * metric that already exists returns it, so several handlers can share one registry.
+ *
+ * @example
+ * const registry = new MetricsRegistry();
+ * const handler = new CallbackHandler({ ngrokAuthToken, metrics: { registry } });
+ * app.get('/metrics', (_, res) => res.type(PROMETHEUS_CONTENT_TYPE).send(registry.render()));
+ */
+export class MetricsRegistry {
+    private metrics: Map<string, Counter | Histogram> = new Map();
+
+    /**
+     * Returns the counter with this name, creating it if needed
+     *
+     * @param name Metric name, e.g. `callbacks_received_total`
+     * @param help Description shown in the exposition
+     * @param labelNames Names of the labels that distinguish its series
+     * @param options Series limit
+     * @throws If a histogram with this name exists
+     */
+    counter(name: string, help: string, labelNames: string[] = [], options: MetricOptions = {}): Counter {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (!(existing instanceof Counter)) throw new Error(`Metric '${name}' is not a counter`);
+            return existing;
+        }
+        const counter = new Counter(name, help, labelNames, options.maxSeries);
+        this.metrics.set(name, counter);
+        return counter;
+    }
+
+    /**
+     * Returns the histogram with this name, creating it if needed
+     *
+     * @param name Metric name, e.g. `response_duration_seconds`
+     * @param help Description shown in the exposition
+     * @param labelNames Names of the labels that distinguish its series
+     * @param options Bucket bounds and series limit
+     * @throws If a counter with this name exists
+     */
+    histogram(name: string, help: string, labelNames: string[] = [], options: MetricOptions = {}): Histogram {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (!(existing instanceof Histogram)) throw new Error(`Metric '${name}' is not a histogram`);
+            return existing;
+        }
+        const histogram = new Histogram(name, help, labelNames, options);
+        this.metrics.set(name, histogram);
+        return histogram;
+    }
+
+    /**
+     * Renders every metric in the Prometheus text format
+     */
+    render(): string {
+        return [...this.metrics.values()].map((metric) => metric.render()).join('\n') + '\n';
+    }
+}
+
+/**
+ * The metrics recorded by a {@link CallbackHandler} with the `metrics` option
+ */
+export interface CallbackMetrics {
+    received: Counter;
+    rejected: Counter;
+    duplicates: Counter;
+    responseSeconds: Histogram;
+    tunnelReconnects: Counter;
+}
+
+/**
+ * Registers the handler metrics, named `mcp_status_callback_*`, in a registry
+ *
+ * @param registry The registry to add them to
+ */
+export function registerCallbackMetrics(registry: MetricsRegistry): CallbackMetrics {
+    return {
+        received: registry.counter('mcp_status_callback_callbacks_received_total', 'Callbacks accepted and emitted to listeners', ['route']),
+        rejected: registry.counter('mcp_status_callback_callbacks_rejected_total', 'Callbacks rejected before reaching listeners', ['route', 'reason']),
+        duplicates: registry.counter('mcp_status_callback_callbacks_duplicate_total', 'Repeated deliveries suppressed by deduplication', ['route']),
+        responseSeconds: registry.histogram('mcp_status_callback_response_duration_seconds', 'Time from receiving a callback to answering it', ['route']),
+        tunnelReconnects: registry.counter('mcp_status_callback_tunnel_reconnects_total', 'Tunnel reconnects that brought the tunnel back online')
+    };
+}
@@ -0,0 +1,101 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * A decoded CloudEvents envelope (https://cloudevents.io), from either content mode.
+ *
+ * @typeParam TData - Type of the event's data
+ */
+export interface CloudEvent<TData = any> {
+    /** How the event arrived: attributes in the body (`structured`) or in `ce-` headers (`binary`) */
+    mode: 'structured' | 'binary';
+    specversion: string;
+    id: string;
+    source: string;
+    type: string;
+    subject?: string;
+    time?: string;
+    datacontenttype?: string;
+    dataschema?: string;
+    /** The event data, decoded from `data_base64` into a Buffer when sent that way */
+    data?: TData;
+    /** Extension attributes, e.g. `traceparent` */
+    extensions: Record<string, string>;
+}
+
+const CORE_ATTRIBUTES = new Set(['specversion', 'id', 'source', 'type', 'subject', 'time', 'datacontenttype', 'dataschema']);
+
+/**
+ * Returns true for the content type of a structured-mode CloudEvent
+ */
+export function isStructuredCloudEvent(contentType: string): boolean {
+    return contentType.toLowerCase().startsWith('application/cloudevents+json');
+}
+
+/**
+ * Decodes a CloudEvent from a callback, if it is one
+ *
+ * @param headers The request headers
+ * @param body The parsed body: the JSON envelope in structured mode, the event data in binary mode
+ * @param contentType The request content type
+ * @returns The envelope, or undefined if the request is not a CloudEvent
+ */
+export function decodeCloudEvent(headers: IncomingHttpHeaders, body: any, contentType: string): CloudEvent | undefined {
+    if (isStructuredCloudEvent(contentType)) {
+        if (!body || typeof body !== 'object' || Array.isArray(body) || typeof body.specversion !== 'string') {
+            return undefined;
+        }
+        const { data, data_base64, ...attributes } = body;
+        const event = toCloudEvent('structured', attributes);
+        if (data_base64 !== undefined) {
+            event.data = Buffer.from(String(data_base64), 'base64');
+        } else if (data !== undefined) {
+            event.data = data;
+        }
+        return event;
+    }
+
+    if (headers['ce-specversion'] === undefined) {
+        return undefined;
+    }
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (name.startsWith('ce-') && value !== undefined) {
+            attributes[name.slice(3)] = decodeHeaderValue(Array.isArray(value) ? value[0] : value);
+        }
+    }
+    if (contentType) {
+        attributes.datacontenttype = contentType;
+    }
+    const event = toCloudEvent('binary', attributes);
+    event.data = body;
+    return event;
+}
+
+/**
+ * Binary-mode attribute headers are percent-encoded; keep the raw value if decoding fails
+ */
+function decodeHeaderValue(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+function toCloudEvent(mode: CloudEvent['mode'], attributes: Record<string, any>): CloudEvent {
+    const event: CloudEvent = {
+        mode,
+        specversion: String(attributes.specversion),
+        id: String(attributes.id ?? ''),
+        source: String(attributes.source ?? ''),
+        type: String(attributes.type ?? ''),
+        extensions: {}
+    };
+    for (const name of ['subject', 'time', 'datacontenttype', 'dataschema'] as const) {
+        if (attributes[name] !== undefined) event[name] = String(attributes[name]);
+    }
+    for (const [name, value] of Object.entries(attributes)) {
+        if (!CORE_ATTRIBUTES.has(name)) event.extensions[name] = String(value);
+    }
+    return event;
+}
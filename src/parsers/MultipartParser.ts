@@ -0,0 +1,132 @@
+/**
+ * Limits applied when parsing `multipart/form-data` callbacks
+ */
+export interface MultipartOptions {
+    /** Maximum size of the whole request in bytes. Defaults to 10 MiB. */
+    maxTotalSize?: number;
+    /** Maximum size of a single file in bytes. Defaults to `maxTotalSize`. */
+    maxFileSize?: number;
+    /** Maximum number of files. Defaults to 10. */
+    maxFiles?: number;
+    /** Maximum number of non-file fields. Defaults to 100. */
+    maxFields?: number;
+}
+
+/**
+ * A file uploaded in a multipart callback
+ */
+export interface MultipartFile {
+    /** The form field the file was sent in */
+    fieldName: string;
+    /** The file name given by the sender */
+    filename: string;
+    /** The part's content type, `application/octet-stream` if not given */
+    contentType: string;
+    size: number;
+    data: Buffer;
+}
+
+/**
+ * The body of a `multipart/form-data` callback
+ */
+export interface MultipartBody {
+    /** Non-file fields. Repeated fields keep the last value. */
+    fields: Record<string, string>;
+    files: MultipartFile[];
+}
+
+/**
+ * Error thrown when a multipart body exceeds one of the {@link MultipartOptions} limits
+ */
+export class MultipartLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MultipartLimitError';
+    }
+}
+
+export const DEFAULT_MULTIPART_MAX_TOTAL_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Reads the boundary parameter from a `multipart/form-data` content type
+ *
+ * @returns The boundary, or null if there is none
+ */
+export function multipartBoundary(contentType: string): string | null {
+    const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    return match ? match[1] ?? match[2] : null;
+}
+
+function headerParameter(header: string, name: string): string | undefined {
+    const match = new RegExp(`;\\s*${name}="([^"]*)"|;\\s*${name}=([^;\\s]*)`, 'i').exec(header);
+    return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Parses a buffered `multipart/form-data` body
+ *
+ * @param rawBody The raw request body
+ * @param boundary The boundary from the content type, see {@link multipartBoundary}
+ * @param options Limits for the number and size of parts
+ * @returns The fields and files in the body
+ * @throws {MultipartLimitError} If a limit is exceeded
+ * @throws {Error} If the body is malformed
+ */
+export function parseMultipart(rawBody: Buffer, boundary: string, options: MultipartOptions = {}): MultipartBody {
+    const maxFileSize = options.maxFileSize ?? options.maxTotalSize ?? DEFAULT_MULTIPART_MAX_TOTAL_SIZE;
+    const maxFiles = options.maxFiles ?? 10;
+    const maxFields = options.maxFields ?? 100;
+
+    const delimiter = Buffer.from(`--${boundary}`);
+    const body: MultipartBody = { fields: {}, files: [] };
+    let fieldCount = 0;
+
+    let position = rawBody.indexOf(delimiter);
+    if (position === -1) {
+        throw new Error('Multipart boundary not found');
+    }
+
+    while (true) {
+        position += delimiter.length;
+        // A delimiter followed by `--` closes the body
+        if (rawBody[position] === 0x2d && rawBody[position + 1] === 0x2d) break;
+
+        const headersEnd = rawBody.indexOf('\r\n\r\n', position);
+        const next = rawBody.indexOf(delimiter, position);
+        if (headersEnd === -1 || next === -1 || headersEnd > next) {
+            throw new Error('Malformed multipart body');
+        }
+
+        const headers: Record<string, string> = {};
+        for (const line of rawBody.subarray(position, headersEnd).toString('utf8').split('\r\n')) {
+            const colon = line.indexOf(':');
+            if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+        }
+        // The part's content runs up to the CRLF that precedes the next delimiter
+        const data = rawBody.subarray(headersEnd + 4, next - 2);
+
+        const disposition = headers['content-disposition'] ?? '';
+        const name = headerParameter(disposition, 'name');
+        const filename = headerParameter(disposition, 'filename');
+        if (name !== undefined) {
+            if (filename !== undefined) {
+                if (body.files.length >= maxFiles) throw new MultipartLimitError(`More than ${maxFiles} files`);
+                if (data.length > maxFileSize) throw new MultipartLimitError(`File '${filename}' exceeds ${maxFileSize} bytes`);
+                body.files.push({
+                    fieldName: name,
+                    filename,
+                    contentType: headers['content-type'] ?? 'application/octet-stream',
+                    size: data.length,
+                    data: Buffer.from(data)
+                });
+            } else {
+                if (++fieldCount > maxFields) throw new MultipartLimitError(`More than ${maxFields} fields`);
+                // Field names come from the sender, so `__proto__` must become an own property
+                Object.defineProperty(body.fields, name, { value: data.toString('utf8'), enumerable: true, writable: true, configurable: true });
+            }
+        }
+        position = next;
+    }
+
+    return body;
+}
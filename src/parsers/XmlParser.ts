@@ -0,0 +1,180 @@
+/**
+ * Error thrown by {@link parseXml} for documents it cannot parse
+ */
+export class XmlParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'XmlParseError';
+    }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+        if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+        if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+        return ENTITIES[name] ?? entity;
+    });
+}
+
+/**
+ * Sets an own property even for names such as `__proto__` or `constructor`, which come from the
+ * document and must not reach Object.prototype
+ */
+function setOwn(target: Record<string, any>, key: string, value: unknown): void {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function hasOwn(target: Record<string, any>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+/**
+ * Converts an element to a plain value. Elements with only text become strings. Otherwise
+ * attributes are kept under `$`, text under `_` and child elements under their tag name,
+ * as arrays when a tag repeats.
+ */
+function toValue(element: XmlElement): any {
+    const text = element.text.trim();
+    const hasAttributes = Object.keys(element.attributes).length > 0;
+    if (element.children.length === 0 && !hasAttributes) {
+        return text;
+    }
+
+    const value: Record<string, any> = {};
+    if (hasAttributes) value.$ = element.attributes;
+    if (text) value._ = text;
+    for (const child of element.children) {
+        const childValue = toValue(child);
+        if (!hasOwn(value, child.name)) {
+            setOwn(value, child.name, childValue);
+        } else if (Array.isArray(value[child.name])) {
+            value[child.name].push(childValue);
+        } else {
+            setOwn(value, child.name, [value[child.name], childValue]);
+        }
+    }
+    return value;
+}
+
+/**
+ * Parses an XML document into a plain object keyed by the root element's name.
+ *
+ * This is a small non-validating parser for webhook payloads: it handles elements, attributes,
+ * text, CDATA and the predefined and numeric entities, and skips the declaration, comments,
+ * processing instructions and DOCTYPE. Namespaces are kept as part of the names.
+ *
+ * @param xml The document to parse
+ * @returns `{ [rootName]: value }`
+ * @throws {XmlParseError} If the document is not well-formed
+ *
+ * @example
+ * parseXml('<Event id="1"><Status>done</Status></Event>');
+ * // { Event: { $: { id: '1' }, Status: 'done' } }
+ */
+export function parseXml(xml: string): Record<string, any> {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | null = null;
+    let position = 0;
+
+    while (position < xml.length) {
+        const start = xml.indexOf('<', position);
+        const text = start === -1 ? xml.slice(position) : xml.slice(position, start);
+        if (stack.length > 0) {
+            stack[stack.length - 1].text += decodeEntities(text);
+        } else if (text.trim()) {
+            throw new XmlParseError('Text outside the root element');
+        }
+        if (start === -1) break;
+
+        if (xml.startsWith('<!--', start)) {
+            position = findEnd(xml, '-->', start);
+        } else if (xml.startsWith('<![CDATA[', start)) {
+            const end = findEnd(xml, ']]>', start);
+            if (stack.length === 0) throw new XmlParseError('CDATA outside the root element');
+            stack[stack.length - 1].text += xml.slice(start + 9, end - 3);
+            position = end;
+        } else if (xml.startsWith('<?', start)) {
+            position = findEnd(xml, '?>', start);
+        } else if (xml.startsWith('<!', start)) {
+            position = findEnd(xml, '>', start);
+        } else if (xml.startsWith('</', start)) {
+            const end = findEnd(xml, '>', start);
+            const name = xml.slice(start + 2, end - 1).trim();
+            const element = stack.pop();
+            if (!element || element.name !== name) {
+                throw new XmlParseError(`Unexpected closing tag </${name}>`);
+            }
+            position = end;
+        } else {
+            const end = findTagEnd(xml, start);
+            const selfClosing = xml[end - 2] === '/';
+            const tag = xml.slice(start + 1, selfClosing ? end - 2 : end - 1);
+            const match = /^([^\s/>]+)([\s\S]*)$/.exec(tag.trim());
+            if (!match) throw new XmlParseError('Empty tag name');
+
+            const element: XmlElement = { name: match[1], attributes: parseAttributes(match[2]), children: [], text: '' };
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element);
+            } else if (root) {
+                throw new XmlParseError('More than one root element');
+            } else {
+                root = element;
+            }
+            if (!selfClosing) stack.push(element);
+            position = end;
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new XmlParseError(`Unclosed tag <${stack[stack.length - 1].name}>`);
+    }
+    if (!root) {
+        throw new XmlParseError('No root element');
+    }
+    return { [root.name]: toValue(root) };
+}
+
+function findEnd(xml: string, terminator: string, from: number): number {
+    const index = xml.indexOf(terminator, from);
+    if (index === -1) {
+        throw new XmlParseError(`Unterminated markup at offset ${from}`);
+    }
+    return index + terminator.length;
+}
+
+/**
+ * Finds the end of a start tag, skipping quoted attribute values that may contain `>`
+ */
+function findTagEnd(xml: string, from: number): number {
+    let quote: string | null = null;
+    for (let index = from + 1; index < xml.length; index++) {
+        const char = xml[index];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '>') {
+            return index + 1;
+        }
+    }
+    throw new XmlParseError(`Unterminated markup at offset ${from}`);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        setOwn(attributes, match[1], decodeEntities(match[3] ?? match[4]));
+    }
+    return attributes;
+}
@@ -0,0 +1,49 @@
+import { CallbackEventData } from '../CallbackHandler.js';
+
+/**
+ * The HTTP reply sent back to the provider for a callback.
+ */
+export interface CallbackResponse {
+    /** HTTP status code. Defaults to 200. Return a 5xx to make the provider retry. */
+    status?: number;
+    /** Response headers */
+    headers?: Record<string, string>;
+    /** Response body. Objects are sent as JSON. */
+    body?: string | Buffer | object;
+}
+
+/**
+ * Decides the reply for a callback. Returning undefined sends the default `200 Callback received`.
+ */
+export type CallbackResponder = (data: CallbackEventData) => CallbackResponse | undefined | Promise<CallbackResponse | undefined>;
+
+/**
+ * The reply sent when no responder is configured, or when it times out
+ */
+export const DEFAULT_CALLBACK_RESPONSE: CallbackResponse = { status: 200, body: 'Callback received' };
+
+/**
+ * A responder replying with an empty TwiML document, which tells Twilio to take no further action
+ *
+ * @example
+ * new CallbackHandler({ ngrokAuthToken, respond: emptyTwiml() });
+ */
+export function emptyTwiml(): CallbackResponder {
+    return () => ({
+        status: 200,
+        headers: { 'Content-Type': 'text/xml' },
+        body: '<?xml version="1.0" encoding="UTF-8"?><Response/>'
+    });
+}
+
+/**
+ * A responder replying with a JSON acknowledgement
+ *
+ * @param body Extra fields to include alongside `received: true`
+ *
+ * @example
+ * handler.createCallback('jobs', { respond: jsonAck({ queued: true }) });
+ */
+export function jsonAck(body: Record<string, any> = {}): CallbackResponder {
+    return () => ({ status: 200, body: { received: true, ...body } });
+}
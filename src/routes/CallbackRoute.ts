@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import { CallbackEventData } from '../CallbackHandler.js';
+import { createEventIterator } from '../util/EventIterator.js';
+import { CallbackResponder } from '../responses/CallbackResponse.js';
+import { CallbackSchema } from '../schemas/CallbackSchema.js';
+
+/**
+ * Defines constants for the event names emitted by CallbackRoute.
+ */
+export const CallbackRouteEventNames = {
+    /** Emitted when a callback is received on this route */
+    CALLBACK: 'callback',
+    /** Emitted when the route is closed and stops accepting callbacks */
+    CLOSE: 'close',
+} as const;
+
+/**
+ * Defines the events emitted by the {@link CallbackRoute} class.
+ */
+export interface CallbackRouteEvents<TBody = any> {
+    /**
+     * Emitted when a callback is received on this route.
+     * @param data - The callback event data.
+     */
+    [CallbackRouteEventNames.CALLBACK]: (data: CallbackEventData<TBody>) => void;
+    /**
+     * Emitted when the route is closed.
+     */
+    [CallbackRouteEventNames.CLOSE]: () => void;
+}
+
+/**
+ * Interface for {@link CallbackHandler.createCallback} options.
+ */
+export interface CreateCallbackOptions<TBody = any> {
+    /** Identifier used in the URL. Defaults to a random UUID. */
+    id?: string;
+    /** Decides the HTTP reply for callbacks on this route, overriding the handler's `respond` option */
+    respond?: CallbackResponder;
+    /** Validates bodies on this route, overriding the handler's `schema` option */
+    schema?: CallbackSchema<TBody>;
+}
+
+/**
+ * CallbackRoute Class
+ *
+ * A named callback endpoint created with {@link CallbackHandler.createCallback}. Each route has
+ * its own unique URL (`<publicUrl>/callback/<name>/<id>`) and only emits the callbacks sent to it,
+ * either as events or through `for await`.
+ *
+ * @example
+ * const recordings = handler.createCallback('recording-status');
+ * // Pass recordings.url to the provider, then:
+ * for await (const data of recordings) {
+ *   console.log('Recording status:', data.body.RecordingStatus);
+ * }
+ *
+ * @typeParam TBody - Type of callback bodies on this route
+ * @extends EventEmitter
+ */
+export class CallbackRoute<TBody = any> extends EventEmitter {
+    /** Name of the route, e.g. `call-status` */
+    readonly name: string;
+    /** Unique identifier of this route within its name */
+    readonly id: string;
+    /** Path of the route on the local server */
+    readonly path: string;
+    /** Responder for callbacks on this route, if it overrides the handler's */
+    readonly respond?: CallbackResponder;
+    /** Schema for callbacks on this route, if it overrides the handler's */
+    readonly schema?: CallbackSchema<TBody>;
+    private resolveBaseUrl: () => string | null;
+    private onClose: (route: CallbackRoute<TBody>) => void;
+    private closed = false;
+
+    /**
+     * Creates a new CallbackRoute. Use {@link CallbackHandler.createCallback} rather than calling this directly.
+     *
+     * @param name Name of the route
+     * @param id Unique identifier of the route
+     * @param resolveBaseUrl Returns the current public base URL
+     * @param onClose Called when the route is closed so the owner can unregister it
+     * @param options Route options such as its responder and schema
+     */
+    constructor(name: string, id: string, resolveBaseUrl: () => string | null, onClose: (route: CallbackRoute<TBody>) => void, options: CreateCallbackOptions<TBody> = {}) {
+        super();
+        this.name = name;
+        this.respond = options.respond;
+        this.schema = options.schema;
+        this.id = id;
+        this.path = `/callback/${name}/${id}`;
+        this.resolveBaseUrl = resolveBaseUrl;
+        this.onClose = onClose;
+    }
+
+    /**
+     * The public URL of this route, or null if the handler has not been started
+     */
+    get url(): string | null {
+        const baseUrl = this.resolveBaseUrl();
+        return baseUrl ? `${baseUrl}${this.path}` : null;
+    }
+
+    /**
+     * Whether the route has been closed
+     */
+    get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /**
+     * Stops accepting callbacks on this route. Requests to its URL will receive a 404.
+     */
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.onClose(this);
+        this.emit(CallbackRouteEventNames.CLOSE);
+    }
+
+    /**
+     * Iterates over callbacks received on this route until it is closed
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<CallbackEventData<TBody>> {
+        return createEventIterator<CallbackEventData<TBody>>(this, CallbackRouteEventNames.CALLBACK, CallbackRouteEventNames.CLOSE);
+    }
+
+    // --- Type-safe EventEmitter Overrides ---
+
+    on<E extends keyof CallbackRouteEvents>(event: E, listener: CallbackRouteEvents<TBody>[E]): this {
+        return super.on(event, listener as any);
+    }
+
+    once<E extends keyof CallbackRouteEvents>(event: E, listener: CallbackRouteEvents<TBody>[E]): this {
+        return super.once(event, listener as any);
+    }
+
+    emit<E extends keyof CallbackRouteEvents>(event: E, ...args: Parameters<CallbackRouteEvents<TBody>[E]>): boolean {
+        return super.emit(event, ...args);
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Result of {@link CallbackSchema.safeParse}
+ */
+export type CallbackSchemaResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: unknown };
+
+/**
+ * A minimal schema interface for validating callback bodies.
+ *
+ * Zod schemas (and other libraries with a compatible `safeParse`) satisfy it directly, so
+ * `new CallbackHandler({ schema: z.object({ ... }) })` works without an adapter.
+ * Use {@link fieldsSchema} to build simple schemas without a library.
+ */
+export interface CallbackSchema<T> {
+    safeParse(data: unknown): CallbackSchemaResult<T>;
+}
+
+/**
+ * Describes one field checked by {@link fieldsSchema}
+ */
+export interface SchemaField {
+    /** Field name */
+    name: string;
+    /** Whether the field must be present. Defaults to true. */
+    required?: boolean;
+    /** Allowed values, if restricted */
+    oneOf?: readonly string[];
+}
+
+/**
+ * Error reported when a {@link fieldsSchema} check fails
+ */
+export class CallbackSchemaError extends Error {
+    /** One message per failed field */
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(issues.join('; '));
+        this.name = 'CallbackSchemaError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Builds a schema that checks an object for required fields and allowed values. Form-encoded
+ * callbacks only carry strings, so values are compared as strings and passed through unchanged.
+ *
+ * @param fields The fields to check. Fields not listed are allowed and kept.
+ * @returns A schema typed as `T`
+ *
+ * @example
+ * const jobSchema = fieldsSchema<{ JobId: string; Status: 'done' | 'failed' }>([
+ *   { name: 'JobId' },
+ *   { name: 'Status', oneOf: ['done', 'failed'] }
+ * ]);
+ */
+export function fieldsSchema<T>(fields: SchemaField[]): CallbackSchema<T> {
+    return {
+        safeParse(data: unknown): CallbackSchemaResult<T> {
+            if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+                return { success: false, error: new CallbackSchemaError(['Expected an object']) };
+            }
+
+            const record = data as Record<string, unknown>;
+            const issues: string[] = [];
+            for (const field of fields) {
+                const value = record[field.name];
+                if (value === undefined || value === '') {
+                    if (field.required !== false) {
+                        issues.push(`${field.name} is required`);
+                    }
+                    continue;
+                }
+                if (field.oneOf && !field.oneOf.includes(String(value))) {
+                    issues.push(`${field.name} must be one of ${field.oneOf.join(', ')}`);
+                }
+            }
+
+            return issues.length > 0
+                ? { success: false, error: new CallbackSchemaError(issues) }
+                : { success: true, data: data as T };
+        }
+    };
+}
@@ -0,0 +1,108 @@
+import { fieldsSchema } from './CallbackSchema.js';
+
+/**
+ * Status values of a Twilio Voice call
+ */
+export const TWILIO_CALL_STATUSES = ['queued', 'initiated', 'ringing', 'in-progress', 'completed', 'busy', 'failed', 'no-answer', 'canceled'] as const;
+export type TwilioCallStatus = typeof TWILIO_CALL_STATUSES[number];
+
+/**
+ * Status values of a Twilio Messaging message
+ */
+export const TWILIO_MESSAGE_STATUSES = ['accepted', 'scheduled', 'queued', 'sending', 'sent', 'delivered', 'undelivered', 'failed', 'read', 'receiving', 'received', 'canceled', 'partially_delivered'] as const;
+export type TwilioMessageStatus = typeof TWILIO_MESSAGE_STATUSES[number];
+
+/**
+ * Status values of a Twilio recording
+ */
+export const TWILIO_RECORDING_STATUSES = ['in-progress', 'completed', 'absent', 'failed'] as const;
+export type TwilioRecordingStatus = typeof TWILIO_RECORDING_STATUSES[number];
+
+/**
+ * Body of a Twilio Voice `statusCallback` request. All values arrive as strings.
+ */
+export interface TwilioCallStatusCallback {
+    AccountSid: string;
+    CallSid: string;
+    CallStatus: TwilioCallStatus;
+    From: string;
+    To: string;
+    Direction: string;
+    ApiVersion: string;
+    Timestamp?: string;
+    CallbackSource?: string;
+    SequenceNumber?: string;
+    CallDuration?: string;
+    Duration?: string;
+    ParentCallSid?: string;
+    AnsweredBy?: string;
+    SipResponseCode?: string;
+    ErrorCode?: string;
+    ErrorMessage?: string;
+    [key: string]: string | undefined;
+}
+
+/**
+ * Body of a Twilio Messaging `StatusCallback` request. All values arrive as strings.
+ */
+export interface TwilioMessageStatusCallback {
+    AccountSid: string;
+    MessageSid: string;
+    MessageStatus: TwilioMessageStatus;
+    SmsSid?: string;
+    SmsStatus?: string;
+    From?: string;
+    To?: string;
+    ApiVersion?: string;
+    MessagingServiceSid?: string;
+    ErrorCode?: string;
+    ErrorMessage?: string;
+    RawDlrDoneDate?: string;
+    [key: string]: string | undefined;
+}
+
+/**
+ * Body of a Twilio `recordingStatusCallback` request. All values arrive as strings.
+ */
+export interface TwilioRecordingStatusCallback {
+    AccountSid: string;
+    CallSid: string;
+    RecordingSid: string;
+    RecordingStatus: TwilioRecordingStatus;
+    RecordingUrl?: string;
+    RecordingDuration?: string;
+    RecordingChannels?: string;
+    RecordingSource?: string;
+    RecordingStartTime?: string;
+    ConferenceSid?: string;
+    ErrorCode?: string;
+    [key: string]: string | undefined;
+}
+
+/**
+ * Schema for Twilio Voice call status callbacks
+ */
+export const twilioCallStatusSchema = fieldsSchema<TwilioCallStatusCallback>([
+    { name: 'AccountSid' },
+    { name: 'CallSid' },
+    { name: 'CallStatus', oneOf: TWILIO_CALL_STATUSES }
+]);
+
+/**
+ * Schema for Twilio Messaging status callbacks
+ */
+export const twilioMessageStatusSchema = fieldsSchema<TwilioMessageStatusCallback>([
+    { name: 'AccountSid' },
+    { name: 'MessageSid' },
+    { name: 'MessageStatus', oneOf: TWILIO_MESSAGE_STATUSES }
+]);
+
+/**
+ * Schema for Twilio recording status callbacks
+ */
+export const twilioRecordingStatusSchema = fieldsSchema<TwilioRecordingStatusCallback>([
+    { name: 'AccountSid' },
+    { name: 'CallSid' },
+    { name: 'RecordingSid' },
+    { name: 'RecordingStatus', oneOf: TWILIO_RECORDING_STATUSES }
+]);
@@ -0,0 +1,469 @@
+import { EventEmitter } from 'events';
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { computeTwilioSignature } from '../verification/TwilioSignature.js';
+import { CallbackDeliveryError } from '../CallbackErrors.js';
+
+/**
+ * Defines constants for the event names emitted by CallbackSender.
+ */
+export const CallbackSenderEventNames = {
+    /** Emitted when a callback is accepted by its target */
+    DELIVERED: 'delivered',
+    /** Emitted before waiting to retry a failed attempt */
+    RETRYING: 'retrying',
+    /** Emitted when a callback could not be delivered after all attempts */
+    FAILED: 'failed',
+} as const;
+
+/**
+ * Signature formats produced by {@link CallbackSender}, each matching one of the handler's verifiers:
+ *
+ * - `standard-webhooks`: `webhook-id`, `webhook-timestamp` and `webhook-signature` headers, see {@link StandardWebhooksVerifier}
+ * - `github`: `X-Hub-Signature-256`, see {@link GitHubSignatureVerifier}
+ * - `stripe`: `Stripe-Signature`, see {@link StripeSignatureVerifier}
+ * - `twilio`: `X-Twilio-Signature`, see the handler's `signatureValidation` option
+ */
+export type CallbackSigningScheme = 'standard-webhooks' | 'github' | 'stripe' | 'twilio';
+
+/**
+ * Interface for the `signing` option of {@link CallbackSenderOptions}.
+ */
+export interface CallbackSigningOptions {
+    /** Defaults to `standard-webhooks` */
+    scheme?: CallbackSigningScheme;
+    /**
+     * The shared secret, as given to the receiving verifier: base64 or `whsec_` prefixed for
+     * `standard-webhooks`, the auth token for `twilio`
+     */
+    secret: string;
+    /**
+     * For `twilio`, the URL the receiver validates against when it differs from the one posted to,
+     * e.g. the public callback URL when posting to the local port. Defaults to the target URL.
+     */
+    url?: string;
+}
+
+/**
+ * Retry behaviour for {@link CallbackSender}.
+ */
+export interface SenderRetryOptions {
+    /** Total attempts including the first. Defaults to 5. */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds. Defaults to 500. */
+    initialDelayMs?: number;
+    /** Upper bound for the delay between attempts in milliseconds. Defaults to 30000. */
+    maxDelayMs?: number;
+    /** Multiplier applied to the delay after each failed attempt. Defaults to 2. */
+    factor?: number;
+    /**
+     * Fraction of each delay that is random, from 0 to 1, so that many senders retrying at once
+     * spread out. Defaults to 0.5.
+     */
+    jitter?: number;
+}
+
+/**
+ * How the payload is encoded: `json` or `form` (`application/x-www-form-urlencoded`)
+ */
+export type CallbackPayloadFormat = 'json' | 'form';
+
+/**
+ * Interface for {@link CallbackSender} constructor options.
+ */
+export interface CallbackSenderOptions {
+    /** Default target URL, used when {@link CallbackSender.send} is given none */
+    url?: string;
+    /** Default payload encoding. Defaults to `json`. */
+    format?: CallbackPayloadFormat;
+    /** Sign each request. Defaults to unsigned. */
+    signing?: CallbackSigningOptions;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** Timeout for each attempt in milliseconds. Defaults to 10000. */
+    timeoutMs?: number;
+    /** Retry behaviour, or false to try only once */
+    retry?: SenderRetryOptions | false;
+    /** Number of deliveries kept in the log, oldest dropped first. Defaults to 100. */
+    deliveryLogLimit?: number;
+}
+
+/**
+ * Interface for {@link CallbackSender.send} options.
+ */
+export interface SendOptions {
+    /** Target URL. Defaults to the sender's `url`. */
+    url?: string;
+    /** Payload encoding. Defaults to the sender's `format`. */
+    format?: CallbackPayloadFormat;
+    /**
+     * Identifies the callback across retries and re-sends, sent as `Idempotency-Key` (and as
+     * `webhook-id` when signing with Standard Webhooks). Defaults to a random UUID.
+     */
+    idempotencyKey?: string;
+    /** Extra headers for this request, replacing the sender's headers of the same name */
+    headers?: Record<string, string>;
+}
+
+/**
+ * One attempt to deliver a callback
+ */
+export interface DeliveryAttempt {
+    attempt: number;
+    /** When the attempt started, as an ISO 8601 string */
+    startedAt: string;
+    durationMs: number;
+    /** HTTP status of the reply, or null if there was none */
+    status: number | null;
+    /** Why the attempt failed, if it did */
+    error: string | null;
+}
+
+/**
+ * A callback sent by {@link CallbackSender}, as kept in its delivery log
+ */
+export interface CallbackDelivery {
+    /** The idempotency key */
+    id: string;
+    url: string;
+    format: CallbackPayloadFormat;
+    payload: unknown;
+    state: 'pending' | 'delivered' | 'failed';
+    attempts: DeliveryAttempt[];
+    /** HTTP status of the last reply, or null if there was none */
+    status: number | null;
+    /** Why the delivery failed, if it did */
+    error: string | null;
+    /** When the callback was first sent, as an ISO 8601 string */
+    createdAt: string;
+    /** When it was delivered or given up on, as an ISO 8601 string */
+    completedAt: string | null;
+}
+
+/**
+ * Interface for delivery data emitted by the 'delivered' event.
+ * @see {@link CallbackSenderEventNames.DELIVERED}
+ */
+export interface DeliveredEventData {
+    level: 'info';
+    delivery: CallbackDelivery;
+}
+
+/**
+ * Interface for retry data emitted by the 'retrying' event.
+ * @see {@link CallbackSenderEventNames.RETRYING}
+ */
+export interface RetryingEventData {
+    level: 'warn';
+    delivery: CallbackDelivery;
+    /** The attempt that will be made next */
+    attempt: number;
+    delayMs: number;
+    error: string;
+}
+
+/**
+ * Interface for failure data emitted by the 'failed' event.
+ * @see {@link CallbackSenderEventNames.FAILED}
+ */
+export interface DeliveryFailedEventData {
+    level: 'error';
+    delivery: CallbackDelivery;
+    error: CallbackDeliveryError;
+}
+
+/**
+ * Defines the signatures for the events emitted by CallbackSender.
+ */
+export interface CallbackSenderEvents {
+    [CallbackSenderEventNames.DELIVERED]: (data: DeliveredEventData) => void;
+    [CallbackSenderEventNames.RETRYING]: (data: RetryingEventData) => void;
+    [CallbackSenderEventNames.FAILED]: (data: DeliveryFailedEventData) => void;
+}
+
+/**
+ * Encodes a payload as a form, writing nested values as JSON
+ */
+function toForm(payload: unknown): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(payload ?? {})) {
+        if (value === undefined || value === null) continue;
+        params.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+    return params.toString();
+}
+
+/**
+ * Adds the signature headers of a scheme to a request, and returns the URL to send it to.
+ * Twilio signs JSON bodies through a `bodySHA256` query parameter.
+ */
+function sign(signing: CallbackSigningOptions, url: string, id: string, body: string, format: CallbackPayloadFormat, headers: Record<string, string>): string {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    switch (signing.scheme ?? 'standard-webhooks') {
+        case 'standard-webhooks': {
+            const key = Buffer.from(signing.secret.replace(/^whsec_/, ''), 'base64');
+            const signature = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+            headers['webhook-id'] = id;
+            headers['webhook-timestamp'] = timestamp;
+            headers['webhook-signature'] = `v1,${signature}`;
+            return url;
+        }
+        case 'github':
+            headers['x-hub-signature-256'] = 'sha256=' + createHmac('sha256', signing.secret).update(body).digest('hex');
+            return url;
+        case 'stripe':
+            headers['stripe-signature'] = `t=${timestamp},v1=${createHmac('sha256', signing.secret).update(`${timestamp}.${body}`).digest('hex')}`;
+            return url;
+        case 'twilio': {
+            headers['i-twilio-idempotency-token'] = id;
+            if (format === 'form') {
+                headers['x-twilio-signature'] = computeTwilioSignature(signing.secret, signing.url ?? url, Object.fromEntries(new URLSearchParams(body)));
+                return url;
+            }
+            const bodySHA256 = createHash('sha256').update(body).digest('hex');
+            const [targetUrl, signedUrl] = [new URL(url), new URL(signing.url ?? url)];
+            targetUrl.searchParams.set('bodySHA256', bodySHA256);
+            signedUrl.searchParams.set('bodySHA256', bodySHA256);
+            headers['x-twilio-signature'] = computeTwilioSignature(signing.secret, signedUrl.toString());
+            return targetUrl.toString();
+        }
+        default:
+            throw new Error(`Unknown signing scheme '${signing.scheme}'`);
+    }
+}
+
+/**
+ * CallbackSender Class
+ *
+ * The sending side of a status callback: POSTs JSON or form-encoded payloads to a target URL,
+ * optionally signed in a format the handler's verifiers accept. Network errors, timeouts, 429
+ * and 5xx replies are retried with exponential backoff and jitter; other 4xx replies fail at
+ * once. Every attempt of a callback carries the same idempotency key, and recent deliveries
+ * are kept in a log.
+ *
+ * @example
+ * const secret = 'whsec_' + randomBytes(24).toString('base64');
+ * const handler = new CallbackHandler({ tunnelProvider: new LocalOnlyProvider(), verifiers: [new StandardWebhooksVerifier({ secret })] });
+ * const sender = new CallbackSender({ url: await handler.start(), signing: { secret } });
+ * await sender.send({ taskId: 'task-1', status: 'completed' });
+ *
+ * @extends EventEmitter
+ */
+export class CallbackSender extends EventEmitter {
+    private url?: string;
+    private format: CallbackPayloadFormat;
+    private signing?: CallbackSigningOptions;
+    private headers: Record<string, string>;
+    private timeoutMs: number;
+    private retry: SenderRetryOptions;
+    private deliveryLogLimit: number;
+    private deliveries: CallbackDelivery[] = [];
+    private pendingRetries: Set<() => void> = new Set();
+    private closed = false;
+
+    /**
+     * Creates a new CallbackSender instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: CallbackSenderOptions = {}) {
+        super();
+        this.url = options.url;
+        this.format = options.format ?? 'json';
+        this.signing = options.signing;
+        this.headers = Object.fromEntries(Object.entries(options.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value]));
+        this.timeoutMs = options.timeoutMs ?? 10000;
+        this.retry = options.retry === false ? { maxAttempts: 1 } : (options.retry ?? {});
+        this.deliveryLogLimit = options.deliveryLogLimit ?? 100;
+    }
+
+    /**
+     * Sends a status payload, retrying until it is accepted or the attempts run out
+     *
+     * @param payload The status to send, e.g. `{ taskId, status: 'completed' }`
+     * @param options Target, encoding, idempotency key and headers for this callback
+     * @returns The delivery, once the target answered with a 2xx status
+     * @throws {CallbackDeliveryError} If every attempt failed or the target refused the callback
+     */
+    async send(payload: unknown, options: SendOptions = {}): Promise<CallbackDelivery> {
+        const url = options.url ?? this.url;
+        if (!url) {
+            throw new Error('No callback URL: pass `url` to the sender or to send()');
+        }
+
+        const delivery: CallbackDelivery = {
+            id: options.idempotencyKey ?? randomUUID(),
+            url,
+            format: options.format ?? this.format,
+            payload,
+            state: 'pending',
+            attempts: [],
+            status: null,
+            error: null,
+            createdAt: new Date().toISOString(),
+            completedAt: null
+        };
+        this.deliveries.push(delivery);
+        if (this.deliveries.length > this.deliveryLogLimit) {
+            this.deliveries.splice(0, this.deliveries.length - this.deliveryLogLimit);
+        }
+
+        const maxAttempts = Math.max(1, this.retry.maxAttempts ?? 5);
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const retryable = await this.attempt(delivery, options.headers);
+            if (delivery.state === 'delivered') {
+                this.emit(CallbackSenderEventNames.DELIVERED, { level: 'info', delivery: this.snapshot(delivery) });
+                return this.snapshot(delivery);
+            }
+            if (!retryable || attempt === maxAttempts) break;
+
+            const delayMs = this.retryDelay(attempt);
+            this.emit(CallbackSenderEventNames.RETRYING, { level: 'warn', delivery: this.snapshot(delivery), attempt: attempt + 1, delayMs, error: delivery.error as string });
+            if (!(await this.wait(delayMs))) {
+                delivery.error = 'Sender closed';
+                break;
+            }
+        }
+
+        delivery.state = 'failed';
+        delivery.completedAt = new Date().toISOString();
+        const error = new CallbackDeliveryError(this.snapshot(delivery));
+        this.emit(CallbackSenderEventNames.FAILED, { level: 'error', delivery: this.snapshot(delivery), error });
+        throw error;
+    }
+
+    /**
+     * Makes one attempt, recording it on the delivery
+     *
+     * @returns Whether a failure is worth retrying
+     */
+    private async attempt(delivery: CallbackDelivery, extraHeaders: Record<string, string> = {}): Promise<boolean> {
+        const body = delivery.format === 'form' ? toForm(delivery.payload) : JSON.stringify(delivery.payload ?? {});
+        const headers: Record<string, string> = {
+            'content-type': delivery.format === 'form' ? 'application/x-www-form-urlencoded' : 'application/json',
+            ...this.headers,
+            'idempotency-key': delivery.id
+        };
+        for (const [key, value] of Object.entries(extraHeaders)) {
+            headers[key.toLowerCase()] = value;
+        }
+        // Signed afresh on each attempt so the timestamp stays within the receiver's tolerance
+        const url = this.signing ? sign(this.signing, delivery.url, delivery.id, body, delivery.format, headers) : delivery.url;
+
+        const startedAt = new Date();
+        let status: number | null = null;
+        let error: string | null = null;
+        let retryable = false;
+        try {
+            const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(this.timeoutMs) });
+            await response.arrayBuffer().catch(() => undefined);
+            status = response.status;
+            if (!response.ok) {
+                error = `Target responded with ${status}`;
+                retryable = status >= 500 || status === 429;
+            }
+        } catch (caught) {
+            const timedOut = caught instanceof Error && caught.name === 'TimeoutError';
+            error = timedOut ? `Timed out after ${this.timeoutMs}ms` : String(caught instanceof Error ? caught.message : caught);
+            retryable = true;
+        }
+
+        delivery.attempts.push({ attempt: delivery.attempts.length + 1, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime(), status, error });
+        delivery.status = status;
+        delivery.error = error;
+        if (error === null) {
+            delivery.state = 'delivered';
+            delivery.completedAt = new Date().toISOString();
+        }
+        return retryable;
+    }
+
+    /**
+     * Returns the backoff before the attempt after `attempt`, with part of it randomized
+     */
+    private retryDelay(attempt: number): number {
+        const delay = Math.min(
+            (this.retry.initialDelayMs ?? 500) * Math.pow(this.retry.factor ?? 2, attempt - 1),
+            this.retry.maxDelayMs ?? 30000
+        );
+        const jitter = Math.min(Math.max(this.retry.jitter ?? 0.5, 0), 1);
+        return Math.round(delay * (1 - jitter * Math.random()));
+    }
+
+    private snapshot(delivery: CallbackDelivery): CallbackDelivery {
+        return { ...delivery, attempts: [...delivery.attempts] };
+    }
+
+    /**
+     * Returns the logged deliveries, oldest first
+     */
+    getDeliveries(): CallbackDelivery[] {
+        return this.deliveries.map((delivery) => this.snapshot(delivery));
+    }
+
+    /**
+     * Returns a logged delivery by its idempotency key
+     *
+     * @param id The idempotency key
+     */
+    getDelivery(id: string): CallbackDelivery | undefined {
+        const delivery = this.deliveries.find((candidate) => candidate.id === id);
+        return delivery ? this.snapshot(delivery) : undefined;
+    }
+
+    /**
+     * Empties the delivery log
+     */
+    clearDeliveries(): void {
+        this.deliveries = [];
+    }
+
+    /**
+     * Allows retries again after {@link close}
+     */
+    open(): void {
+        this.closed = false;
+    }
+
+    /**
+     * Cancels pending retries. Deliveries waiting for one fail with a {@link CallbackDeliveryError}.
+     */
+    close(): void {
+        this.closed = true;
+        for (const cancel of [...this.pendingRetries]) {
+            cancel();
+        }
+    }
+
+    /**
+     * Waits for `ms`, resolving false early if the sender is closed
+     */
+    private wait(ms: number): Promise<boolean> {
+        if (this.closed) return Promise.resolve(false);
+        return new Promise((resolve) => {
+            const cancel = () => {
+                clearTimeout(timer);
+                this.pendingRetries.delete(cancel);
+                resolve(false);
+            };
+            const timer = setTimeout(() => {
+                this.pendingRetries.delete(cancel);
+                resolve(true);
+            }, ms);
+            this.pendingRetries.add(cancel);
+        });
+    }
+
+    // --- Type-safe EventEmitter Overrides ---
+
+    on<E extends keyof CallbackSenderEvents>(event: E, listener: CallbackSenderEvents[E]): this {
+        return super.on(event, listener as any);
+    }
+
+    once<E extends keyof CallbackSenderEvents>(event: E, listener: CallbackSenderEvents[E]): this {
+        return super.once(event, listener as any);
+    }
+
+    emit<E extends keyof CallbackSenderEvents>(event: E, ...args: Parameters<CallbackSenderEvents[E]>): boolean {
+        return super.emit(event, ...args);
+    }
+}
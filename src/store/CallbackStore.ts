@@ -0,0 +1,80 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * A callback as recorded by a {@link CallbackStore}.
+ */
+export interface StoredCallback {
+    /** Unique identifier of the record, the {@link CallbackEventData.receiptId} of the callback */
+    id: string;
+    /** When the callback was received, as an ISO 8601 string */
+    receivedAt: string;
+    /** Route the callback arrived on */
+    route: string;
+    /** Identifier of the named route, or null for the plain /callback endpoint */
+    callbackId: string | null;
+    headers: IncomingHttpHeaders;
+    /** HTTP method of the request. Missing in records written by older versions. */
+    method?: string;
+    /** Path and query string of the request */
+    url?: string;
+    sourceIp?: string | null;
+    contentType?: string | null;
+    /** The unparsed request body, base64 encoded */
+    rawBody?: string;
+    queryParameters: any;
+    body: any;
+    /** Set when the delivery was suppressed as a duplicate and not emitted */
+    duplicate?: boolean;
+}
+
+/**
+ * Filter for {@link CallbackStore.query}.
+ */
+export interface CallbackQuery {
+    /** Only callbacks received at or after this time */
+    since?: Date | number | string;
+    /** Only callbacks on this route */
+    route?: string;
+    /** Return at most this many callbacks (the most recent ones) */
+    limit?: number;
+}
+
+/**
+ * Filter for {@link CallbackHandler.replay}.
+ */
+export interface ReplayQuery extends CallbackQuery {
+    /** Also replay deliveries that were suppressed as duplicates. Defaults to false. */
+    includeDuplicates?: boolean;
+}
+
+/**
+ * A CallbackStore records every callback the handler receives, giving an audit trail and
+ * letting missed callbacks be replayed with {@link CallbackHandler.replay}.
+ */
+export interface CallbackStore {
+    /**
+     * Records a received callback
+     */
+    append(record: StoredCallback): Promise<void>;
+
+    /**
+     * Returns stored callbacks in the order they were received
+     */
+    query(query?: CallbackQuery): Promise<StoredCallback[]>;
+}
+
+/**
+ * Applies a {@link CallbackQuery} to records that are already in receive order
+ *
+ * @param records The records to filter
+ * @param query The filter to apply
+ * @returns The matching records
+ */
+export function filterStoredCallbacks(records: StoredCallback[], query: CallbackQuery = {}): StoredCallback[] {
+    const since = query.since !== undefined ? new Date(query.since).getTime() : undefined;
+    const matching = records.filter((record) =>
+        (since === undefined || new Date(record.receivedAt).getTime() >= since) &&
+        (query.route === undefined || record.route === query.route)
+    );
+    return query.limit !== undefined ? matching.slice(Math.max(0, matching.length - query.limit)) : matching;
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import { CallbackQuery, CallbackStore, StoredCallback, filterStoredCallbacks } from './CallbackStore.js';
+
+/**
+ * Interface for {@link JsonlFileCallbackStore} constructor options.
+ */
+export interface JsonlFileCallbackStoreOptions {
+    /** Path of the journal file. It is created on the first callback if it does not exist. */
+    path: string;
+}
+
+/**
+ * JsonlFileCallbackStore Class
+ *
+ * Appends each callback as one JSON line to a journal file, so callbacks survive a restart
+ * and can be replayed later or inspected with standard tools.
+ */
+export class JsonlFileCallbackStore implements CallbackStore {
+    readonly path: string;
+    // Appends are chained so that concurrent callbacks never interleave their lines
+    private pending: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new JsonlFileCallbackStore instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: JsonlFileCallbackStoreOptions) {
+        this.path = options.path;
+    }
+
+    append(record: StoredCallback): Promise<void> {
+        const line = JSON.stringify(record) + '\n';
+        const write = this.pending.then(() => fs.appendFile(this.path, line, 'utf8'));
+        this.pending = write.catch(() => undefined);
+        return write;
+    }
+
+    async query(query?: CallbackQuery): Promise<StoredCallback[]> {
+        await this.pending;
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const records: StoredCallback[] = [];
+        for (const line of contents.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // Skip partial lines, e.g. from a crash mid-write
+            }
+        }
+        return filterStoredCallbacks(records, query);
+    }
+}
@@ -0,0 +1,40 @@
+import { CallbackQuery, CallbackStore, StoredCallback, filterStoredCallbacks } from './CallbackStore.js';
+
+/**
+ * Interface for {@link MemoryCallbackStore} constructor options.
+ */
+export interface MemoryCallbackStoreOptions {
+    /** Number of callbacks kept before the oldest are dropped. Defaults to 1000. */
+    capacity?: number;
+}
+
+/**
+ * MemoryCallbackStore Class
+ *
+ * Keeps the most recent callbacks in an in-memory ring buffer. Nothing survives a restart,
+ * but callbacks that arrived while no listener was attached can still be replayed.
+ */
+export class MemoryCallbackStore implements CallbackStore {
+    private capacity: number;
+    private records: StoredCallback[] = [];
+
+    /**
+     * Creates a new MemoryCallbackStore instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: MemoryCallbackStoreOptions = {}) {
+        this.capacity = options.capacity ?? 1000;
+    }
+
+    async append(record: StoredCallback): Promise<void> {
+        this.records.push(record);
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity);
+        }
+    }
+
+    async query(query?: CallbackQuery): Promise<StoredCallback[]> {
+        return filterStoredCallbacks(this.records, query);
+    }
+}
@@ -0,0 +1,95 @@
+import { TunnelProvider, TunnelProviderStatus } from '../tunnels/TunnelProvider.js';
+
+/**
+ * Interface for {@link FakeTunnelProvider} constructor options.
+ */
+export interface FakeTunnelProviderOptions {
+    /**
+     * Public base URL reported by the fake tunnel. Use a list to hand out a new URL on each
+     * connect, e.g. to test reconnects. Defaults to `https://fake-tunnel.test`.
+     */
+    publicUrl?: string | string[];
+}
+
+/**
+ * FakeTunnelProvider Class
+ *
+ * A {@link TunnelProvider} for unit tests. It opens nothing and reports a made-up public URL,
+ * while the handler keeps listening on its real local port. Use {@link simulateCallback} to
+ * send requests that look as if they came through the tunnel, and {@link fail} or
+ * {@link failNextConnect} to exercise reconnect handling.
+ *
+ * @example
+ * const tunnel = new FakeTunnelProvider();
+ * const handler = new CallbackHandler({ tunnelProvider: tunnel, port: 0 });
+ * await handler.start(); // https://fake-tunnel.test/callback
+ */
+export class FakeTunnelProvider implements TunnelProvider {
+    private publicUrls: string[];
+    private currentUrl: string | null = null;
+    private currentStatus: TunnelProviderStatus = 'disconnected';
+    private onStatusChange?: (status: string) => void;
+    private connectErrors: Error[] = [];
+    /** Number of times {@link connect} has been called */
+    connectCount = 0;
+    /** The local port passed to the last {@link connect} */
+    port: number | null = null;
+
+    /**
+     * Creates a new FakeTunnelProvider instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: FakeTunnelProviderOptions = {}) {
+        const publicUrl = options.publicUrl ?? 'https://fake-tunnel.test';
+        this.publicUrls = (Array.isArray(publicUrl) ? publicUrl : [publicUrl]).map((url) => url.replace(/\/+$/, ''));
+    }
+
+    async connect(port: number, onStatusChange?: (status: string) => void): Promise<string> {
+        this.connectCount++;
+        this.port = port;
+        this.onStatusChange = onStatusChange;
+
+        const error = this.connectErrors.shift();
+        if (error) {
+            this.currentStatus = 'error';
+            throw error;
+        }
+
+        this.currentUrl = this.publicUrls[Math.min(this.connectCount - 1, this.publicUrls.length - 1)];
+        this.currentStatus = 'connected';
+        return this.currentUrl;
+    }
+
+    async close(): Promise<void> {
+        this.currentUrl = null;
+        this.currentStatus = 'disconnected';
+    }
+
+    url(): string | null {
+        return this.currentUrl;
+    }
+
+    status(): TunnelProviderStatus {
+        return this.currentStatus;
+    }
+
+    /**
+     * Simulates the tunnel dropping, as a provider status message would report it
+     *
+     * @param status The status to report. Defaults to `error`.
+     */
+    fail(status: 'error' | 'disconnected' = 'error'): void {
+        this.currentStatus = status;
+        this.onStatusChange?.(status);
+    }
+
+    /**
+     * Makes the next call to {@link connect} fail
+     *
+     * @param error The error to reject with
+     */
+    failNextConnect(error: Error = new Error('Fake tunnel connect failed')): void {
+        this.connectErrors.push(error);
+    }
+}
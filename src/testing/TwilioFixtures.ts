@@ -0,0 +1,147 @@
+import {
+    TwilioCallStatus,
+    TwilioCallStatusCallback,
+    TwilioMessageStatus,
+    TwilioMessageStatusCallback,
+    TwilioRecordingStatus,
+    TwilioRecordingStatusCallback
+} from '../schemas/TwilioCallbacks.js';
+
+/** Account SID used by the fixtures */
+export const TEST_ACCOUNT_SID = 'AC00000000000000000000000000000000';
+/** Call SID used by the call and recording fixtures */
+export const TEST_CALL_SID = 'CA00000000000000000000000000000000';
+/** Message SID used by the message fixtures */
+export const TEST_MESSAGE_SID = 'SM00000000000000000000000000000000';
+/** Recording SID used by the recording fixtures */
+export const TEST_RECORDING_SID = 'RE00000000000000000000000000000000';
+
+/**
+ * Names of the Twilio fixture presets, e.g. `twilio-call-completed`
+ */
+export type TwilioFixturePreset =
+    | `twilio-call-${TwilioCallStatus}`
+    | `twilio-message-${TwilioMessageStatus}`
+    | `twilio-recording-${TwilioRecordingStatus}`;
+
+/**
+ * Status sequences Twilio sends for common outcomes, in delivery order
+ */
+export const TWILIO_STATUS_SEQUENCES = {
+    'call-completed': ['twilio-call-initiated', 'twilio-call-ringing', 'twilio-call-in-progress', 'twilio-call-completed'],
+    'call-busy': ['twilio-call-initiated', 'twilio-call-ringing', 'twilio-call-busy'],
+    'call-no-answer': ['twilio-call-initiated', 'twilio-call-ringing', 'twilio-call-no-answer'],
+    'call-failed': ['twilio-call-initiated', 'twilio-call-failed'],
+    'message-delivered': ['twilio-message-queued', 'twilio-message-sent', 'twilio-message-delivered'],
+    'message-undelivered': ['twilio-message-queued', 'twilio-message-sent', 'twilio-message-undelivered'],
+    'message-failed': ['twilio-message-queued', 'twilio-message-failed']
+} as const satisfies Record<string, readonly TwilioFixturePreset[]>;
+
+export type TwilioStatusSequence = keyof typeof TWILIO_STATUS_SEQUENCES;
+
+const PREFIXES = ['twilio-call-', 'twilio-message-', 'twilio-recording-'] as const;
+
+function callFixture(status: TwilioCallStatus): TwilioCallStatusCallback {
+    const body: TwilioCallStatusCallback = {
+        AccountSid: TEST_ACCOUNT_SID,
+        CallSid: TEST_CALL_SID,
+        CallStatus: status,
+        From: '+15005550006',
+        To: '+15005550001',
+        Direction: 'outbound-api',
+        ApiVersion: '2010-04-01',
+        CallbackSource: 'call-progress-events',
+        Timestamp: new Date().toUTCString()
+    };
+    if (status === 'completed') {
+        body.CallDuration = '42';
+        body.Duration = '1';
+    }
+    if (status === 'failed') {
+        body.ErrorCode = '32009';
+        body.ErrorMessage = 'Call could not be placed';
+    }
+    return body;
+}
+
+function messageFixture(status: TwilioMessageStatus): TwilioMessageStatusCallback {
+    const body: TwilioMessageStatusCallback = {
+        AccountSid: TEST_ACCOUNT_SID,
+        MessageSid: TEST_MESSAGE_SID,
+        MessageStatus: status,
+        SmsSid: TEST_MESSAGE_SID,
+        SmsStatus: status,
+        From: '+15005550006',
+        To: '+15005550001',
+        ApiVersion: '2010-04-01'
+    };
+    if (status === 'undelivered' || status === 'failed') {
+        body.ErrorCode = '30003';
+    }
+    return body;
+}
+
+function recordingFixture(status: TwilioRecordingStatus): TwilioRecordingStatusCallback {
+    const body: TwilioRecordingStatusCallback = {
+        AccountSid: TEST_ACCOUNT_SID,
+        CallSid: TEST_CALL_SID,
+        RecordingSid: TEST_RECORDING_SID,
+        RecordingStatus: status,
+        RecordingSource: 'OutboundAPI',
+        RecordingChannels: '1'
+    };
+    if (status === 'completed') {
+        body.RecordingUrl = `https://api.twilio.com/2010-04-01/Accounts/${TEST_ACCOUNT_SID}/Recordings/${TEST_RECORDING_SID}`;
+        body.RecordingDuration = '42';
+        body.RecordingStartTime = new Date().toUTCString();
+    }
+    return body;
+}
+
+/**
+ * Builds the body Twilio would send for a preset, as form fields
+ *
+ * @param preset The preset, e.g. `twilio-call-completed` or `twilio-message-delivered`
+ * @param overrides Fields to add or replace
+ * @returns The callback body
+ * @throws If the preset is unknown
+ */
+export function twilioFixture(preset: TwilioFixturePreset, overrides: Record<string, string> = {}): Record<string, string> {
+    const [prefix] = PREFIXES.filter((candidate) => preset.startsWith(candidate));
+    const status = prefix ? preset.slice(prefix.length) : '';
+    let body: Record<string, string | undefined>;
+    switch (prefix) {
+        case 'twilio-call-':
+            body = callFixture(status as TwilioCallStatus);
+            break;
+        case 'twilio-message-':
+            body = messageFixture(status as TwilioMessageStatus);
+            break;
+        case 'twilio-recording-':
+            body = recordingFixture(status as TwilioRecordingStatus);
+            break;
+        default:
+            throw new Error(`Unknown fixture preset: ${preset}`);
+    }
+
+    const fixture: Record<string, string> = {};
+    for (const [name, value] of Object.entries({ ...body, ...overrides })) {
+        if (value !== undefined) fixture[name] = value;
+    }
+    return fixture;
+}
+
+/**
+ * Builds the bodies of a whole status sequence. Call callbacks are numbered with `SequenceNumber`
+ * as Twilio does, so ordering logic can be tested by sending them shuffled.
+ *
+ * @param sequence The sequence, e.g. `call-completed`
+ * @param overrides Fields to add or replace in every body
+ * @returns The callback bodies in delivery order
+ */
+export function twilioSequence(sequence: TwilioStatusSequence, overrides: Record<string, string> = {}): Record<string, string>[] {
+    return TWILIO_STATUS_SEQUENCES[sequence].map((preset, index) => twilioFixture(preset, {
+        ...(preset.startsWith('twilio-call-') ? { SequenceNumber: String(index) } : {}),
+        ...overrides
+    }));
+}
@@ -0,0 +1,25 @@
+/**
+ * Test helpers, published as `@deshartman/mcp-status-callback/testing`.
+ *
+ * Run a {@link CallbackHandler} offline with a {@link FakeTunnelProvider} and drive it with
+ * {@link simulateCallback} and the Twilio fixtures.
+ */
+export { FakeTunnelProvider, FakeTunnelProviderOptions } from './FakeTunnelProvider.js';
+export {
+    simulateCallback,
+    SimulateCallbackOptions,
+    SimulatedCallbackResult,
+    SimulatedCallbackSigning,
+    SimulatedCallbackTls
+} from './simulateCallback.js';
+export {
+    twilioFixture,
+    twilioSequence,
+    TwilioFixturePreset,
+    TwilioStatusSequence,
+    TWILIO_STATUS_SEQUENCES,
+    TEST_ACCOUNT_SID,
+    TEST_CALL_SID,
+    TEST_MESSAGE_SID,
+    TEST_RECORDING_SID
+} from './TwilioFixtures.js';
@@ -0,0 +1,210 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { CallbackEventData, CallbackHandler, CallbackHandlerEventNames } from '../CallbackHandler.js';
+import { CallbackRoute } from '../routes/CallbackRoute.js';
+import { computeTwilioSignature } from '../verification/TwilioSignature.js';
+import { TwilioFixturePreset, twilioFixture } from './TwilioFixtures.js';
+
+/**
+ * Secrets used to sign a simulated callback. Each one given adds that provider's signature headers.
+ */
+export interface SimulatedCallbackSigning {
+    /** Twilio auth token, for `X-Twilio-Signature` */
+    twilio?: string;
+    /** Stripe endpoint secret, for `Stripe-Signature` */
+    stripe?: string;
+    /** GitHub webhook secret, for `X-Hub-Signature-256` */
+    github?: string;
+    /** Standard Webhooks secret, for the `webhook-*` headers */
+    standardWebhooks?: string;
+}
+
+/**
+ * How a simulated callback connects to a handler serving HTTPS
+ */
+export interface SimulatedCallbackTls {
+    /** PEM encoded CA certificates to trust, e.g. the handler's self-signed certificate */
+    ca?: string | Buffer | Array<string | Buffer>;
+    /** PEM encoded client certificate, for handlers that require one (`https.clientCa`) */
+    cert?: string | Buffer;
+    /** PEM encoded private key of `cert` */
+    key?: string | Buffer;
+    /** Whether to refuse a server certificate that `ca` does not cover. Defaults to true. */
+    rejectUnauthorized?: boolean;
+}
+
+/**
+ * Interface for {@link simulateCallback} options.
+ */
+export interface SimulateCallbackOptions {
+    /** A fixture preset to send, e.g. `twilio-call-completed`. Its body is form encoded by default. */
+    preset?: TwilioFixturePreset;
+    /** Fields merged over the preset's body */
+    overrides?: Record<string, string>;
+    /** The body to send instead of a preset. Strings and Buffers are sent as is. */
+    body?: any;
+    /** How object bodies are encoded. Defaults to `form` for presets and `json` otherwise. */
+    encoding?: 'form' | 'json';
+    /** Query parameters to add to the URL */
+    query?: Record<string, string>;
+    /** The named route to call, or the plain /callback endpoint if omitted */
+    route?: CallbackRoute<any>;
+    /** HTTP method. Defaults to `POST`. */
+    method?: string;
+    /** Extra request headers */
+    headers?: Record<string, string>;
+    /** Secrets to sign the request with */
+    sign?: SimulatedCallbackSigning;
+    /** Host the request is sent to. Defaults to `127.0.0.1`. */
+    host?: string;
+    /** Certificates to trust and present when the handler serves HTTPS */
+    tls?: SimulatedCallbackTls;
+}
+
+/**
+ * Result of {@link simulateCallback}
+ */
+export interface SimulatedCallbackResult {
+    /** HTTP status of the handler's reply */
+    status: number;
+    headers: Headers;
+    /** Body of the handler's reply */
+    body: string;
+    /** The data emitted on the 'callback' event, if the request got that far */
+    callback?: CallbackEventData;
+}
+
+/**
+ * Sends a callback to a started handler over real HTTP, as if a provider had sent it through the tunnel.
+ *
+ * The request goes to the handler's local port, over HTTPS if the handler serves it, while
+ * signatures are computed over the public URL the handler expects, so signature validation and
+ * verifiers run exactly as in production.
+ *
+ * @param handler A started handler, usually with a {@link FakeTunnelProvider}
+ * @param options What to send and how to sign it
+ * @returns The reply and, if the callback was accepted, its event data
+ * @throws If the handler has not been started
+ *
+ * @example
+ * const result = await simulateCallback(handler, {
+ *   preset: 'twilio-call-completed',
+ *   overrides: { CallDuration: '7' },
+ *   sign: { twilio: authToken }
+ * });
+ * assert.equal(result.status, 200);
+ */
+export async function simulateCallback(handler: CallbackHandler<any>, options: SimulateCallbackOptions = {}): Promise<SimulatedCallbackResult> {
+    const port = handler.getLocalPort();
+    const callbackUrl = options.route ? options.route.url : handler.getCallbackUrl();
+    if (port === null || !callbackUrl) {
+        throw new Error('Handler has not been started');
+    }
+
+    const method = (options.method ?? 'POST').toUpperCase();
+    const publicUrl = new URL(callbackUrl);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+        publicUrl.searchParams.append(name, value);
+    }
+
+    const headers: Record<string, string> = {};
+    let body: Buffer | undefined;
+    let params: Record<string, string> = {};
+    const source = options.preset ? twilioFixture(options.preset, options.overrides) : options.body;
+    const payload = { ...source, ...options.overrides };
+    if (method === 'GET' || method === 'HEAD') {
+        // Providers configured for GET send the fields as query parameters
+        if (source !== undefined && typeof source === 'object' && !Buffer.isBuffer(source)) {
+            for (const [name, value] of Object.entries(payload)) {
+                publicUrl.searchParams.append(name, String(value));
+            }
+        }
+    } else if (typeof source === 'string') {
+        body = Buffer.from(source);
+    } else if (Buffer.isBuffer(source)) {
+        body = source;
+    } else if ((options.encoding ?? (options.preset ? 'form' : 'json')) === 'form') {
+        params = Object.fromEntries(Object.entries(payload).map(([name, value]) => [name, String(value)]));
+        body = Buffer.from(new URLSearchParams(params).toString());
+        headers['content-type'] = 'application/x-www-form-urlencoded';
+    } else {
+        body = Buffer.from(JSON.stringify(payload));
+        headers['content-type'] = 'application/json';
+    }
+    Object.assign(headers, options.headers);
+
+    const sign = options.sign ?? {};
+    if (sign.twilio) {
+        // Twilio signs JSON bodies through a bodySHA256 query parameter instead of the form fields
+        const isForm = headers['content-type']?.includes('application/x-www-form-urlencoded');
+        if (body && !isForm) {
+            publicUrl.searchParams.set('bodySHA256', createHash('sha256').update(body).digest('hex'));
+        }
+        headers['x-twilio-signature'] = computeTwilioSignature(sign.twilio, publicUrl.toString(), isForm ? params : {});
+    }
+    const rawBody = body ?? Buffer.alloc(0);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    if (sign.stripe) {
+        const signature = createHmac('sha256', sign.stripe).update(`${timestamp}.`).update(rawBody).digest('hex');
+        headers['stripe-signature'] = `t=${timestamp},v1=${signature}`;
+    }
+    if (sign.github) {
+        headers['x-hub-signature-256'] = 'sha256=' + createHmac('sha256', sign.github).update(rawBody).digest('hex');
+    }
+    if (sign.standardWebhooks) {
+        const id = `msg_${randomUUID()}`;
+        const key = Buffer.from(sign.standardWebhooks.replace(/^whsec_/, ''), 'base64');
+        const signature = createHmac('sha256', key).update(`${id}.${timestamp}.`).update(rawBody).digest('base64');
+        headers['webhook-id'] = id;
+        headers['webhook-timestamp'] = timestamp;
+        headers['webhook-signature'] = `v1,${signature}`;
+    }
+
+    // Tag the request so its callback event can be picked out from any others
+    const simulationId = randomUUID();
+    headers['x-simulated-callback'] = simulationId;
+    let callback: CallbackEventData | undefined;
+    const onCallback = (data: CallbackEventData) => {
+        if (data.headers['x-simulated-callback'] === simulationId) callback = data;
+    };
+    handler.on(CallbackHandlerEventNames.CALLBACK, onCallback);
+
+    try {
+        const protocol = handler.getHub().getProtocol();
+        const localUrl = `${protocol}://${options.host ?? '127.0.0.1'}:${port}${publicUrl.pathname}${publicUrl.search}`;
+        const response = await send(localUrl, { method, headers, body, ...(protocol === 'https' ? options.tls : {}) });
+        return { ...response, callback };
+    } finally {
+        handler.removeListener(CallbackHandlerEventNames.CALLBACK, onCallback);
+    }
+}
+
+/**
+ * Sends one request with `http` or `https`, which unlike `fetch` can trust a given CA
+ */
+function send(url: string, options: https.RequestOptions & { body?: Buffer }): Promise<Omit<SimulatedCallbackResult, 'callback'>> {
+    const { body, ...requestOptions } = options;
+    if (body) {
+        requestOptions.headers = { ...requestOptions.headers, 'content-length': String(body.length) };
+    }
+    const request = url.startsWith('https:') ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+        const req = request(url, requestOptions, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('error', reject);
+            res.on('end', () => {
+                const headers = new Headers();
+                for (const [name, value] of Object.entries(res.headers)) {
+                    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+                        headers.append(name, item);
+                    }
+                }
+                resolve({ status: res.statusCode ?? 0, headers, body: Buffer.concat(chunks).toString('utf8') });
+            });
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
@@ -0,0 +1,51 @@
+import { ServerOptions } from 'https';
+import { SelfSignedCertificateOptions, generateSelfSignedCertificate } from './SelfSignedCertificate.js';
+
+/**
+ * Interface for the `https` option of {@link CallbackHandlerOptions} and {@link CallbackHubOptions}.
+ * Give either `cert` and `key`, or `selfSigned`.
+ */
+export interface HttpsOptions {
+    /** PEM encoded certificate chain */
+    cert?: string | Buffer;
+    /** PEM encoded private key */
+    key?: string | Buffer;
+    /** Passphrase of an encrypted `key` */
+    passphrase?: string;
+    /**
+     * Generate a self-signed certificate, for development. Pass options to set the host
+     * names it covers. Ignored when `cert` and `key` are given.
+     * @see {@link generateSelfSignedCertificate}
+     */
+    selfSigned?: boolean | SelfSignedCertificateOptions;
+    /**
+     * PEM encoded CA certificates that client certificates must be signed by. When set, clients
+     * without a valid certificate are refused during the TLS handshake (mutual TLS).
+     */
+    clientCa?: string | Buffer | Array<string | Buffer>;
+}
+
+/**
+ * Turns {@link HttpsOptions} into options for `https.createServer()`
+ *
+ * @param options The certificate, key and client verification settings
+ * @throws If neither a certificate and key nor `selfSigned` are given
+ */
+export function createHttpsServerOptions(options: HttpsOptions): ServerOptions {
+    let cert = options.cert;
+    let key = options.key;
+    if (cert === undefined || key === undefined) {
+        if (!options.selfSigned) {
+            throw new Error('HTTPS requires `cert` and `key`, or `selfSigned`');
+        }
+        ({ cert, key } = generateSelfSignedCertificate(options.selfSigned === true ? {} : options.selfSigned));
+    }
+
+    const serverOptions: ServerOptions = { cert, key, passphrase: options.passphrase };
+    if (options.clientCa !== undefined) {
+        serverOptions.ca = options.clientCa;
+        serverOptions.requestCert = true;
+        serverOptions.rejectUnauthorized = true;
+    }
+    return serverOptions;
+}
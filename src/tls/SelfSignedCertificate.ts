@@ -0,0 +1,125 @@
+import { generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { isIP } from 'net';
+
+/**
+ * Interface for {@link generateSelfSignedCertificate} options.
+ */
+export interface SelfSignedCertificateOptions {
+    /** Host names and IP addresses the certificate is valid for. Defaults to `localhost`, `127.0.0.1` and `::1`. */
+    hostnames?: string[];
+    /** How long the certificate is valid, in days. Defaults to 30. */
+    days?: number;
+    /** Common name of the subject and issuer. Defaults to `mcp-status-callback`. */
+    commonName?: string;
+}
+
+/**
+ * A PEM encoded certificate and its private key
+ */
+export interface SelfSignedCertificate {
+    cert: string;
+    key: string;
+}
+
+// --- Minimal DER encoding, enough for one X.509 certificate ---
+
+function derLength(length: number): Buffer {
+    if (length < 0x80) return Buffer.from([length]);
+    const bytes: number[] = [];
+    for (let remaining = length; remaining > 0; remaining >>= 8) {
+        bytes.unshift(remaining & 0xff);
+    }
+    return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+    const body = Buffer.concat(contents);
+    return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...contents: Buffer[]) => der(0x30, ...contents);
+
+function oid(dotted: string): Buffer {
+    const [first, second, ...rest] = dotted.split('.').map(Number);
+    const bytes = [first * 40 + second];
+    for (const value of rest) {
+        const encoded = [value & 0x7f];
+        for (let remaining = value >> 7; remaining > 0; remaining >>= 7) {
+            encoded.unshift((remaining & 0x7f) | 0x80);
+        }
+        bytes.push(...encoded);
+    }
+    return der(0x06, Buffer.from(bytes));
+}
+
+function utcTime(date: Date): Buffer {
+    // UTCTime covers 1950 to 2049, GeneralizedTime everything after
+    const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+    return date.getUTCFullYear() < 2050 ? der(0x17, Buffer.from(iso.slice(2))) : der(0x18, Buffer.from(iso));
+}
+
+function ipBytes(address: string): Buffer {
+    if (isIP(address) === 4) {
+        return Buffer.from(address.split('.').map(Number));
+    }
+    // Expand `::` so the address has eight groups
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+    const groups = address.includes('::')
+        ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+        : headGroups;
+    return Buffer.from(groups.flatMap((group) => {
+        const value = parseInt(group, 16);
+        return [value >> 8, value & 0xff];
+    }));
+}
+
+/**
+ * Generates a self-signed certificate with an ECDSA P-256 key, for serving HTTPS during development.
+ * Clients must be told to trust it, e.g. with `NODE_EXTRA_CA_CERTS` or curl's `--cacert`.
+ *
+ * @param options Host names, validity and common name
+ * @returns The PEM encoded certificate and private key
+ */
+export function generateSelfSignedCertificate(options: SelfSignedCertificateOptions = {}): SelfSignedCertificate {
+    const hostnames = options.hostnames ?? ['localhost', '127.0.0.1', '::1'];
+    const days = options.days ?? 30;
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+    const name = sequence(der(0x31, sequence(oid('2.5.4.3'), der(0x0c, Buffer.from(options.commonName ?? 'mcp-status-callback')))));
+    const ecdsaWithSha256 = sequence(oid('1.2.840.10045.4.3.2'));
+    const notBefore = new Date(Date.now() - 60 * 1000);
+    const notAfter = new Date(notBefore.getTime() + days * 24 * 60 * 60 * 1000);
+
+    // Serial numbers are positive and minimally encoded: top bit clear, first byte not zero
+    const serial = randomBytes(16);
+    serial[0] = (serial[0] & 0x7f) | 0x40;
+
+    const alternativeNames = hostnames.map((hostname) => isIP(hostname)
+        ? der(0x87, ipBytes(hostname))
+        : der(0x82, Buffer.from(hostname)));
+    const extensions = der(0xa3, sequence(
+        sequence(oid('2.5.29.19'), der(0x04, sequence())),
+        sequence(oid('2.5.29.17'), der(0x04, sequence(...alternativeNames)))
+    ));
+
+    const tbsCertificate = sequence(
+        der(0xa0, der(0x02, Buffer.from([2]))),
+        der(0x02, serial),
+        ecdsaWithSha256,
+        name,
+        sequence(utcTime(notBefore), utcTime(notAfter)),
+        name,
+        publicKey.export({ type: 'spki', format: 'der' }),
+        extensions
+    );
+    const signature = sign('sha256', tbsCertificate, privateKey);
+    const certificate = sequence(tbsCertificate, ecdsaWithSha256, der(0x03, Buffer.from([0]), signature));
+
+    const base64 = certificate.toString('base64').match(/.{1,64}/g)?.join('\n');
+    return {
+        cert: `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`,
+        key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+    };
+}
@@ -0,0 +1,336 @@
+import { EventEmitter } from 'events';
+import { CallbackEventData, CallbackHandler, CallbackHandlerEventNames } from '../CallbackHandler.js';
+import { CallbackTimeoutError } from '../CallbackErrors.js';
+
+/**
+ * Defines constants for the event names emitted by StatusTracker.
+ */
+export const StatusTrackerEventNames = {
+    /** Emitted when a call or message moves to a new current status */
+    STATUS_CHANGED: 'statusChanged',
+    /** Emitted once per call or message when it reaches a final status */
+    TERMINAL: 'terminal',
+} as const;
+
+/**
+ * Kinds of Twilio resources followed by {@link StatusTracker}
+ */
+export type TrackedResourceKind = 'call' | 'message';
+
+/**
+ * One status callback for a tracked resource
+ */
+export interface StatusUpdate {
+    status: string;
+    /** `SequenceNumber` of a call callback, or null if it had none */
+    sequenceNumber: number | null;
+    /** `Timestamp` of the callback as an ISO 8601 string, or null if it had none */
+    timestamp: string | null;
+    /** When the callback was received, as an ISO 8601 string */
+    receivedAt: string;
+    /** The callback that carried the update */
+    callback: CallbackEventData;
+}
+
+/**
+ * The known state of a call or message
+ */
+export interface TrackedResource {
+    /** The CallSid or MessageSid */
+    sid: string;
+    kind: TrackedResourceKind;
+    /** The latest status in lifecycle order, not necessarily the last one received */
+    status: string;
+    /** True once a final status such as `completed` or `delivered` has been seen */
+    terminal: boolean;
+    /** Every update received, in lifecycle order */
+    history: StatusUpdate[];
+    /** When the last update was received, as an ISO 8601 string */
+    updatedAt: string;
+}
+
+/**
+ * Interface for status change data emitted by the 'statusChanged' event.
+ * @see {@link StatusTrackerEventNames.STATUS_CHANGED}
+ */
+export interface StatusChangedEventData {
+    level: 'info';
+    sid: string;
+    kind: TrackedResourceKind;
+    status: string;
+    /** The status before this update, or null for the first one */
+    previousStatus: string | null;
+    terminal: boolean;
+    resource: TrackedResource;
+}
+
+/**
+ * Interface for terminal status data emitted by the 'terminal' event.
+ * @see {@link StatusTrackerEventNames.TERMINAL}
+ */
+export interface TerminalEventData {
+    level: 'info';
+    sid: string;
+    kind: TrackedResourceKind;
+    status: string;
+    resource: TrackedResource;
+}
+
+/**
+ * Defines the signatures for the events emitted by StatusTracker.
+ */
+export interface StatusTrackerEvents {
+    [StatusTrackerEventNames.STATUS_CHANGED]: (data: StatusChangedEventData) => void;
+    [StatusTrackerEventNames.TERMINAL]: (data: TerminalEventData) => void;
+}
+
+/**
+ * Interface for {@link StatusTracker} constructor options.
+ */
+export interface StatusTrackerOptions {
+    /** Only follow callbacks on this route (`default` is the plain /callback endpoint) */
+    route?: string;
+    /** Maximum number of resources kept, dropping finished ones first. Defaults to 1000. */
+    maxResources?: number;
+}
+
+// Position of each status in its lifecycle. Final statuses share the highest rank of their
+// path, and `read` follows `delivered` for channels that report it.
+const CALL_STATUS_RANKS: Record<string, number> = {
+    'queued': 0, 'initiated': 1, 'ringing': 2, 'in-progress': 3,
+    'completed': 4, 'busy': 4, 'failed': 4, 'no-answer': 4, 'canceled': 4
+};
+const MESSAGE_STATUS_RANKS: Record<string, number> = {
+    'accepted': 0, 'scheduled': 0, 'queued': 1, 'sending': 2, 'receiving': 2, 'sent': 3,
+    'delivered': 4, 'undelivered': 4, 'failed': 4, 'canceled': 4, 'received': 4, 'partially_delivered': 4,
+    'read': 5
+};
+const TERMINAL_STATUSES: Record<TrackedResourceKind, Set<string>> = {
+    call: new Set(['completed', 'busy', 'failed', 'no-answer', 'canceled']),
+    message: new Set(['delivered', 'undelivered', 'failed', 'canceled', 'received', 'read'])
+};
+
+/**
+ * StatusTracker Class
+ *
+ * Follows Twilio calls and messages through their lifecycle from a handler's status callbacks.
+ * Callbacks are grouped by CallSid or MessageSid and put in order by `SequenceNumber`, then
+ * `Timestamp`, then lifecycle position, so a late `ringing` never overrides `completed`.
+ * Emits 'statusChanged' when a resource's current status changes and 'terminal' once it
+ * reaches a final status. Other callbacks are ignored.
+ *
+ * @example
+ * const tracker = new StatusTracker(handler);
+ * const call = await client.calls.create({ statusCallback: handler.getCallbackUrl(), ... });
+ * const { status } = await tracker.waitForTerminal(call.sid, 120000);
+ *
+ * @extends EventEmitter
+ */
+export class StatusTracker extends EventEmitter {
+    private handler: CallbackHandler<any>;
+    private route?: string;
+    private maxResources: number;
+    private resources: Map<string, TrackedResource> = new Map();
+    private onCallback = (data: CallbackEventData) => this.update(data);
+
+    /**
+     * Creates a new StatusTracker and starts following the handler's callbacks
+     *
+     * @param handler The handler receiving the status callbacks
+     * @param options Configuration options
+     */
+    constructor(handler: CallbackHandler<any>, options: StatusTrackerOptions = {}) {
+        super();
+        this.handler = handler;
+        this.route = options.route;
+        this.maxResources = options.maxResources ?? 1000;
+        this.handler.on(CallbackHandlerEventNames.CALLBACK, this.onCallback);
+    }
+
+    /**
+     * Records a status callback. Called for every callback the handler emits; call it yourself to
+     * feed callbacks from elsewhere.
+     *
+     * @param data A received callback
+     * @returns The updated resource, or undefined if the callback is not a call or message status
+     */
+    update(data: CallbackEventData): TrackedResource | undefined {
+        if (this.route !== undefined && data.route !== this.route) return undefined;
+
+        // GET callbacks carry their fields in the query string
+        const fields: Record<string, unknown> = {
+            ...data.queryParameters,
+            ...(data.body && typeof data.body === 'object' && !Buffer.isBuffer(data.body) ? data.body : {})
+        };
+        let kind: TrackedResourceKind;
+        let sid: unknown;
+        let status: unknown;
+        if (fields.CallSid && fields.CallStatus) {
+            [kind, sid, status] = ['call', fields.CallSid, fields.CallStatus];
+        } else if (fields.MessageSid && (fields.MessageStatus || fields.SmsStatus)) {
+            [kind, sid, status] = ['message', fields.MessageSid, fields.MessageStatus ?? fields.SmsStatus];
+        } else {
+            return undefined;
+        }
+
+        const sequenceNumber = fields.SequenceNumber !== undefined ? Number(fields.SequenceNumber) : NaN;
+        const timestamp = typeof fields.Timestamp === 'string' ? new Date(fields.Timestamp) : null;
+        const update: StatusUpdate = {
+            status: String(status),
+            sequenceNumber: Number.isFinite(sequenceNumber) ? sequenceNumber : null,
+            timestamp: timestamp && !isNaN(timestamp.getTime()) ? timestamp.toISOString() : null,
+            receivedAt: data.receivedAt,
+            callback: data
+        };
+        return this.apply(kind, String(sid), update);
+    }
+
+    private apply(kind: TrackedResourceKind, sid: string, update: StatusUpdate): TrackedResource {
+        let resource = this.resources.get(sid);
+        const previousStatus = resource?.status ?? null;
+        const wasTerminal = resource?.terminal ?? false;
+
+        if (!resource) {
+            resource = { sid, kind, status: update.status, terminal: false, history: [], updatedAt: update.receivedAt };
+            this.resources.set(sid, resource);
+            this.evict();
+        }
+
+        // Provider retries repeat an update we already have
+        if (resource.history.some((entry) => entry.status === update.status && entry.sequenceNumber === update.sequenceNumber)) {
+            return this.snapshot(resource);
+        }
+
+        // Insert after every update that comes earlier in the lifecycle, keeping arrival order for ties
+        let index = resource.history.length;
+        while (index > 0 && this.compare(kind, resource.history[index - 1], update) > 0) {
+            index--;
+        }
+        resource.history.splice(index, 0, update);
+        resource.updatedAt = update.receivedAt;
+
+        const current = resource.history[resource.history.length - 1];
+        resource.status = current.status;
+        resource.terminal = wasTerminal || TERMINAL_STATUSES[kind].has(current.status);
+
+        if (resource.status !== previousStatus) {
+            this.emit(StatusTrackerEventNames.STATUS_CHANGED, {
+                level: 'info',
+                sid,
+                kind,
+                status: resource.status,
+                previousStatus,
+                terminal: resource.terminal,
+                resource: this.snapshot(resource)
+            });
+        }
+        if (resource.terminal && !wasTerminal) {
+            this.emit(StatusTrackerEventNames.TERMINAL, { level: 'info', sid, kind, status: resource.status, resource: this.snapshot(resource) });
+        }
+        return this.snapshot(resource);
+    }
+
+    /**
+     * Orders two updates by sequence number, then timestamp, then lifecycle position
+     */
+    private compare(kind: TrackedResourceKind, a: StatusUpdate, b: StatusUpdate): number {
+        if (a.sequenceNumber !== null && b.sequenceNumber !== null) {
+            return a.sequenceNumber - b.sequenceNumber;
+        }
+        if (a.timestamp !== null && b.timestamp !== null && a.timestamp !== b.timestamp) {
+            return a.timestamp < b.timestamp ? -1 : 1;
+        }
+        const ranks = kind === 'call' ? CALL_STATUS_RANKS : MESSAGE_STATUS_RANKS;
+        return (ranks[a.status] ?? 0) - (ranks[b.status] ?? 0);
+    }
+
+    /**
+     * Drops the oldest resources beyond `maxResources`, finished ones first
+     */
+    private evict(): void {
+        while (this.resources.size > this.maxResources) {
+            const oldest = [...this.resources.values()].find((resource) => resource.terminal)
+                ?? this.resources.values().next().value as TrackedResource;
+            this.resources.delete(oldest.sid);
+        }
+    }
+
+    private snapshot(resource: TrackedResource): TrackedResource {
+        return { ...resource, history: [...resource.history] };
+    }
+
+    /**
+     * Returns the known state of a call or message
+     *
+     * @param sid The CallSid or MessageSid
+     */
+    get(sid: string): TrackedResource | undefined {
+        const resource = this.resources.get(sid);
+        return resource ? this.snapshot(resource) : undefined;
+    }
+
+    /**
+     * Returns every tracked call and message, oldest first
+     */
+    getAll(): TrackedResource[] {
+        return [...this.resources.values()].map((resource) => this.snapshot(resource));
+    }
+
+    /**
+     * Waits for a call or message to reach a final status. Resolves at once if it already has.
+     *
+     * @param sid The CallSid or MessageSid
+     * @param timeoutMs How long to wait. Defaults to 30000.
+     * @returns The resource in its final status
+     * @throws {CallbackTimeoutError} If no final status arrives within `timeoutMs`
+     */
+    waitForTerminal(sid: string, timeoutMs = 30000): Promise<TrackedResource> {
+        const resource = this.resources.get(sid);
+        if (resource?.terminal) {
+            return Promise.resolve(this.snapshot(resource));
+        }
+
+        return new Promise((resolve, reject) => {
+            const onTerminal = (data: TerminalEventData) => {
+                if (data.sid === sid) {
+                    clearTimeout(timer);
+                    this.removeListener(StatusTrackerEventNames.TERMINAL, onTerminal);
+                    resolve(data.resource);
+                }
+            };
+            const timer = setTimeout(() => {
+                this.removeListener(StatusTrackerEventNames.TERMINAL, onTerminal);
+                reject(new CallbackTimeoutError(timeoutMs));
+            }, timeoutMs);
+            this.on(StatusTrackerEventNames.TERMINAL, onTerminal);
+        });
+    }
+
+    /**
+     * Forgets every tracked resource
+     */
+    clear(): void {
+        this.resources.clear();
+    }
+
+    /**
+     * Stops following the handler's callbacks
+     */
+    close(): void {
+        this.handler.removeListener(CallbackHandlerEventNames.CALLBACK, this.onCallback);
+    }
+
+    // --- Type-safe EventEmitter Overrides ---
+
+    on<E extends keyof StatusTrackerEvents>(event: E, listener: StatusTrackerEvents[E]): this {
+        return super.on(event, listener as any);
+    }
+
+    once<E extends keyof StatusTrackerEvents>(event: E, listener: StatusTrackerEvents[E]): this {
+        return super.once(event, listener as any);
+    }
+
+    emit<E extends keyof StatusTrackerEvents>(event: E, ...args: Parameters<StatusTrackerEvents[E]>): boolean {
+        return super.emit(event, ...args);
+    }
+}
@@ -0,0 +1,47 @@
+import { TunnelConnectOptions, TunnelProvider, TunnelProviderStatus } from './TunnelProvider.js';
+
+/**
+ * Interface for {@link LocalOnlyProvider} constructor options.
+ */
+export interface LocalOnlyProviderOptions {
+    /** Host name used in the returned URL. Defaults to `localhost`. */
+    hostname?: string;
+}
+
+/**
+ * LocalOnlyProvider Class
+ *
+ * Does not open any public tunnel. The callback URL points straight at the local server,
+ * e.g. `http://localhost:4000/callback` (or `https://` for an HTTPS server), which is all that CI runs and offline development
+ * need to exercise the full callback flow without an ngrok account.
+ */
+export class LocalOnlyProvider implements TunnelProvider {
+    private hostname: string;
+    private localUrl: string | null = null;
+
+    /**
+     * Creates a new LocalOnlyProvider instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: LocalOnlyProviderOptions = {}) {
+        this.hostname = options.hostname ?? 'localhost';
+    }
+
+    async connect(port: number, _onStatusChange?: (status: string) => void, options?: TunnelConnectOptions): Promise<string> {
+        this.localUrl = `${options?.protocol ?? 'http'}://${this.hostname}:${port}`;
+        return this.localUrl;
+    }
+
+    async close(): Promise<void> {
+        this.localUrl = null;
+    }
+
+    url(): string | null {
+        return this.localUrl;
+    }
+
+    status(): TunnelProviderStatus {
+        return this.localUrl ? 'connected' : 'disconnected';
+    }
+}
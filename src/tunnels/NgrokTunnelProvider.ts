@@ -0,0 +1,120 @@
+import * as ngrok from '@ngrok/ngrok';
+import { TunnelConnectOptions, TunnelProvider, TunnelProviderStatus } from './TunnelProvider.js';
+
+/**
+ * Interface for {@link NgrokTunnelProvider} constructor options.
+ */
+export interface NgrokTunnelProviderOptions {
+    ngrokAuthToken: string;
+    customDomain?: string;
+}
+
+/**
+ * NgrokTunnelProvider Class
+ *
+ * Forwards the local callback server through an ngrok tunnel using the official @ngrok/ngrok SDK.
+ * This is the provider used by {@link CallbackHandler} when only `ngrokAuthToken` is configured.
+ */
+export class NgrokTunnelProvider implements TunnelProvider {
+    private ngrokListener: ngrok.Listener | null = null;
+    private ngrokUrl: string | null = null;
+    private ngrokAuthToken: string;
+    private customDomain?: string;
+    private currentStatus: TunnelProviderStatus = 'disconnected';
+
+    /**
+     * Creates a new NgrokTunnelProvider instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: NgrokTunnelProviderOptions) {
+        this.ngrokAuthToken = options.ngrokAuthToken;
+        this.customDomain = options.customDomain;
+    }
+
+    /**
+     * Establishes the ngrok tunnel to the given local port
+     *
+     * @param port The local port to forward
+     * @param onStatusChange Optional listener for ngrok status messages
+     * @param options How the local server is reached
+     * @returns Promise that resolves to the public ngrok URL
+     */
+    async connect(port: number, onStatusChange?: (status: string) => void, options?: TunnelConnectOptions): Promise<string> {
+        if (!this.ngrokAuthToken) {
+            this.currentStatus = 'error';
+            throw new Error('Ngrok auth token not provided');
+        }
+
+        this.currentStatus = 'connecting';
+        try {
+            // Use the official SDK to establish the tunnel
+            // An HTTPS server usually has a self-signed or internal certificate that ngrok cannot verify
+            const https = options?.protocol === 'https';
+            this.ngrokListener = await ngrok.forward({
+                addr: https ? `https://localhost:${port}` : port,
+                verify_upstream_tls: https ? false : undefined,
+                authtoken: this.ngrokAuthToken,
+                domain: this.customDomain,
+                // Status will contain error information if there's a problem
+                onStatusChange: (status: string) => {
+                    if (status.includes('error') || status.includes('disconnected')) {
+                        this.currentStatus = 'error';
+                    }
+                    onStatusChange?.(status);
+                }
+            });
+        } catch (error) {
+            this.currentStatus = 'error';
+            throw error;
+        }
+
+        this.ngrokUrl = this.ngrokListener.url();
+        if (!this.ngrokUrl) {
+            this.currentStatus = 'error';
+            throw new Error('Ngrok tunnel did not report a public URL');
+        }
+
+        this.currentStatus = 'connected';
+        return this.ngrokUrl;
+    }
+
+    /**
+     * Closes the ngrok tunnel
+     */
+    async close(): Promise<void> {
+        // Close the ngrok listener if it exists
+        if (this.ngrokListener) {
+            await this.ngrokListener.close();
+            this.ngrokListener = null;
+        } else if (this.ngrokUrl) {
+            // If for some reason we don't have a listener reference but have a URL,
+            // disconnect that tunnel only. Other tunnels in the process are not ours to close.
+            await ngrok.disconnect(this.ngrokUrl);
+        }
+
+        this.ngrokUrl = null;
+        this.currentStatus = 'disconnected';
+    }
+
+    /**
+     * Returns the public ngrok URL if available
+     */
+    url(): string | null {
+        return this.ngrokUrl;
+    }
+
+    /**
+     * Returns the current tunnel status
+     */
+    status(): TunnelProviderStatus {
+        return this.currentStatus;
+    }
+
+    /**
+     * Returns the custom domain configured for this tunnel, if any
+     */
+    getCustomDomain(): string | undefined {
+        return this.customDomain;
+    }
+}
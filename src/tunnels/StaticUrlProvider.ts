@@ -0,0 +1,50 @@
+import { TunnelProvider, TunnelProviderStatus } from './TunnelProvider.js';
+
+/**
+ * Interface for {@link StaticUrlProvider} constructor options.
+ */
+export interface StaticUrlProviderOptions {
+    /** The public base URL that routes to the local server, e.g. `https://hooks.example.com` */
+    publicUrl: string;
+}
+
+/**
+ * StaticUrlProvider Class
+ *
+ * Used when the callback server already sits behind a reverse proxy or load balancer that
+ * you manage. No tunnel is created; the configured public URL is simply reported back.
+ */
+export class StaticUrlProvider implements TunnelProvider {
+    private publicUrl: string;
+    private connected = false;
+
+    /**
+     * Creates a new StaticUrlProvider instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: StaticUrlProviderOptions) {
+        if (!options.publicUrl) {
+            throw new Error('StaticUrlProvider requires a publicUrl');
+        }
+        // Strip trailing slashes so that `${url}/callback` stays well formed
+        this.publicUrl = options.publicUrl.replace(/\/+$/, '');
+    }
+
+    async connect(): Promise<string> {
+        this.connected = true;
+        return this.publicUrl;
+    }
+
+    async close(): Promise<void> {
+        this.connected = false;
+    }
+
+    url(): string | null {
+        return this.connected ? this.publicUrl : null;
+    }
+
+    status(): TunnelProviderStatus {
+        return this.connected ? 'connected' : 'disconnected';
+    }
+}
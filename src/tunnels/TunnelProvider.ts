@@ -0,0 +1,52 @@
+/**
+ * Status values reported by a {@link TunnelProvider}.
+ */
+export type TunnelProviderStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+/**
+ * Describes the local server passed to {@link TunnelProvider.connect}.
+ */
+export interface TunnelConnectOptions {
+    /** Whether the local server speaks plain HTTP or HTTPS */
+    protocol: 'http' | 'https';
+}
+
+/**
+ * A TunnelProvider exposes the local Express server to callers outside this process.
+ *
+ * {@link CallbackHandler} listens on a local port and then asks its provider to make that
+ * port reachable. The ngrok implementation opens a public tunnel, while others simply
+ * describe how the server can already be reached (localhost, a reverse proxy, etc.).
+ *
+ * @example
+ * const handler = new CallbackHandler({ tunnelProvider: new LocalOnlyProvider() });
+ * const url = await handler.start(); // http://localhost:4000/callback
+ */
+export interface TunnelProvider {
+    /**
+     * Makes the local server on `port` reachable.
+     *
+     * @param port The local port the Express server is listening on
+     * @param onStatusChange Optional listener for provider specific status messages
+     * @param options How the local server is reached. Omitted means plain HTTP.
+     * @returns Promise that resolves to the public base URL (without the /callback path)
+     */
+    connect(port: number, onStatusChange?: (status: string) => void, options?: TunnelConnectOptions): Promise<string>;
+
+    /**
+     * Tears down whatever {@link connect} set up. Safe to call when not connected.
+     */
+    close(): Promise<void>;
+
+    /**
+     * Returns the public base URL if connected
+     *
+     * @returns The public base URL or null if not connected
+     */
+    url(): string | null;
+
+    /**
+     * Returns the current connection status of the provider
+     */
+    status(): TunnelProviderStatus;
+}
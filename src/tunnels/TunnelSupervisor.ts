@@ -0,0 +1,258 @@
+import { EventEmitter } from 'events';
+import { TunnelConnectOptions, TunnelProvider } from './TunnelProvider.js';
+
+/**
+ * States of a supervised tunnel.
+ *
+ * `connecting` → `online` → (`reconnecting` → `online`)* → `offline`
+ */
+export type TunnelState = 'connecting' | 'online' | 'reconnecting' | 'offline';
+
+/**
+ * Interface for the `reconnect` option of {@link CallbackHandlerOptions}.
+ */
+export interface TunnelReconnectOptions {
+    /** Delay before the first reconnect attempt in milliseconds. Defaults to 1000. */
+    initialDelayMs?: number;
+    /** Upper bound for the delay between attempts in milliseconds. Defaults to 30000. */
+    maxDelayMs?: number;
+    /** Multiplier applied to the delay after each failed attempt. Defaults to 2. */
+    factor?: number;
+    /** Attempts before giving up and going `offline`. Defaults to 10. */
+    maxAttempts?: number;
+    /** How often the provider status is checked in milliseconds. Defaults to 10000. */
+    healthCheckIntervalMs?: number;
+}
+
+/**
+ * Payload of the supervisor's 'stateChange' event
+ */
+export interface TunnelStateChange {
+    state: TunnelState;
+    /** The public base URL, if known */
+    url: string | null;
+    /** Reconnect attempt number, 0 for the initial connection */
+    attempt: number;
+    /** The failure that caused the transition, if any */
+    error?: Error;
+}
+
+/**
+ * Payload of the supervisor's 'urlChanged' event
+ */
+export interface TunnelUrlChange {
+    previousUrl: string | null;
+    url: string;
+}
+
+/**
+ * TunnelSupervisor Class
+ *
+ * Connects a {@link TunnelProvider}, watches its health and reconnects with exponential backoff
+ * when it fails. Emits 'stateChange' on every transition and 'urlChanged' when a reconnect
+ * yields a different public URL.
+ *
+ * @extends EventEmitter
+ */
+export class TunnelSupervisor extends EventEmitter {
+    private provider: TunnelProvider;
+    private reconnectOptions: Required<TunnelReconnectOptions> | null;
+    private currentState: TunnelState = 'offline';
+    private currentUrl: string | null = null;
+    private port = 0;
+    private connectOptions?: TunnelConnectOptions;
+    private onProviderStatus?: (status: string) => void;
+    private healthTimer: NodeJS.Timeout | null = null;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private cancelRetry: (() => void) | null = null;
+    private reconnecting = false;
+    private stopped = true;
+
+    /**
+     * Creates a new TunnelSupervisor instance
+     *
+     * @param provider The provider to supervise
+     * @param options Reconnect behaviour, or false to never reconnect
+     */
+    constructor(provider: TunnelProvider, options: TunnelReconnectOptions | false = {}) {
+        super();
+        this.provider = provider;
+        this.reconnectOptions = options === false ? null : {
+            initialDelayMs: options.initialDelayMs ?? 1000,
+            maxDelayMs: options.maxDelayMs ?? 30000,
+            factor: options.factor ?? 2,
+            maxAttempts: options.maxAttempts ?? 10,
+            healthCheckIntervalMs: options.healthCheckIntervalMs ?? 10000
+        };
+    }
+
+    /**
+     * The current tunnel state
+     */
+    get state(): TunnelState {
+        return this.currentState;
+    }
+
+    /**
+     * Connects the provider for the first time and starts monitoring it
+     *
+     * @param port The local port to expose
+     * @param onProviderStatus Optional listener for raw provider status messages
+     * @param connectOptions How the local server is reached, passed to the provider on every connect
+     * @returns Promise that resolves to the public base URL
+     */
+    async start(port: number, onProviderStatus?: (status: string) => void, connectOptions?: TunnelConnectOptions): Promise<string> {
+        this.port = port;
+        this.onProviderStatus = onProviderStatus;
+        this.connectOptions = connectOptions;
+        this.stopped = false;
+        this.setState('connecting', 0);
+
+        try {
+            this.currentUrl = await this.connectProvider();
+        } catch (error) {
+            this.stopped = true;
+            this.setState('offline', 0, toError(error));
+            throw error;
+        }
+
+        this.setState('online', 0);
+        this.startHealthChecks();
+        return this.currentUrl;
+    }
+
+    /**
+     * Stops monitoring and closes the provider
+     */
+    async stop(): Promise<void> {
+        this.stopped = true;
+        this.stopHealthChecks();
+        this.cancelRetry?.();
+
+        try {
+            if (this.provider.status() !== 'disconnected') {
+                await this.provider.close();
+            }
+        } finally {
+            this.currentUrl = null;
+            if (this.currentState !== 'offline') {
+                this.setState('offline', 0);
+            }
+        }
+    }
+
+    private connectProvider(): Promise<string> {
+        return this.provider.connect(this.port, (status: string) => {
+            this.onProviderStatus?.(status);
+            if (status.includes('error') || status.includes('disconnected')) {
+                this.handleFailure(new Error(`Tunnel status changed: ${status}`));
+            }
+        }, this.connectOptions);
+    }
+
+    private setState(state: TunnelState, attempt: number, error?: Error): void {
+        this.currentState = state;
+        const change: TunnelStateChange = { state, url: this.currentUrl, attempt };
+        if (error) change.error = error;
+        this.emit('stateChange', change);
+    }
+
+    private startHealthChecks(): void {
+        if (!this.reconnectOptions || this.healthTimer) return;
+        this.healthTimer = setInterval(() => {
+            const status = this.provider.status();
+            if (this.currentState === 'online' && (status === 'error' || status === 'disconnected')) {
+                this.handleFailure(new Error(`Tunnel provider reported status '${status}'`));
+            }
+        }, this.reconnectOptions.healthCheckIntervalMs);
+        this.healthTimer.unref();
+    }
+
+    private stopHealthChecks(): void {
+        if (this.healthTimer) {
+            clearInterval(this.healthTimer);
+            this.healthTimer = null;
+        }
+    }
+
+    /**
+     * Reacts to a tunnel failure by reconnecting, or going offline if reconnecting is disabled
+     */
+    private handleFailure(error: Error): void {
+        if (this.stopped || this.reconnecting || this.currentState !== 'online') return;
+        if (!this.reconnectOptions) {
+            this.setState('offline', 0, error);
+            return;
+        }
+        this.reconnect(error).catch(() => undefined);
+    }
+
+    private async reconnect(cause: Error): Promise<void> {
+        const options = this.reconnectOptions as Required<TunnelReconnectOptions>;
+        this.reconnecting = true;
+        let lastError = cause;
+
+        try {
+            for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+                this.setState('reconnecting', attempt, lastError);
+
+                const delay = Math.min(options.initialDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
+                if (!(await this.wait(delay)) || this.stopped) return;
+
+                try {
+                    await this.provider.close();
+                } catch {
+                    // The old tunnel is already broken; a failed close is expected
+                }
+
+                try {
+                    const previousUrl = this.currentUrl;
+                    const url = await this.connectProvider();
+                    if (this.stopped) {
+                        // stop() ran while connecting, so the tunnel that just came up would stay open
+                        await this.provider.close().catch(() => undefined);
+                        return;
+                    }
+                    this.currentUrl = url;
+                    this.setState('online', attempt);
+                    if (url !== previousUrl) {
+                        const change: TunnelUrlChange = { previousUrl, url };
+                        this.emit('urlChanged', change);
+                    }
+                    return;
+                } catch (error) {
+                    lastError = toError(error);
+                }
+            }
+
+            this.stopHealthChecks();
+            this.currentUrl = null;
+            this.setState('offline', options.maxAttempts, lastError);
+        } finally {
+            this.reconnecting = false;
+        }
+    }
+
+    /**
+     * Waits for `ms`, resolving false early if the supervisor is stopped
+     */
+    private wait(ms: number): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.retryTimer = setTimeout(() => {
+                this.retryTimer = null;
+                this.cancelRetry = null;
+                resolve(true);
+            }, ms);
+            this.cancelRetry = () => {
+                if (this.retryTimer) clearTimeout(this.retryTimer);
+                this.retryTimer = null;
+                this.cancelRetry = null;
+                resolve(false);
+            };
+        });
+    }
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Creates an async iterator over the first argument of every `event` emitted by `emitter`.
+ *
+ * Values are queued while the consumer is busy, so nothing is missed between iterations.
+ * The iterator finishes when `endEvent` is emitted or when the consumer breaks out of the loop.
+ *
+ * @param emitter The emitter to listen on
+ * @param event The event whose payloads are yielded
+ * @param endEvent Optional event that ends the iteration
+ */
+export function createEventIterator<T>(emitter: EventEmitter, event: string, endEvent?: string): AsyncIterableIterator<T> {
+    const queue: T[] = [];
+    const waiting: Array<(result: IteratorResult<T>) => void> = [];
+    let done = false;
+
+    const onEvent = (value: T) => {
+        const resolve = waiting.shift();
+        if (resolve) {
+            resolve({ value, done: false });
+        } else {
+            queue.push(value);
+        }
+    };
+
+    const finish = () => {
+        if (done) return;
+        done = true;
+        emitter.removeListener(event, onEvent);
+        if (endEvent) emitter.removeListener(endEvent, finish);
+        for (const resolve of waiting.splice(0)) {
+            resolve({ value: undefined, done: true });
+        }
+    };
+
+    emitter.on(event, onEvent);
+    if (endEvent) emitter.on(endEvent, finish);
+
+    return {
+        next(): Promise<IteratorResult<T>> {
+            if (queue.length > 0) {
+                return Promise.resolve({ value: queue.shift() as T, done: false });
+            }
+            if (done) {
+                return Promise.resolve({ value: undefined, done: true });
+            }
+            return new Promise((resolve) => waiting.push(resolve));
+        },
+        return(): Promise<IteratorResult<T>> {
+            finish();
+            queue.length = 0;
+            return Promise.resolve({ value: undefined, done: true });
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Result of {@link invokeListeners}
+ */
+export interface InvokeListenersResult {
+    /** Errors thrown synchronously by listeners */
+    errors: Error[];
+    /** Promises returned by async listeners */
+    pending: Promise<unknown>[];
+}
+
+/**
+ * Calls every listener for `event` like `emit` does, but keeps going when one throws and
+ * collects the promises returned by async listeners so the caller can await them.
+ *
+ * @param emitter The emitter whose listeners are called
+ * @param event The event name
+ * @param args Arguments passed to each listener
+ */
+export function invokeListeners(emitter: EventEmitter, event: string, ...args: unknown[]): InvokeListenersResult {
+    const result: InvokeListenersResult = { errors: [], pending: [] };
+    // rawListeners keeps the `once` wrappers, so one-time listeners are still removed when called
+    for (const listener of emitter.rawListeners(event)) {
+        try {
+            const returned = (listener as (...listenerArgs: unknown[]) => unknown).apply(emitter, args);
+            if (returned && typeof (returned as Promise<unknown>).then === 'function') {
+                result.pending.push(returned as Promise<unknown>);
+            }
+        } catch (error) {
+            result.errors.push(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+    return result;
+}
@@ -0,0 +1,44 @@
+import { createHmac } from 'crypto';
+import { WebhookVerificationRequest, WebhookVerificationResult, WebhookVerifier, headerValue } from './WebhookVerifier.js';
+import { safeEqual } from './utils.js';
+
+/**
+ * Interface for {@link GitHubSignatureVerifier} constructor options.
+ */
+export interface GitHubSignatureVerifierOptions {
+    /** The webhook secret configured with the sender */
+    secret: string;
+}
+
+/**
+ * GitHubSignatureVerifier Class
+ *
+ * Verifies the `X-Hub-Signature-256` header: `sha256=<hex>`, an HMAC-SHA256 of the raw body
+ * keyed with the shared secret.
+ */
+export class GitHubSignatureVerifier implements WebhookVerifier {
+    readonly name = 'github';
+    private secret: string;
+
+    /**
+     * Creates a new GitHubSignatureVerifier instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: GitHubSignatureVerifierOptions) {
+        this.secret = options.secret;
+    }
+
+    appliesTo(request: WebhookVerificationRequest): boolean {
+        return headerValue(request.headers, 'x-hub-signature-256') !== undefined;
+    }
+
+    verify(request: WebhookVerificationRequest): WebhookVerificationResult {
+        const header = headerValue(request.headers, 'x-hub-signature-256') ?? '';
+        const expected = 'sha256=' + createHmac('sha256', this.secret).update(request.rawBody).digest('hex');
+        if (!safeEqual(header, expected)) {
+            return { valid: false, reason: 'Invalid X-Hub-Signature-256' };
+        }
+        return { valid: true };
+    }
+}
@@ -0,0 +1,75 @@
+import { createHmac } from 'crypto';
+import { WebhookVerificationRequest, WebhookVerificationResult, WebhookVerifier, headerValue } from './WebhookVerifier.js';
+import { checkTimestamp, safeEqual } from './utils.js';
+
+/**
+ * Interface for {@link StandardWebhooksVerifier} constructor options.
+ */
+export interface StandardWebhooksVerifierOptions {
+    /** The signing secret, either base64 or prefixed with `whsec_` */
+    secret: string;
+    /** Maximum age of the signed timestamp in seconds. Defaults to 300. */
+    toleranceSeconds?: number;
+}
+
+/**
+ * StandardWebhooksVerifier Class
+ *
+ * Verifies requests following the Standard Webhooks specification (as used by Svix):
+ * `webhook-id`, `webhook-timestamp` and `webhook-signature` headers, where the signature list
+ * holds space separated `v1,<base64>` entries, each an HMAC-SHA256 of `<id>.<timestamp>.<raw body>`.
+ * The `svix-` prefixed header names are accepted as well.
+ */
+export class StandardWebhooksVerifier implements WebhookVerifier {
+    readonly name = 'standard-webhooks';
+    private key: Buffer;
+    private toleranceSeconds: number;
+
+    /**
+     * Creates a new StandardWebhooksVerifier instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: StandardWebhooksVerifierOptions) {
+        this.key = Buffer.from(options.secret.replace(/^whsec_/, ''), 'base64');
+        this.toleranceSeconds = options.toleranceSeconds ?? 300;
+    }
+
+    /**
+     * Reads a `webhook-*` header, falling back to its `svix-*` equivalent
+     */
+    private header(request: WebhookVerificationRequest, name: string): string | undefined {
+        return headerValue(request.headers, `webhook-${name}`) ?? headerValue(request.headers, `svix-${name}`);
+    }
+
+    appliesTo(request: WebhookVerificationRequest): boolean {
+        return this.header(request, 'signature') !== undefined;
+    }
+
+    verify(request: WebhookVerificationRequest): WebhookVerificationResult {
+        const id = this.header(request, 'id');
+        const timestamp = this.header(request, 'timestamp');
+        const signatureHeader = this.header(request, 'signature') ?? '';
+
+        if (!id) {
+            return { valid: false, reason: 'Missing webhook-id header' };
+        }
+        const timestampError = checkTimestamp(timestamp, this.toleranceSeconds);
+        if (timestampError) {
+            return { valid: false, reason: timestampError };
+        }
+
+        const expected = createHmac('sha256', this.key)
+            .update(`${id}.${timestamp}.`)
+            .update(request.rawBody)
+            .digest('base64');
+        const matches = signatureHeader.split(' ').some((entry) => {
+            const [version, signature] = entry.split(',', 2);
+            return version === 'v1' && signature !== undefined && safeEqual(signature, expected);
+        });
+        if (!matches) {
+            return { valid: false, reason: 'Invalid webhook-signature' };
+        }
+        return { valid: true };
+    }
+}
@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import { WebhookVerificationRequest, WebhookVerificationResult, WebhookVerifier, headerValue } from './WebhookVerifier.js';
+import { checkTimestamp, safeEqual } from './utils.js';
+
+/**
+ * Interface for {@link StripeSignatureVerifier} constructor options.
+ */
+export interface StripeSignatureVerifierOptions {
+    /** The endpoint signing secret (`whsec_...`) */
+    secret: string;
+    /** Maximum age of the signed timestamp in seconds. Defaults to 300. */
+    toleranceSeconds?: number;
+}
+
+/**
+ * StripeSignatureVerifier Class
+ *
+ * Verifies the `Stripe-Signature` header: `t=<timestamp>,v1=<hex>[,v1=<hex>]`, where each
+ * `v1` is an HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the endpoint secret.
+ */
+export class StripeSignatureVerifier implements WebhookVerifier {
+    readonly name = 'stripe';
+    private secret: string;
+    private toleranceSeconds: number;
+
+    /**
+     * Creates a new StripeSignatureVerifier instance
+     *
+     * @param options Configuration options
+     */
+    constructor(options: StripeSignatureVerifierOptions) {
+        this.secret = options.secret;
+        this.toleranceSeconds = options.toleranceSeconds ?? 300;
+    }
+
+    appliesTo(request: WebhookVerificationRequest): boolean {
+        return headerValue(request.headers, 'stripe-signature') !== undefined;
+    }
+
+    verify(request: WebhookVerificationRequest): WebhookVerificationResult {
+        const header = headerValue(request.headers, 'stripe-signature') ?? '';
+        let timestamp: string | undefined;
+        const signatures: string[] = [];
+        for (const part of header.split(',')) {
+            const [key, value] = part.trim().split('=', 2);
+            if (key === 't') {
+                timestamp = value;
+            } else if (key === 'v1' && value) {
+                signatures.push(value);
+            }
+        }
+
+        const timestampError = checkTimestamp(timestamp, this.toleranceSeconds);
+        if (timestampError) {
+            return { valid: false, reason: timestampError };
+        }
+        if (signatures.length === 0) {
+            return { valid: false, reason: 'No v1 signature in Stripe-Signature header' };
+        }
+
+        const expected = createHmac('sha256', this.secret)
+            .update(`${timestamp}.`)
+            .update(request.rawBody)
+            .digest('hex');
+        if (!signatures.some((signature) => safeEqual(signature, expected))) {
+            return { valid: false, reason: 'Invalid Stripe-Signature' };
+        }
+        return { valid: true };
+    }
+}
@@ -0,0 +1,121 @@
+import { createHash, createHmac } from 'crypto';
+import { safeEqual } from './utils.js';
+
+/**
+ * Interface for the `signatureValidation` option of {@link CallbackHandlerOptions}.
+ */
+export interface TwilioSignatureValidationOptions {
+    /** The Twilio auth token used to sign requests for your account */
+    authToken: string;
+}
+
+/**
+ * The parts of an inbound request needed to check its `X-Twilio-Signature`.
+ */
+export interface TwilioSignatureRequest {
+    /** The full public URL Twilio requested, including any query string */
+    url: string;
+    /** Value of the `X-Twilio-Signature` header */
+    signature: string | undefined;
+    /** Content-Type header of the request */
+    contentType: string;
+    /** Parsed body, used for form-encoded requests only when `rawBody` is not given */
+    body: any;
+    /** Raw request bytes. The form parameters are read from them, and they are hashed for the `bodySHA256` variant. */
+    rawBody?: Buffer;
+}
+
+/**
+ * Result of {@link validateTwilioRequest}
+ */
+export interface TwilioSignatureResult {
+    valid: boolean;
+    /** Why validation failed. Only set when `valid` is false. */
+    reason?: string;
+}
+
+/**
+ * Builds the string Twilio signs for a form-encoded request: the URL followed by each
+ * parameter name and value, sorted by name. Repeated parameters are sorted by value.
+ */
+function buildSignedPayload(url: string, params: Record<string, any>): string {
+    return Object.keys(params).sort().reduce((acc, key) => {
+        const value = params[key];
+        if (Array.isArray(value)) {
+            return acc + [...value].map(String).sort().map((v) => key + v).join('');
+        }
+        return acc + key + (value ?? '');
+    }, url);
+}
+
+/**
+ * Reads form parameters from the raw body exactly as sent, keeping repeated names as arrays.
+ * A parser that expands `a[b]=1` into nested objects would change what is signed.
+ */
+function formParameters(rawBody: Buffer): Record<string, string | string[]> {
+    const params: Record<string, string | string[]> = {};
+    for (const [name, value] of new URLSearchParams(rawBody.toString('utf8'))) {
+        const existing = params[name];
+        params[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+    return params;
+}
+
+/**
+ * Computes the expected `X-Twilio-Signature` value for a request
+ *
+ * @param authToken The Twilio auth token
+ * @param url The full public URL of the request
+ * @param params Form parameters. Omit for JSON requests.
+ * @returns The base64 encoded HMAC-SHA1 signature
+ */
+export function computeTwilioSignature(authToken: string, url: string, params: Record<string, any> = {}): string {
+    return createHmac('sha1', authToken).update(buildSignedPayload(url, params), 'utf8').digest('base64');
+}
+
+/**
+ * Validates the `X-Twilio-Signature` of an inbound request.
+ *
+ * Form-encoded requests are signed over the URL plus sorted form parameters. JSON requests
+ * are signed over the URL only, which carries a `bodySHA256` query parameter that must match
+ * the SHA-256 of the raw body. Requests without a body, such as GET callbacks, are signed over
+ * the URL alone. Any other body is rejected, since the signature would not cover it.
+ *
+ * @param authToken The Twilio auth token
+ * @param request The request to validate
+ * @returns Whether the request is valid and, if not, why
+ */
+export function validateTwilioRequest(authToken: string, request: TwilioSignatureRequest): TwilioSignatureResult {
+    if (!request.signature) {
+        return { valid: false, reason: 'Missing X-Twilio-Signature header' };
+    }
+
+    const bodySHA256 = new URL(request.url).searchParams.get('bodySHA256');
+    if (bodySHA256 !== null) {
+        if (!safeEqual(computeTwilioSignature(authToken, request.url), request.signature)) {
+            return { valid: false, reason: 'Invalid X-Twilio-Signature' };
+        }
+        const actualHash = createHash('sha256').update(request.rawBody ?? Buffer.alloc(0)).digest('hex');
+        if (!safeEqual(actualHash, bodySHA256)) {
+            return { valid: false, reason: 'bodySHA256 does not match request body' };
+        }
+        return { valid: true };
+    }
+
+    let params: Record<string, any> = {};
+    if (request.contentType.includes('application/x-www-form-urlencoded')) {
+        params = request.rawBody ? formParameters(request.rawBody) : (request.body ?? {});
+    } else if (hasBody(request)) {
+        return { valid: false, reason: 'Body is not form-encoded and the URL has no bodySHA256 parameter' };
+    }
+    if (!safeEqual(computeTwilioSignature(authToken, request.url, params), request.signature)) {
+        return { valid: false, reason: 'Invalid X-Twilio-Signature' };
+    }
+    return { valid: true };
+}
+
+function hasBody(request: TwilioSignatureRequest): boolean {
+    if (request.rawBody) return request.rawBody.length > 0;
+    const body = request.body;
+    return body !== undefined && body !== null && body !== '' && !(typeof body === 'object' && Object.keys(body).length === 0);
+}
@@ -0,0 +1,85 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * The parts of an inbound request available to a {@link WebhookVerifier}.
+ */
+export interface WebhookVerificationRequest {
+    /** Request headers, with lower-cased names */
+    headers: IncomingHttpHeaders;
+    /** The raw request bytes exactly as received. Empty if the body could not be captured. */
+    rawBody: Buffer;
+    /** The parsed request body */
+    body: any;
+    /** The full public URL of the request, if known */
+    url: string | null;
+}
+
+/**
+ * Result of a {@link WebhookVerifier} check
+ */
+export interface WebhookVerificationResult {
+    valid: boolean;
+    /** Why verification failed. Only set when `valid` is false. */
+    reason?: string;
+}
+
+/**
+ * A WebhookVerifier authenticates callbacks from one kind of webhook sender.
+ *
+ * Verifiers are registered through the `verifiers` option of {@link CallbackHandlerOptions}.
+ * For each request, the handler runs every verifier whose {@link appliesTo} returns true and
+ * accepts the request if any of them succeeds. Requests that no verifier applies to are rejected.
+ */
+export interface WebhookVerifier {
+    /** Name reported in 'verificationFailed' events, e.g. `stripe` */
+    readonly name: string;
+
+    /**
+     * Whether this verifier knows how to check the request, typically by looking for its signature header
+     */
+    appliesTo(request: WebhookVerificationRequest): boolean;
+
+    /**
+     * Verifies the request signature
+     */
+    verify(request: WebhookVerificationRequest): WebhookVerificationResult | Promise<WebhookVerificationResult>;
+}
+
+/**
+ * Returns the first value of a header
+ */
+export function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Runs a list of verifiers against a request
+ *
+ * @param verifiers The registered verifiers
+ * @param request The request to verify
+ * @returns The result, plus the name of the verifier that produced a failure if one applied
+ */
+export async function runVerifiers(
+    verifiers: WebhookVerifier[],
+    request: WebhookVerificationRequest
+): Promise<WebhookVerificationResult & { verifier: string | null }> {
+    const applicable = verifiers.filter((verifier) => verifier.appliesTo(request));
+    if (applicable.length === 0) {
+        return { valid: false, verifier: null, reason: 'No verifier recognised the request' };
+    }
+
+    let failure: WebhookVerificationResult & { verifier: string | null } = { valid: false, verifier: null };
+    for (const verifier of applicable) {
+        try {
+            const result = await verifier.verify(request);
+            if (result.valid) {
+                return { valid: true, verifier: verifier.name };
+            }
+            failure = { valid: false, verifier: verifier.name, reason: result.reason ?? 'Verification failed' };
+        } catch (error) {
+            failure = { valid: false, verifier: verifier.name, reason: `Verifier threw: ${error}` };
+        }
+    }
+    return failure;
+}
@@ -0,0 +1,28 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Constant time comparison of two strings
+ */
+export function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Checks a unix timestamp (in seconds) against the current time
+ *
+ * @param timestamp The timestamp sent by the webhook sender
+ * @param toleranceSeconds Maximum allowed age (or clock skew) in seconds
+ * @returns A reason if the timestamp is outside the window, otherwise undefined
+ */
+export function checkTimestamp(timestamp: string | undefined, toleranceSeconds: number): string | undefined {
+    const seconds = Number(timestamp);
+    if (!timestamp || !Number.isFinite(seconds)) {
+        return 'Missing or invalid timestamp';
+    }
+    if (Math.abs(Date.now() / 1000 - seconds) > toleranceSeconds) {
+        return `Timestamp outside the ${toleranceSeconds}s tolerance window`;
+    }
+    return undefined;
+}
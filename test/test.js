@@ -53,7 +53,7 @@ const runTest = async () => {
         callbackHandler.on(CallbackHandlerEventNames.TUNNEL_STATUS, (data) => {
             if (data.level === 'error') {
                 console.error('Tunnel error:', data.message);
-            } else {
+            } else if (data.state === 'online') {
                 console.log(`Tunnel Status Callback URL: ${data.message}`);
             }
         });
@@ -57,7 +57,7 @@ const runTest = async (): Promise<void> => {
         callbackHandler.on(CallbackHandlerEventNames.TUNNEL_STATUS, (data: TunnelStatusEventData) => {
             if (data.level === 'error') {
                 console.error('Tunnel error:', data.message);
-            } else {
+            } else if (data.state === 'online') {
                 console.log(`Tunnel Status Callback URL: ${data.message}`);
             }
         });
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallbackHandler, createIpAllowlist } from '../../build/index.js';
+import { FakeTunnelProvider, simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+/**
+ * Starts a handler and collects its 'accessDenied' events
+ */
+async function startGuardedHandler(t, options) {
+    const { handler } = await startHandler(t, options);
+    const denied = [];
+    handler.on('accessDenied', (data) => denied.push(data));
+    return { handler, denied };
+}
+
+/**
+ * Sends a callback as if relayed by the tunnel agent for `ip`
+ */
+function fromIp(handler, ip, options = {}) {
+    return simulateCallback(handler, { body: { n: 1 }, ...options, headers: { 'x-forwarded-for': ip, ...options.headers } });
+}
+
+test('createIpAllowlist matches addresses and CIDR ranges of both families', () => {
+    const allowed = createIpAllowlist(['54.172.60.0/23', '2600:1f18::/32', '127.0.0.1']);
+    assert.equal(allowed('54.172.61.200'), true);
+    assert.equal(allowed('::ffff:54.172.60.1'), true);
+    assert.equal(allowed('2600:1f18:1234::1'), true);
+    assert.equal(allowed('127.0.0.1'), true);
+    assert.equal(allowed('54.172.62.1'), false);
+    assert.equal(allowed('not an address'), false);
+
+    assert.throws(() => createIpAllowlist(['10.0.0.0/33']), /Invalid IP address or range '10.0.0.0\/33'/);
+    assert.throws(() => createIpAllowlist(['example.com']), /Invalid IP address or range/);
+});
+
+test('allowIps checks the sender forwarded by the tunnel agent', async (t) => {
+    const { handler, denied } = await startGuardedHandler(t, { allowIps: ['203.0.113.0/24'] });
+
+    assert.equal((await fromIp(handler, '203.0.113.7')).status, 200);
+    assert.equal((await fromIp(handler, '198.51.100.1')).status, 403);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 403);
+
+    assert.equal(denied.length, 2);
+    assert.deepEqual(
+        { reason: denied[0].reason, status: denied[0].status, method: denied[0].method, url: denied[0].url, sourceIp: denied[0].sourceIp, route: denied[0].route },
+        { reason: 'ip_not_allowed', status: 403, method: 'POST', url: '/callback', sourceIp: '198.51.100.1', route: 'default' }
+    );
+    assert.ok(denied[0].receiptId);
+});
+
+test('rateLimit answers 429 with Retry-After once a sender exceeds its window', async (t) => {
+    const { handler, denied } = await startGuardedHandler(t, { rateLimit: { max: 2, windowMs: 60000 } });
+
+    assert.equal((await fromIp(handler, '203.0.113.1')).status, 200);
+    assert.equal((await fromIp(handler, '203.0.113.1')).status, 200);
+    const limited = await fromIp(handler, '203.0.113.1');
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '60');
+    assert.equal((await fromIp(handler, '203.0.113.2')).status, 200);
+    assert.deepEqual(denied.map((data) => [data.reason, data.sourceIp]), [['rate_limited', '203.0.113.1']]);
+});
+
+test('basicAuth requires the configured credentials', async (t) => {
+    const { handler, denied } = await startGuardedHandler(t, { basicAuth: { username: 'user', password: 'pass' } });
+    const basic = (credentials) => ({ authorization: `Basic ${Buffer.from(credentials).toString('base64')}` });
+
+    const missing = await simulateCallback(handler, { body: { n: 1 } });
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Basic realm="callbacks"');
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: basic('user:wrong') })).status, 401);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: basic('user:pass') })).status, 200);
+    assert.deepEqual(denied.map((data) => data.reason), ['unauthorized', 'unauthorized']);
+});
+
+test('pathToken puts a secret segment in every callback URL', async (t) => {
+    const { handler } = await startGuardedHandler(t, { pathToken: 'secret-token_1' });
+    const route = handler.createCallback('calls');
+    assert.equal(handler.getCallbackUrl(), 'https://fake-tunnel.test/secret-token_1/callback');
+    assert.match(route.url, /^https:\/\/fake-tunnel\.test\/secret-token_1\/callback\/calls\//);
+
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+    assert.equal((await simulateCallback(handler, { route, body: { n: 1 } })).status, 200);
+    assert.equal((await fetch(`http://127.0.0.1:${handler.getLocalPort()}/callback`, { method: 'POST' })).status, 404);
+
+    const { handler: random } = await startGuardedHandler(t, { pathToken: true });
+    assert.match(random.getCallbackUrl(), /^https:\/\/fake-tunnel\.test\/[A-Za-z0-9_-]{24}\/callback$/);
+    assert.throws(() => new CallbackHandler({ tunnelProvider: new FakeTunnelProvider(), pathToken: 'has/slash' }), /Invalid path token/);
+});
+
+test('bodies over bodyLimit are refused with 413', async (t) => {
+    const { handler, denied } = await startGuardedHandler(t, { bodyLimit: 32 });
+
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+    assert.equal((await simulateCallback(handler, { body: { padding: 'x'.repeat(64) } })).status, 413);
+    assert.deepEqual(denied.map((data) => [data.reason, data.status]), [['payload_too_large', 413]]);
+});
+
+test('refused requests are labelled with an existing route or a fixed label', async (t) => {
+    const { handler } = await startHandler(t, { metrics: true, basicAuth: { username: 'user', password: 'pass' } });
+    handler.on('accessDenied', () => undefined);
+    const route = handler.createCallback('calls');
+    const base = `http://127.0.0.1:${handler.getLocalPort()}/callback`;
+
+    for (const path of ['', `/calls/${route.id}`, '/calls/unknown-id', '/attacker-chosen/label']) {
+        assert.equal((await fetch(base + path, { method: 'POST' })).status, 401);
+    }
+
+    const rendered = handler.getMetrics().render();
+    assert.match(rendered, /rejected_total\{route="default",reason="unauthorized"\} 1/);
+    assert.match(rendered, /rejected_total\{route="calls",reason="unauthorized"\} 1/);
+    assert.match(rendered, /rejected_total\{route="unknown",reason="unauthorized"\} 2/);
+    assert.doesNotMatch(rendered, /attacker-chosen/);
+});
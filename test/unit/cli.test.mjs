@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile, spawn } from 'node:child_process';
+import { createServer } from 'node:http';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CLI = fileURLToPath(new URL('../../build/cli.js', import.meta.url));
+
+/**
+ * Runs the CLI to completion and resolves with its exit code and output
+ */
+function runCli(args) {
+    return new Promise((resolve) => {
+        execFile(process.execPath, [CLI, ...args], { timeout: 10000 }, (error, stdout, stderr) => {
+            resolve({ code: error ? error.code : 0, stdout, stderr });
+        });
+    });
+}
+
+function storedRecord(id, fields) {
+    return {
+        id,
+        receivedAt: '2025-01-01T00:00:00.000Z',
+        route: 'default',
+        callbackId: null,
+        headers: { 'content-type': 'application/json' },
+        method: 'POST',
+        url: '/callback?source=journal',
+        queryParameters: { source: 'journal' },
+        body: { id },
+        rawBody: Buffer.from(JSON.stringify({ id })).toString('base64'),
+        ...fields
+    };
+}
+
+test('the CLI prints usage for --help and fails on unknown commands and bad options', async () => {
+    const help = await runCli(['--help']);
+    assert.equal(help.code, 0);
+    assert.match(help.stdout, /Usage: mcp-status-callback <command>/);
+
+    const unknown = await runCli(['serve']);
+    assert.equal(unknown.code, 1);
+    assert.match(unknown.stderr, /Unknown command: serve/);
+
+    const since = await runCli(['replay', 'journal.jsonl', '--since', 'yesterday-ish']);
+    assert.equal(since.code, 1);
+    assert.match(since.stderr, /Invalid --since time: yesterday-ish/);
+
+    const port = await runCli(['listen', '--provider', 'local', '--port', '70000']);
+    assert.equal(port.code, 1);
+    assert.match(port.stderr, /Invalid port: 70000/);
+
+    const forward = await runCli(['forward']);
+    assert.equal(forward.code, 1);
+    assert.match(forward.stderr, /forward requires --to/);
+});
+
+test('replay relays journal records except suppressed duplicates', async (t) => {
+    const directory = await mkdtemp(join(tmpdir(), 'cli-journal-'));
+    t.after(() => rm(directory, { recursive: true, force: true }));
+    const journal = join(directory, 'callbacks.jsonl');
+    const records = [
+        storedRecord('first'),
+        storedRecord('retry', { duplicate: true }),
+        storedRecord('other-route', { route: 'calls' })
+    ];
+    await writeFile(journal, records.map((record) => JSON.stringify(record)).join('\n') + '\n');
+
+    const relayed = [];
+    const target = createServer((req, res) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            relayed.push({ url: req.url, body: Buffer.concat(chunks).toString() });
+            res.end('ok');
+        });
+    });
+    await new Promise((resolve) => target.listen(0, '127.0.0.1', resolve));
+    t.after(() => new Promise((resolve) => target.close(resolve)));
+
+    const result = await runCli(['replay', journal, '--route', 'default', '--to', `http://127.0.0.1:${target.address().port}/hook`]);
+    assert.equal(result.code, 0, result.stderr);
+    assert.match(result.stdout, /1 callback\(s\) replayed/);
+    assert.deepEqual(relayed, [{ url: '/hook?source=journal', body: '{"id":"first"}' }]);
+});
+
+test('listen prints the callback URL and each callback until interrupted', async (t) => {
+    const child = spawn(process.execPath, [CLI, 'listen', '--provider', 'local', '--port', '0'], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const killTimer = setTimeout(() => child.kill('SIGKILL'), 10000);
+    t.after(() => {
+        clearTimeout(killTimer);
+        if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+    });
+    const exited = new Promise((resolve) => child.on('exit', (code, signal) => resolve({ code, signal })));
+
+    let stdout = '';
+    const waiting = new Set();
+    child.stdout.on('data', (chunk) => {
+        stdout += chunk;
+        for (const check of waiting) check();
+    });
+    const waitForOutput = (pattern) => new Promise((resolve, reject) => {
+        const check = () => {
+            const match = pattern.exec(stdout);
+            if (match) {
+                waiting.delete(check);
+                resolve(match);
+            }
+        };
+        waiting.add(check);
+        child.once('exit', () => reject(new Error(`CLI exited early:\n${stdout}`)));
+        check();
+    });
+
+    const [, url] = await waitForOutput(/Callback URL: (\S+)/);
+    assert.match(url, /^http:\/\/localhost:\d+\/callback$/);
+
+    const response = await fetch(`${url.replace('localhost', '127.0.0.1')}?attempt=1`, { method: 'GET' });
+    assert.equal(response.status, 200);
+    await waitForOutput(/Query: \{\s+"attempt": "1"\s+\}/);
+
+    child.kill('SIGINT');
+    const { signal } = await exited;
+    assert.equal(signal, 'SIGINT');
+});
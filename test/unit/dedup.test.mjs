@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    Deduplicator,
+    MemoryCallbackStore,
+    defaultDeduplicationKey,
+    fieldsDeduplicationKey,
+    fieldsSchema
+} from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler, delay } from './helpers.mjs';
+
+test('deduplication suppresses repeated deliveries with the same idempotency key', async (t) => {
+    const { handler } = await startHandler(t, { deduplication: true });
+    const received = [];
+    const duplicates = [];
+    handler.on('callback', (data) => received.push(data));
+    handler.on('duplicate', (data) => duplicates.push(data));
+
+    const headers = { 'I-Twilio-Idempotency-Token': 'token-1' };
+    assert.equal((await simulateCallback(handler, { preset: 'twilio-call-completed', headers })).status, 200);
+    assert.equal((await simulateCallback(handler, { preset: 'twilio-call-completed', headers })).status, 200);
+    assert.equal((await simulateCallback(handler, { preset: 'twilio-call-completed', headers: { 'I-Twilio-Idempotency-Token': 'token-2' } })).status, 200);
+
+    assert.equal(received.length, 2);
+    assert.equal(duplicates.length, 1);
+    assert.equal(duplicates[0].duplicateKey, 'token-1');
+});
+
+test('suppressed duplicates are recorded in the store but not replayed by default', async (t) => {
+    const { handler } = await startHandler(t, { deduplication: true, store: new MemoryCallbackStore() });
+    handler.on('duplicate', () => undefined);
+
+    const headers = { 'Idempotency-Key': 'once' };
+    await simulateCallback(handler, { body: { n: 1 }, headers });
+    await simulateCallback(handler, { body: { n: 1 }, headers });
+
+    const history = await handler.history();
+    assert.equal(history.length, 2);
+    assert.equal(history[0].duplicate, undefined);
+    assert.equal(history[1].duplicate, true);
+
+    const replayed = [];
+    handler.on('callback', (data) => replayed.push(data));
+    assert.equal(await handler.replay(), 1);
+    assert.equal(replayed[0].receiptId, history[0].id);
+    assert.equal(await handler.replay({ includeDuplicates: true, limit: 1 }), 1);
+    assert.equal(replayed[1].receiptId, history[1].id);
+});
+
+test('deduplication lets a retry through when the first delivery failed', async (t) => {
+    const { handler } = await startHandler(t, { deduplication: true, failOnListenerError: true });
+    let calls = 0;
+    handler.on('callback', () => {
+        calls++;
+        if (calls === 1) throw new Error('listener failed');
+    });
+
+    const headers = { 'Idempotency-Key': 'retry-me' };
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers })).status, 500);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers })).status, 200);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers })).status, 200);
+    assert.equal(calls, 2);
+});
+
+test('deduplication lets a retry through when the body failed validation', async (t) => {
+    const schema = fieldsSchema([{ name: 'status', oneOf: ['done'] }]);
+    const { handler } = await startHandler(t, { deduplication: true, schema });
+    handler.on('validationError', () => undefined);
+
+    const headers = { 'Idempotency-Key': 'fix-and-resend' };
+    assert.equal((await simulateCallback(handler, { body: { status: 'bogus' }, headers })).status, 400);
+    const retry = await simulateCallback(handler, { body: { status: 'done' }, headers });
+    assert.equal(retry.status, 200);
+    assert.equal(retry.callback.body.status, 'done');
+});
+
+test('the default key prefers the Twilio token, then webhook-id or svix-id, then Idempotency-Key', () => {
+    const key = (headers) => defaultDeduplicationKey({ headers, queryParameters: {}, body: {}, route: 'default' });
+    assert.equal(key({ 'i-twilio-idempotency-token': 'tw', 'webhook-id': 'wh', 'idempotency-key': 'ik' }), 'tw');
+    assert.equal(key({ 'webhook-id': 'wh', 'idempotency-key': 'ik' }), 'wh');
+    assert.equal(key({ 'svix-id': 'sv' }), 'sv');
+    assert.equal(key({ 'idempotency-key': 'ik' }), 'ik');
+    assert.equal(key({}), undefined);
+});
+
+test('the Deduplicator scopes keys by route and forgets them after ttlMs', async () => {
+    const deduplicator = new Deduplicator({ key: fieldsDeduplicationKey(['CallSid', 'CallStatus']), ttlMs: 30 });
+    const request = (route, body) => ({ headers: {}, queryParameters: {}, body, route });
+
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1', CallStatus: 'ringing' })), undefined);
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1', CallStatus: 'ringing' })), 'CA1+ringing');
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1', CallStatus: 'completed' })), undefined);
+    assert.equal(deduplicator.check(request('calls', { CallSid: 'CA1', CallStatus: 'ringing' })), undefined);
+    // Requests without every field have no key and are never suppressed
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1' })), undefined);
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1' })), undefined);
+
+    await delay(50);
+    assert.equal(deduplicator.check(request('default', { CallSid: 'CA1', CallStatus: 'ringing' })), undefined);
+});
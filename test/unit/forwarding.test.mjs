@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { gzipSync } from 'node:zlib';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler, nextEvent, delay } from './helpers.mjs';
+
+/**
+ * Starts a forward target that records each request and answers with `reply(request)`,
+ * a status code or a promise of one. Stopped when the test ends.
+ */
+async function startTarget(t, reply = () => 200) {
+    const relayed = [];
+    const target = createServer((req, res) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', async () => {
+            const request = { method: req.method, url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString() };
+            relayed.push(request);
+            res.statusCode = await reply(request);
+            res.end('ok');
+        });
+    });
+    await new Promise((resolve) => target.listen(0, '127.0.0.1', resolve));
+    t.after(() => {
+        target.closeAllConnections();
+        return new Promise((resolve) => target.close(resolve));
+    });
+    return { relayed, url: `http://127.0.0.1:${target.address().port}` };
+}
+
+test('forwarding relays the method, original query string and body, without credentials', async (t) => {
+    const target = await startTarget(t);
+    const { handler } = await startHandler(t, {
+        forward: { targets: [{ url: `${target.url}/hook?source=test`, headers: { 'x-target': 'yes' } }] }
+    });
+    const forwarded = nextEvent(handler, 'forwardSuccess');
+    await simulateCallback(handler, {
+        body: 'a=1&b=x%20y',
+        query: { q: 'a b', list: '1' },
+        headers: { 'content-type': 'application/x-www-form-urlencoded', authorization: 'Bearer secret', cookie: 'session=1' }
+    });
+    await forwarded;
+
+    assert.equal(target.relayed.length, 1);
+    const [request] = target.relayed;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/hook?source=test&q=a+b&list=1');
+    assert.equal(request.body, 'a=1&b=x%20y');
+    assert.equal(request.headers['x-target'], 'yes');
+    assert.equal(request.headers.authorization, undefined);
+    assert.equal(request.headers.cookie, undefined);
+});
+
+test('forwarding relays a compressed callback decompressed, without Content-Encoding', async (t) => {
+    const target = await startTarget(t);
+    const { handler } = await startHandler(t, { forward: { targets: [{ url: `${target.url}/hook` }] } });
+    const forwarded = nextEvent(handler, 'forwardSuccess');
+    const result = await simulateCallback(handler, {
+        body: gzipSync('{"status":"done"}'),
+        headers: { 'content-type': 'application/json', 'content-encoding': 'gzip' }
+    });
+    assert.deepEqual(result.callback.body, { status: 'done' });
+    await forwarded;
+
+    assert.equal(target.relayed[0].body, '{"status":"done"}');
+    assert.equal(target.relayed[0].headers['content-encoding'], undefined);
+    assert.equal(target.relayed[0].headers['content-type'], 'application/json');
+});
+
+test('targets only receive the routes and bodies they filter for', async (t) => {
+    const calls = await startTarget(t);
+    const failures = await startTarget(t);
+    const { handler } = await startHandler(t, {
+        forward: {
+            targets: [
+                { url: calls.url, routes: ['calls'] },
+                { url: failures.url, filter: (data) => data.body.status === 'failed' }
+            ]
+        }
+    });
+    const route = handler.createCallback('calls');
+    const results = [];
+    handler.on('forwardSuccess', (data) => results.push(data));
+
+    await simulateCallback(handler, { route, body: { status: 'done' } });
+    await simulateCallback(handler, { body: { status: 'failed' } });
+    await simulateCallback(handler, { body: { status: 'done' } });
+    await handler.stop();
+
+    assert.deepEqual(calls.relayed.map((request) => request.body), ['{"status":"done"}']);
+    assert.deepEqual(failures.relayed.map((request) => request.body), ['{"status":"failed"}']);
+    assert.equal(results.length, 2);
+});
+
+test('forwarding retries 5xx and 429 replies with backoff until the target succeeds', async (t) => {
+    const replies = [503, 429, 200];
+    const target = await startTarget(t, () => replies.shift());
+    const { handler } = await startHandler(t, {
+        forward: { targets: [{ url: target.url, name: 'flaky', retry: { maxAttempts: 3, initialDelayMs: 10 } }] }
+    });
+    const forwarded = nextEvent(handler, 'forwardSuccess');
+    await simulateCallback(handler, { body: { n: 1 } });
+
+    const result = await forwarded;
+    assert.equal(result.target, 'flaky');
+    assert.equal(result.status, 200);
+    assert.equal(result.attempts, 3);
+    assert.equal(target.relayed.length, 3);
+    assert.deepEqual(handler.getDeadLetters(), []);
+});
+
+test('forwarding records a dead letter when the target keeps failing', async (t) => {
+    const target = await startTarget(t, () => 400);
+    const { handler } = await startHandler(t, {
+        forward: { targets: [{ url: `${target.url}/hook`, name: 'broken' }] }
+    });
+    const failed = nextEvent(handler, 'forwardFailed');
+    await simulateCallback(handler, { body: { n: 1 } });
+    await failed;
+
+    const [deadLetter] = handler.getDeadLetters();
+    assert.equal(deadLetter.target, 'broken');
+    assert.equal(deadLetter.status, 400);
+    assert.equal(deadLetter.attempts, 1);
+});
+
+test('a target that times out is dead-lettered, and retryDeadLetters forwards it again', async (t) => {
+    let slow = true;
+    const target = await startTarget(t, async () => {
+        if (slow) await delay(500);
+        return 200;
+    });
+    const { handler } = await startHandler(t, {
+        forward: { targets: [{ url: target.url, timeoutMs: 50, retry: false }] }
+    });
+    const failed = nextEvent(handler, 'forwardFailed');
+    await simulateCallback(handler, { body: { n: 1 } });
+    const failure = await failed;
+    assert.equal(failure.status, null);
+    assert.equal(handler.getDeadLetters().length, 1);
+
+    slow = false;
+    const forwarded = nextEvent(handler, 'forwardSuccess');
+    assert.equal(handler.retryDeadLetters(), 1);
+    assert.equal((await forwarded).status, 200);
+    assert.deepEqual(handler.getDeadLetters(), []);
+    assert.equal(target.relayed.length, 2);
+});
@@ -0,0 +1,28 @@
+// Shared setup for the offline unit tests. They run against the compiled package in build/.
+import { CallbackHandler } from '../../build/index.js';
+import { FakeTunnelProvider } from '../../build/testing/index.js';
+
+/**
+ * Starts a handler on a free port behind a FakeTunnelProvider and stops it when the test ends
+ *
+ * @param t The node:test context
+ * @param options Extra CallbackHandler options
+ */
+export async function startHandler(t, options = {}) {
+    const tunnelProvider = options.tunnelProvider ?? new FakeTunnelProvider();
+    const handler = new CallbackHandler({ port: 0, ...options, tunnelProvider });
+    // Keep log events from being unhandled noise
+    handler.on('log', () => undefined);
+    t.after(() => handler.stop());
+    await handler.start();
+    return { handler, tunnelProvider };
+}
+
+/**
+ * Resolves on the next `event` emitted by `emitter`
+ */
+export function nextEvent(emitter, event) {
+    return new Promise((resolve) => emitter.once(event, resolve));
+}
+
+export const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallbackHub, GitHubSignatureVerifier } from '../../build/index.js';
+import { FakeTunnelProvider, simulateCallback } from '../../build/testing/index.js';
+import { delay } from './helpers.mjs';
+
+/**
+ * Creates a hub on a free port behind a FakeTunnelProvider and stops it when the test ends
+ */
+function createHub(t) {
+    const tunnelProvider = new FakeTunnelProvider();
+    const hub = new CallbackHub({ tunnelProvider, port: 0 });
+    hub.on('log', () => undefined);
+    t.after(() => hub.stop());
+    return { hub, tunnelProvider };
+}
+
+test('handlers on a hub share its server and tunnel and keep their own settings', async (t) => {
+    const { hub, tunnelProvider } = createHub(t);
+    const plain = hub.createHandler('plain');
+    const github = hub.createHandler('github', { verifiers: [new GitHubSignatureVerifier({ secret: 'gh' })] });
+
+    await Promise.all([plain.start(), github.start()]);
+    assert.equal(plain.getCallbackUrl(), 'https://fake-tunnel.test/plain/callback');
+    assert.equal(github.getCallbackUrl(), 'https://fake-tunnel.test/github/callback');
+    assert.equal(plain.getLocalPort(), github.getLocalPort());
+    assert.equal(tunnelProvider.connectCount, 1);
+
+    const received = [];
+    plain.on('callback', () => received.push('plain'));
+    github.on('callback', () => received.push('github'));
+    assert.equal((await simulateCallback(plain, { body: { n: 1 } })).status, 200);
+    assert.equal((await simulateCallback(github, { body: { n: 1 } })).status, 401);
+    assert.equal((await simulateCallback(github, { body: { n: 1 }, sign: { github: 'gh' } })).status, 200);
+    assert.deepEqual(received, ['plain', 'github']);
+});
+
+test('stopping one handler leaves the hub and the other handlers running', async (t) => {
+    const { hub, tunnelProvider } = createHub(t);
+    const first = hub.createHandler('first');
+    const second = hub.createHandler('second');
+    await first.start();
+    await second.start();
+
+    await first.stop();
+    assert.equal(first.state, 'stopped');
+    assert.equal(tunnelProvider.status(), 'connected');
+    assert.equal((await fetch(`${hub.getLocalUrl()}/first/callback`, { method: 'POST' })).status, 503);
+    assert.equal((await simulateCallback(second, { body: { n: 1 } })).status, 200);
+
+    await hub.stop();
+    assert.equal(second.state, 'stopped');
+    assert.equal(tunnelProvider.status(), 'disconnected');
+    assert.equal(hub.getLocalPort(), null);
+});
+
+test('hub.stop() drains and stops handlers that were never started', async (t) => {
+    const { hub } = createHub(t);
+    const idle = hub.createHandler('idle');
+    const states = [];
+    idle.on('stateChange', (data) => states.push(data.state));
+    let finished = false;
+    idle.on('callback', async () => {
+        await delay(50);
+        finished = true;
+    });
+
+    await hub.start();
+    assert.equal(idle.state, 'idle');
+    assert.equal((await simulateCallback(idle, { body: { n: 1 } })).status, 200);
+
+    const pending = simulateCallback(idle, { body: { n: 2 } });
+    await delay(10);
+    await hub.stop();
+    assert.equal(finished, true);
+    assert.equal((await pending).status, 200);
+    assert.deepEqual(states, ['stopping', 'stopped']);
+});
+
+test('hub prefixes must be valid and unique', (t) => {
+    const { hub } = createHub(t);
+    hub.createHandler('calls');
+    assert.throws(() => hub.createHandler('calls'), /already mounted/);
+    assert.throws(() => hub.createHandler('no/slashes'), /Invalid handler prefix/);
+});
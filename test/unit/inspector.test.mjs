@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+/**
+ * Sends a GET with an explicit Host header, which fetch does not allow
+ */
+function getWithHost(url, host) {
+    return new Promise((resolve, reject) => {
+        request(url, { headers: { host } }, (res) => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode));
+        }).on('error', reject).end();
+    });
+}
+
+test('the inspector is disabled by default', async (t) => {
+    const { handler } = await startHandler(t);
+    assert.equal(handler.getInspectorUrl(), null);
+    assert.equal((await fetch(`http://127.0.0.1:${handler.getLocalPort()}/inspector/`)).status, 404);
+});
+
+test('the inspector lists callbacks on the local admin listener only', async (t) => {
+    const { handler } = await startHandler(t, { inspector: { maxEntries: 2 } });
+    const route = handler.createCallback('calls');
+    await simulateCallback(handler, { body: { n: 1 } });
+    await simulateCallback(handler, { route, body: { n: 2 }, query: { attempt: '1' } });
+    await simulateCallback(handler, { body: { n: 3 } });
+
+    const inspectorUrl = handler.getInspectorUrl();
+    assert.match(inspectorUrl, /^http:\/\/127\.0\.0\.1:\d+\/inspector\/$/);
+    const page = await fetch(inspectorUrl);
+    assert.match(page.headers.get('content-type'), /^text\/html/);
+    const redirect = await fetch(inspectorUrl.slice(0, -1), { redirect: 'manual' });
+    assert.equal(redirect.status, 302);
+
+    const listed = await (await fetch(`${inspectorUrl}api/callbacks`)).json();
+    assert.deepEqual(listed.map((entry) => entry.body.n), [2, 3]);
+    const [calls] = await (await fetch(`${inspectorUrl}api/callbacks?route=calls`)).json();
+    assert.equal(calls.route, 'calls');
+    assert.equal(calls.callbackId, route.id);
+    assert.deepEqual(calls.queryParameters, { attempt: '1' });
+    assert.match(calls.curl, new RegExp(`^curl -X POST '${route.url}\\?attempt=1'`));
+    assert.match(calls.curl, /--data-binary '\{"n":2\}'$/);
+
+    // Nothing on the port the tunnel forwards to
+    assert.equal((await fetch(`http://127.0.0.1:${handler.getLocalPort()}/inspector/`)).status, 404);
+});
+
+test('the admin listener refuses requests whose Host is not a loopback name', async (t) => {
+    const { handler } = await startHandler(t, { inspector: true });
+    const { port } = new URL(handler.getInspectorUrl());
+
+    assert.equal(await getWithHost(handler.getInspectorUrl(), `localhost:${port}`), 200);
+    assert.equal(await getWithHost(handler.getInspectorUrl(), `127.0.0.1:${port}`), 200);
+    assert.equal(await getWithHost(handler.getInspectorUrl(), `rebind.example:${port}`), 403);
+});
+
+test('new callbacks are streamed to connected pages over Server-Sent Events', async (t) => {
+    const { handler } = await startHandler(t, { inspector: true });
+    const controller = new AbortController();
+    t.after(() => controller.abort());
+    const events = await fetch(`${handler.getInspectorUrl()}api/events`, { signal: controller.signal });
+    assert.equal(events.headers.get('content-type'), 'text/event-stream');
+
+    const reader = events.body.pipeThrough(new TextDecoderStream()).getReader();
+    let received = '';
+    const streamed = (async () => {
+        while (!received.includes('event: callback\ndata: ')) {
+            received += (await reader.read()).value;
+        }
+        await reader.cancel();
+    })();
+    await simulateCallback(handler, { body: { n: 1 } });
+    await streamed;
+
+    const [, json] = /event: callback\ndata: (.*)\n/.exec(received);
+    assert.deepEqual(JSON.parse(json).body, { n: 1 });
+});
+
+test('replay re-emits a listed callback only with the X-Inspector header', async (t) => {
+    const { handler } = await startHandler(t, { inspector: true });
+    const { callback } = await simulateCallback(handler, { body: { n: 1 } });
+    const replayed = [];
+    handler.on('callback', (data) => replayed.push(data));
+    const replayUrl = (id) => `${handler.getInspectorUrl()}api/callbacks/${id}/replay`;
+
+    assert.equal((await fetch(replayUrl(callback.receiptId), { method: 'POST' })).status, 403);
+    assert.equal((await fetch(replayUrl('unknown'), { method: 'POST', headers: { 'X-Inspector': '1' } })).status, 404);
+    const accepted = await fetch(replayUrl(callback.receiptId), { method: 'POST', headers: { 'X-Inspector': '1' } });
+    assert.equal(accepted.status, 202);
+    assert.deepEqual(await accepted.json(), { replayed: callback.receiptId });
+
+    assert.equal(replayed.length, 1);
+    assert.equal(replayed[0].replayed, true);
+    assert.deepEqual(replayed[0].body, { n: 1 });
+});
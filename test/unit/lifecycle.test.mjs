@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { CallbackHandler } from '../../build/index.js';
+import { FakeTunnelProvider, simulateCallback } from '../../build/testing/index.js';
+import { startHandler, delay } from './helpers.mjs';
+
+/**
+ * A FakeTunnelProvider whose connect takes a while, to call stop() while the handler is starting
+ */
+class SlowTunnelProvider extends FakeTunnelProvider {
+    async connect(...args) {
+        await delay(50);
+        return super.connect(...args);
+    }
+}
+
+/**
+ * Starts a forward target that answers after `delayMs`, or never when it is null
+ */
+async function startTarget(t, delayMs) {
+    const target = createServer((req, res) => {
+        req.resume();
+        if (delayMs !== null) setTimeout(() => res.end('ok'), delayMs);
+    });
+    await new Promise((resolve) => target.listen(0, '127.0.0.1', resolve));
+    t.after(() => {
+        target.closeAllConnections();
+        return new Promise((resolve) => target.close(resolve));
+    });
+    return `http://127.0.0.1:${target.address().port}/hook`;
+}
+
+test('stop() while starting waits for the start and then stops', async () => {
+    const tunnelProvider = new SlowTunnelProvider();
+    const handler = new CallbackHandler({ tunnelProvider, port: 0, handleSignals: true });
+    const sigtermListeners = process.listenerCount('SIGTERM');
+    const states = [];
+    handler.on('stateChange', (data) => states.push(data.state));
+
+    const starting = handler.start();
+    const stopping = handler.stop();
+    assert.equal(await starting, 'https://fake-tunnel.test/callback');
+    await stopping;
+
+    assert.deepEqual(states, ['starting', 'running', 'stopping', 'stopped']);
+    assert.equal(handler.state, 'stopped');
+    assert.equal(handler.getLocalPort(), null);
+    assert.equal(tunnelProvider.status(), 'disconnected');
+    assert.equal(process.listenerCount('SIGTERM'), sigtermListeners);
+});
+
+test('stop() while a start fails leaves the handler stopped', async () => {
+    const tunnelProvider = new SlowTunnelProvider();
+    tunnelProvider.failNextConnect(new Error('no tunnel'));
+    const handler = new CallbackHandler({ tunnelProvider, port: 0 });
+    handler.on('log', () => undefined);
+
+    const starting = handler.start();
+    const stopping = handler.stop();
+    await assert.rejects(starting, /no tunnel/);
+    await stopping;
+    assert.equal(handler.state, 'stopped');
+});
+
+test('stop() waits for async listeners and answers new callbacks with 503 meanwhile', async (t) => {
+    const { handler } = await startHandler(t);
+    let finished = false;
+    handler.on('callback', async () => {
+        await delay(100);
+        finished = true;
+    });
+
+    const pending = simulateCallback(handler, { body: { n: 1 } });
+    await delay(20);
+    const stopping = handler.stop();
+    assert.equal(handler.state, 'stopping');
+    const refused = await fetch(`http://127.0.0.1:${handler.getLocalPort()}/callback`, { method: 'POST' });
+    assert.equal(refused.status, 503);
+
+    await stopping;
+    assert.equal(finished, true);
+    assert.equal((await pending).status, 200);
+});
+
+test('stop() waits for forward deliveries that are in flight', async (t) => {
+    const url = await startTarget(t, 100);
+    const { handler } = await startHandler(t, { forward: { targets: [{ url }] } });
+    const events = [];
+    handler.on('forwardSuccess', () => events.push('forwardSuccess'));
+    handler.on('stateChange', (data) => events.push(data.state));
+
+    await simulateCallback(handler, { body: { n: 1 } });
+    await handler.stop({ drainTimeoutMs: 2000 });
+    assert.deepEqual(events, ['stopping', 'forwardSuccess', 'stopped']);
+});
+
+test('stop() aborts forward deliveries still running after drainTimeoutMs', async (t) => {
+    const url = await startTarget(t, null);
+    const { handler } = await startHandler(t, { forward: { targets: [{ url, name: 'hung' }] } });
+    const events = [];
+    handler.on('forwardFailed', (result) => events.push(result.error.message));
+    handler.on('stateChange', (data) => events.push(data.state));
+
+    await simulateCallback(handler, { body: { n: 1 } });
+    await delay(20);
+    await handler.stop({ drainTimeoutMs: 50 });
+    assert.deepEqual(events, ['stopping', 'Forwarding stopped', 'stopped']);
+    assert.equal(handler.getDeadLetters()[0].target, 'hung');
+});
+
+test('handleSignals stops the handler on SIGTERM', async () => {
+    const handler = new CallbackHandler({ tunnelProvider: new FakeTunnelProvider(), port: 0, handleSignals: true });
+    handler.on('log', () => undefined);
+    // Keep the default behaviour (exiting) away from the test process
+    const keepAlive = () => undefined;
+    process.on('SIGTERM', keepAlive);
+    try {
+        await handler.start();
+        const stopped = new Promise((resolve) => handler.on('stateChange', (data) => data.state === 'stopped' && resolve()));
+        process.emit('SIGTERM', 'SIGTERM');
+        await stopped;
+        // Let the signal handler check for other listeners before keepAlive goes
+        await delay(10);
+        assert.equal(handler.getLocalPort(), null);
+        assert.deepEqual(process.listeners('SIGTERM'), [keepAlive]);
+    } finally {
+        process.removeListener('SIGTERM', keepAlive);
+    }
+});
+
+test('a handler starts, serves callbacks and stops', async () => {
+    const tunnelProvider = new FakeTunnelProvider();
+    const handler = new CallbackHandler({ tunnelProvider, port: 0 });
+    const states = [];
+    handler.on('stateChange', (data) => states.push(data.state));
+
+    assert.equal(await handler.start(), 'https://fake-tunnel.test/callback');
+    assert.equal(handler.getTunnelState(), 'online');
+    await assert.rejects(handler.start(), /is running/);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+
+    await handler.stop();
+    assert.equal(handler.getLocalPort(), null);
+    assert.equal(tunnelProvider.status(), 'disconnected');
+    await handler.stop();
+    assert.deepEqual(states, ['starting', 'running', 'stopping', 'stopped']);
+});
+
+test('a handler whose tunnel fails to start releases its port and can start again', async (t) => {
+    const tunnelProvider = new FakeTunnelProvider();
+    tunnelProvider.failNextConnect(new Error('no tunnel'));
+    const handler = new CallbackHandler({ tunnelProvider, port: 0 });
+    handler.on('log', () => undefined);
+    t.after(() => handler.stop());
+
+    await assert.rejects(handler.start(), /no tunnel/);
+    assert.equal(handler.getLocalPort(), null);
+    assert.equal(await handler.start(), 'https://fake-tunnel.test/callback');
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { InMemoryTransport, JsonRpcClient, McpCallbackBridge, StdioTransport } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler, nextEvent } from './helpers.mjs';
+
+test('the MCP bridge negotiates versions, reuses named routes and reports invalid names as tool errors', async (t) => {
+    const { handler } = await startHandler(t);
+    const bridge = new McpCallbackBridge(handler);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    bridge.connect(serverTransport);
+    const client = new JsonRpcClient(clientTransport);
+    t.after(() => bridge.close());
+
+    assert.equal((await client.request('initialize', { protocolVersion: '2024-11-05' })).protocolVersion, '2024-11-05');
+    assert.equal((await client.request('initialize', { protocolVersion: '1999-01-01' })).protocolVersion, '2025-03-26');
+
+    const first = await client.request('tools/call', { name: 'get_callback_url', arguments: { name: 'calls' } });
+    const second = await client.request('tools/call', { name: 'get_callback_url', arguments: { name: 'calls' } });
+    assert.equal(JSON.parse(first.content[0].text).url, JSON.parse(second.content[0].text).url);
+    assert.equal(handler.getCallbacks().length, 1);
+
+    const invalid = await client.request('tools/call', { name: 'get_callback_url', arguments: { name: 'bad name' } });
+    assert.equal(invalid.isError, true);
+    assert.match(invalid.content[0].text, /Invalid callback route/);
+});
+
+test('the MCP bridge sends resource updates only for subscribed URIs', async (t) => {
+    const { handler } = await startHandler(t);
+    const bridge = new McpCallbackBridge(handler);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    bridge.connect(serverTransport);
+    const client = new JsonRpcClient(clientTransport);
+    t.after(() => bridge.close());
+    const notifications = [];
+    client.on('notification', (message) => notifications.push(message.method));
+
+    const { capabilities } = await client.request('initialize', { protocolVersion: '2025-03-26' });
+    assert.deepEqual(capabilities.resources, { subscribe: true, listChanged: true });
+
+    await simulateCallback(handler, { body: { n: 1 } });
+    await client.request('ping');
+    assert.deepEqual(notifications, ['notifications/resources/list_changed']);
+
+    await client.request('resources/subscribe', { uri: 'callback://recent' });
+    notifications.length = 0;
+    await simulateCallback(handler, { body: { n: 2 } });
+    await client.request('ping');
+    assert.deepEqual(notifications, ['notifications/resources/list_changed', 'notifications/resources/updated']);
+
+    await client.request('resources/unsubscribe', { uri: 'callback://recent' });
+    notifications.length = 0;
+    await simulateCallback(handler, { body: { n: 3 } });
+    await client.request('ping');
+    assert.deepEqual(notifications, ['notifications/resources/list_changed']);
+
+    await assert.rejects(client.request('resources/subscribe', {}), /Missing resource uri/);
+});
+
+test('StdioTransport answers lines that are not JSON with a parse error', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const transport = new StdioTransport({ input, output });
+    const received = [];
+    transport.onMessage((message) => received.push(message));
+
+    const reply = nextEvent(output, 'data');
+    input.write('{not json\n');
+    assert.deepEqual(JSON.parse((await reply).toString()), { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+
+    const delivered = new Promise((resolve) => transport.onMessage(resolve));
+    input.write(JSON.stringify({ jsonrpc: '2.0', method: 'ping', id: 1 }) + '\n');
+    assert.equal((await delivered).method, 'ping');
+    assert.deepEqual(received, []);
+    await transport.close();
+});
+
+test('the MCP bridge waits for callbacks and serves them as tools and resources', async (t) => {
+    const { handler } = await startHandler(t);
+    const bridge = new McpCallbackBridge(handler, { maxCallbacks: 2 });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    bridge.connect(serverTransport);
+    const client = new JsonRpcClient(clientTransport);
+    t.after(() => bridge.close());
+
+    const tools = await client.request('tools/list');
+    assert.deepEqual(tools.tools.map((tool) => tool.name), ['get_callback_url', 'wait_for_callback', 'list_recent_callbacks']);
+
+    const waiting = client.request('tools/call', { name: 'wait_for_callback', arguments: { match: { CallSid: 'CA9' }, timeoutMs: 2000 } });
+    await simulateCallback(handler, { preset: 'twilio-call-completed', overrides: { CallSid: 'CA9' } });
+    assert.equal(JSON.parse((await waiting).content[0].text).body.CallSid, 'CA9');
+
+    const timedOut = await client.request('tools/call', { name: 'wait_for_callback', arguments: { match: { CallSid: 'never' }, timeoutMs: 20 } });
+    assert.equal(timedOut.isError, true);
+
+    await simulateCallback(handler, { body: { n: 2 } });
+    await simulateCallback(handler, { body: { n: 3 } });
+    const recent = JSON.parse((await client.request('tools/call', { name: 'list_recent_callbacks', arguments: { limit: 5 } })).content[0].text);
+    assert.deepEqual(recent.map((entry) => entry.body.n), [2, 3]);
+
+    const { resources } = await client.request('resources/list');
+    assert.equal(resources[0].uri, 'callback://recent');
+    assert.equal(resources.length, 3);
+    const read = await client.request('resources/read', { uri: resources[2].uri });
+    assert.equal(JSON.parse(read.contents[0].text).body.n, 3);
+
+    await assert.rejects(client.request('resources/read', { uri: 'callback://received/missing' }), /Resource not found/);
+    await assert.rejects(client.request('tools/call', { name: 'unknown_tool' }), /Unknown tool/);
+    await assert.rejects(client.request('no/such/method'), /Method not found/);
+});
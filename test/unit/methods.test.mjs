@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('methods that are not accepted get 405 with an Allow header', async (t) => {
+    const { handler } = await startHandler(t, { methods: ['get', 'POST'] });
+    const route = handler.createCallback('jobs');
+
+    const put = await simulateCallback(handler, { method: 'PUT', body: { n: 1 } });
+    assert.equal(put.status, 405);
+    assert.equal(put.headers.get('allow'), 'GET, POST');
+    assert.equal((await simulateCallback(handler, { route, method: 'DELETE' })).status, 405);
+
+    const get = await simulateCallback(handler, { method: 'GET', query: { CallStatus: 'ringing' } });
+    assert.equal(get.status, 200);
+    assert.equal(get.callback.method, 'GET');
+    assert.deepEqual(get.callback.queryParameters, { CallStatus: 'ringing' });
+});
+
+test('only POST is accepted by default', async (t) => {
+    const { handler } = await startHandler(t);
+    const get = await simulateCallback(handler, { method: 'GET' });
+    assert.equal(get.status, 405);
+    assert.equal(get.headers.get('allow'), 'POST');
+});
+
+test('callbacks carry a receipt, the request metadata and the raw body', async (t) => {
+    const { handler } = await startHandler(t);
+    const before = Date.now();
+    const { callback } = await simulateCallback(handler, {
+        body: '{"n":1}',
+        query: { attempt: '2' },
+        headers: { 'content-type': 'application/json', 'x-request-source': 'test' }
+    });
+
+    assert.match(callback.receiptId, /^[0-9a-f-]{36}$/);
+    assert.ok(Date.parse(callback.receivedAt) >= before - 1000);
+    assert.equal(callback.method, 'POST');
+    assert.equal(callback.url, '/callback?attempt=2');
+    assert.match(callback.sourceIp, /127\.0\.0\.1/);
+    assert.equal(callback.contentType, 'application/json');
+    assert.equal(callback.headers['x-request-source'], 'test');
+    assert.deepEqual(callback.rawBody, Buffer.from('{"n":1}'));
+
+    const second = await simulateCallback(handler, { body: { n: 2 } });
+    assert.notEqual(second.callback.receiptId, callback.receiptId);
+});
+
+test('the request event reports every answered request, including unknown paths', async (t) => {
+    const { handler } = await startHandler(t);
+    const requests = [];
+    handler.on('request', (data) => requests.push(data));
+    const callbacks = [];
+    handler.on('callback', (data) => callbacks.push(data));
+
+    await simulateCallback(handler, { body: { n: 1 } });
+    const unknown = await fetch(`http://127.0.0.1:${handler.getLocalPort()}/callback/missing/route`, { method: 'POST' });
+    assert.equal(unknown.status, 404);
+    await simulateCallback(handler, { method: 'PATCH' });
+
+    assert.deepEqual(requests.map((data) => [data.method, data.url, data.status, data.level]), [
+        ['POST', '/callback', 200, 'info'],
+        ['POST', '/callback/missing/route', 404, 'warn'],
+        ['PATCH', '/callback', 405, 'warn']
+    ]);
+    assert.equal(requests[0].receiptId, callbacks[0].receiptId);
+    assert.ok(requests.every((data) => data.durationMs >= 0 && typeof data.sourceIp === 'string'));
+});
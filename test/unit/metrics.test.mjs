@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LogCodes, MetricsRegistry, consoleLogger, pinoLogger } from '../../build/index.js';
+import { FakeTunnelProvider, simulateCallback } from '../../build/testing/index.js';
+import { startHandler, nextEvent } from './helpers.mjs';
+
+test('metrics count received, rejected and duplicate callbacks per route on the admin listener', async (t) => {
+    const { handler } = await startHandler(t, { metrics: true, deduplication: true });
+    handler.on('accessDenied', () => undefined);
+    const route = handler.createCallback('calls');
+
+    await simulateCallback(handler, { body: { n: 1 }, headers: { 'idempotency-key': 'one' } });
+    await simulateCallback(handler, { body: { n: 1 }, headers: { 'idempotency-key': 'one' } });
+    await simulateCallback(handler, { route, body: { n: 2 } });
+    await simulateCallback(handler, { body: '<status>', headers: { 'content-type': 'application/xml' } });
+
+    const response = await fetch(handler.getMetricsUrl());
+    assert.match(response.headers.get('content-type'), /^text\/plain;.*version=0\.0\.4/);
+    const rendered = await response.text();
+    assert.match(rendered, /^# TYPE mcp_status_callback_callbacks_received_total counter$/m);
+    assert.match(rendered, /callbacks_received_total\{route="default"\} 1$/m);
+    assert.match(rendered, /callbacks_received_total\{route="calls"\} 1$/m);
+    assert.match(rendered, /callbacks_duplicate_total\{route="default"\} 1$/m);
+    assert.match(rendered, /callbacks_rejected_total\{route="default",reason="malformed"\} 1$/m);
+    assert.match(rendered, /response_duration_seconds_count\{route="calls"\} 1$/m);
+
+    // Nothing on the port the tunnel forwards to
+    assert.equal((await fetch(`http://127.0.0.1:${handler.getLocalPort()}/metrics`)).status, 404);
+});
+
+test('metrics can be moved, or recorded into a registry of your own without an endpoint', async (t) => {
+    const { handler: moved } = await startHandler(t, { metrics: { path: '/internal/metrics' } });
+    assert.match(moved.getMetricsUrl(), /^http:\/\/127\.0\.0\.1:\d+\/internal\/metrics$/);
+    assert.equal((await fetch(moved.getMetricsUrl())).status, 200);
+
+    const registry = new MetricsRegistry();
+    const { handler } = await startHandler(t, { metrics: { registry, path: false } });
+    await simulateCallback(handler, { body: { n: 1 } });
+    assert.equal(handler.getMetricsUrl(), null);
+    assert.equal(handler.getMetrics(), registry);
+    assert.match(registry.render(), /callbacks_received_total\{route="default"\} 1$/m);
+});
+
+test('the handler re-emits reconnects with its callback URL and counts successful ones', async (t) => {
+    const tunnelProvider = new FakeTunnelProvider({ publicUrl: ['https://first.test', 'https://second.test'] });
+    const { handler } = await startHandler(t, { tunnelProvider, metrics: true, reconnect: { initialDelayMs: 1 } });
+
+    const urlChanged = nextEvent(handler, 'urlChanged');
+    tunnelProvider.failNextConnect();
+    tunnelProvider.fail();
+    const change = await urlChanged;
+
+    assert.equal(change.url, 'https://second.test/callback');
+    assert.equal(handler.getCallbackUrl(), 'https://second.test/callback');
+    assert.match(handler.getMetrics().render(), /^mcp_status_callback_tunnel_reconnects_total 1$/m);
+});
+
+test('metrics fold label sets beyond maxSeries into an overflow series', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('requests_total', 'Requests', ['route'], { maxSeries: 2 });
+    for (const route of ['a', 'b', 'c', 'd', 'a']) {
+        counter.inc({ route });
+    }
+
+    const rendered = registry.render();
+    assert.match(rendered, /requests_total\{route="a"\} 2/);
+    assert.match(rendered, /requests_total\{route="__overflow__"\} 2/);
+    assert.doesNotMatch(rendered, /route="c"/);
+});
+
+test('log events and loggers receive structured fields with a stable code', async (t) => {
+    const written = [];
+    const logger = Object.fromEntries(['debug', 'info', 'warn', 'error'].map((level) => [level, (message, fields) => written.push({ level, message, fields })]));
+    const { handler } = await startHandler(t, { logger });
+    const logs = [];
+    handler.on('log', (data) => logs.push(data));
+
+    await simulateCallback(handler, { body: { n: 1 } });
+    const answered = logs.find((data) => data.code === LogCodes.CALLBACK_ANSWERED);
+    assert.equal(answered.level, 'debug');
+    assert.equal(answered.route, 'default');
+    assert.equal(answered.status, 200);
+    assert.ok(answered.durationMs >= 0);
+    assert.ok(written.some((entry) => entry.level === 'debug' && entry.fields.code === LogCodes.CALLBACK_ANSWERED));
+    assert.ok(written.some((entry) => entry.fields?.code === LogCodes.SERVER_LISTENING && entry.fields.port === handler.getLocalPort()));
+});
+
+test('consoleLogger filters by level and pinoLogger passes errors as err', () => {
+    const lines = [];
+    const target = Object.fromEntries(['debug', 'info', 'warn', 'error'].map((level) => [level, (...args) => lines.push(args)]));
+    const console = consoleLogger({ level: 'warn', console: target });
+    console.info('hidden');
+    console.warn('Port in use', { code: LogCodes.PORT_IN_USE, port: 3000, url: undefined });
+    console.error('plain');
+    assert.deepEqual(lines, [['[WARN] Port in use', { code: 'server.port_in_use', port: 3000 }], ['[ERROR] plain']]);
+
+    const entries = [];
+    const pino = Object.fromEntries(['debug', 'info', 'warn', 'error'].map((level) => [level, (fields, message) => entries.push({ level, fields, message })]));
+    const error = new Error('boom');
+    pinoLogger(pino).error('Tunnel failed', { code: LogCodes.TUNNEL_FAILED, error });
+    assert.deepEqual(entries, [{ level: 'error', fields: { code: 'tunnel.failed', err: error }, message: 'Tunnel failed' }]);
+});
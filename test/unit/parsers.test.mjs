@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMultipart, parseXml, XmlParseError } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('parseXml keeps attributes, text, CDATA and repeated elements', () => {
+    const parsed = parseXml('<?xml version="1.0"?><!-- c --><Event id="1" note="a &amp; b"><Status>done</Status><Item>1</Item><Item>2</Item><Raw><![CDATA[<x>]]></Raw><Empty/></Event>');
+    assert.deepEqual(parsed, {
+        Event: { $: { id: '1', note: 'a & b' }, Status: 'done', Item: ['1', '2'], Raw: '<x>', Empty: '' }
+    });
+});
+
+test('parseXml keeps element and attribute names that match Object.prototype keys as own properties', () => {
+    const parsed = parseXml('<r><constructor>a</constructor><__proto__>b</__proto__><toString>c</toString><toString>d</toString></r>');
+    assert.equal(parsed.r.constructor, 'a');
+    assert.equal(Object.getOwnPropertyDescriptor(parsed.r, '__proto__').value, 'b');
+    assert.deepEqual(parsed.r.toString, ['c', 'd']);
+    assert.equal(Object.getPrototypeOf(parsed.r), Object.prototype);
+    assert.equal({}.polluted, undefined);
+
+    const attributes = parseXml('<r __proto__="x" hasOwnProperty="y"/>').r.$;
+    assert.equal(Object.getOwnPropertyDescriptor(attributes, '__proto__').value, 'x');
+    assert.equal(attributes.hasOwnProperty, 'y');
+});
+
+test('parseXml allows > inside quoted attribute values', () => {
+    assert.deepEqual(parseXml(`<r expr="a > b" other='c>d'><v>1</v></r>`), { r: { $: { expr: 'a > b', other: 'c>d' }, v: '1' } });
+    assert.deepEqual(parseXml('<r expr="x>"/>'), { r: { $: { expr: 'x>' } } });
+});
+
+test('parseXml rejects documents that are not well-formed', () => {
+    for (const xml of ['<a><b></a>', '<a>', 'text', '<a/><b/>', '<a attr="never closed></a>']) {
+        assert.throws(() => parseXml(xml), XmlParseError, xml);
+    }
+});
+
+test('parseMultipart separates fields from files and keeps field names as own properties', () => {
+    const boundary = 'b0undary';
+    const raw = Buffer.from([
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="status"',
+        '',
+        'done',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="__proto__"',
+        '',
+        'x',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="recording"; filename="call.wav"',
+        'Content-Type: audio/wav',
+        '',
+        'RIFF',
+        `--${boundary}--`,
+        ''
+    ].join('\r\n'));
+
+    const body = parseMultipart(raw, boundary);
+    assert.equal(body.fields.status, 'done');
+    assert.equal(Object.getOwnPropertyDescriptor(body.fields, '__proto__').value, 'x');
+    assert.equal(body.files.length, 1);
+    assert.equal(body.files[0].filename, 'call.wav');
+    assert.equal(body.files[0].contentType, 'audio/wav');
+    assert.equal(body.files[0].data.toString(), 'RIFF');
+    assert.throws(() => parseMultipart(raw, boundary, { maxFiles: 0 }), /More than 0 files/);
+});
+
+test('the handler parses XML, text and multipart bodies and exposes the raw body', async (t) => {
+    const { handler } = await startHandler(t);
+
+    const xml = await simulateCallback(handler, { body: '<Event><Status>done</Status></Event>', headers: { 'content-type': 'application/xml' } });
+    assert.equal(xml.status, 200);
+    assert.deepEqual(xml.callback.body, { Event: { Status: 'done' } });
+    assert.equal(xml.callback.rawBody.toString(), '<Event><Status>done</Status></Event>');
+    assert.equal(xml.callback.contentType, 'application/xml');
+
+    const text = await simulateCallback(handler, { body: 'plain words', headers: { 'content-type': 'text/plain' } });
+    assert.equal(text.callback.body, 'plain words');
+
+    const binary = await simulateCallback(handler, { body: Buffer.from([1, 2, 3]), headers: { 'content-type': 'application/octet-stream' } });
+    assert.deepEqual([...binary.callback.body], [1, 2, 3]);
+
+    const multipart = await simulateCallback(handler, {
+        body: '--b\r\nContent-Disposition: form-data; name="status"\r\n\r\ndone\r\n--b--\r\n',
+        headers: { 'content-type': 'multipart/form-data; boundary=b' }
+    });
+    assert.deepEqual(multipart.callback.body.fields, { status: 'done' });
+
+    handler.on('log', () => undefined);
+    const malformed = await simulateCallback(handler, { body: '<Event>', headers: { 'content-type': 'text/xml' } });
+    assert.equal(malformed.status, 400);
+});
+
+test('the handler decodes structured and binary CloudEvents', async (t) => {
+    const { handler } = await startHandler(t);
+
+    const structured = await simulateCallback(handler, {
+        body: JSON.stringify({ specversion: '1.0', id: 'e1', source: '/jobs', type: 'job.done', traceparent: 't', data: { ok: true } }),
+        headers: { 'content-type': 'application/cloudevents+json' }
+    });
+    assert.equal(structured.status, 200);
+    assert.deepEqual(structured.callback.cloudEvent, {
+        mode: 'structured', specversion: '1.0', id: 'e1', source: '/jobs', type: 'job.done', data: { ok: true }, extensions: { traceparent: 't' }
+    });
+
+    const binary = await simulateCallback(handler, {
+        body: { ok: true },
+        headers: { 'ce-specversion': '1.0', 'ce-id': 'e2', 'ce-source': '/jobs%2Fone', 'ce-type': 'job.done' }
+    });
+    assert.equal(binary.callback.cloudEvent.mode, 'binary');
+    assert.equal(binary.callback.cloudEvent.source, '/jobs/one');
+    assert.equal(binary.callback.cloudEvent.datacontenttype, 'application/json');
+    assert.deepEqual(binary.callback.cloudEvent.data, { ok: true });
+
+    const plain = await simulateCallback(handler, { body: { ok: true } });
+    assert.equal(plain.callback.cloudEvent, undefined);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import express from 'express';
+import { CallbackHandler, PortUnavailableError } from '../../build/index.js';
+import { FakeTunnelProvider, simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+/**
+ * Occupies a free port on every interface until the test ends
+ */
+async function occupyPort(t) {
+    const blocker = createServer();
+    await new Promise((resolve) => blocker.listen(0, resolve));
+    t.after(() => new Promise((resolve) => blocker.close(resolve)));
+    return blocker.address().port;
+}
+
+async function listen(t, server) {
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    t.after(() => new Promise((resolve) => server.close(resolve)));
+    return server.address().port;
+}
+
+test('a handler skips ports in use within portRange', async (t) => {
+    const taken = await occupyPort(t);
+    const { handler } = await startHandler(t, { port: undefined, portRange: [taken, taken + 1], host: '127.0.0.1' });
+    assert.equal(handler.getLocalPort(), taken + 1);
+});
+
+test('start() rejects with PortUnavailableError when every port in range is taken', async (t) => {
+    const taken = await occupyPort(t);
+    const handler = new CallbackHandler({ tunnelProvider: new FakeTunnelProvider(), portRange: [taken, taken], host: '127.0.0.1' });
+    handler.on('log', () => undefined);
+
+    const error = await handler.start().catch((caught) => caught);
+    assert.ok(error instanceof PortUnavailableError);
+    assert.equal(error.firstPort, taken);
+    assert.equal(error.lastPort, taken);
+    assert.equal(handler.state, 'stopped');
+});
+
+test('a handler mounts on your app and server and leaves the server running on stop', async (t) => {
+    const app = express();
+    app.get('/health', (_req, res) => res.send('ok'));
+    const server = createServer(app);
+    const port = await listen(t, server);
+
+    const handler = new CallbackHandler({ tunnelProvider: new FakeTunnelProvider(), app, server, mountPath: '/hooks' });
+    handler.on('log', () => undefined);
+    assert.equal(await handler.start(), 'https://fake-tunnel.test/hooks/callback');
+    assert.equal(handler.getLocalPort(), port);
+
+    const result = await simulateCallback(handler, { body: { n: 1 } });
+    assert.equal(result.status, 200);
+    assert.equal(result.callback.url, '/hooks/callback');
+
+    await handler.stop();
+    assert.equal(server.listening, true);
+    assert.equal(await (await fetch(`http://127.0.0.1:${port}/health`)).text(), 'ok');
+});
+
+test('router() can be mounted by hand on a server the handler does not start', async (t) => {
+    const app = express();
+    const server = createServer(app);
+    const handler = new CallbackHandler({ tunnelProvider: new FakeTunnelProvider(), server, mountPath: '/other' });
+    handler.on('log', () => undefined);
+    app.use('/other', handler.router());
+    await listen(t, server);
+    t.after(() => handler.stop());
+
+    assert.equal(await handler.start(), 'https://fake-tunnel.test/other/callback');
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+});
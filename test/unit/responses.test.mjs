@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { emptyTwiml, jsonAck } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler, delay } from './helpers.mjs';
+
+test('callbacks are answered with 200 Callback received by default', async (t) => {
+    const { handler } = await startHandler(t);
+    const result = await simulateCallback(handler, { body: { n: 1 } });
+    assert.equal(result.status, 200);
+    assert.equal(result.body, 'Callback received');
+});
+
+test('emptyTwiml answers with an empty TwiML document', async (t) => {
+    const { handler } = await startHandler(t, { respond: emptyTwiml() });
+    const result = await simulateCallback(handler, { preset: 'twilio-call-completed' });
+    assert.equal(result.status, 200);
+    assert.match(result.headers.get('content-type'), /^text\/xml/);
+    assert.match(result.body, /^<\?xml[^>]*\?><Response\s*\/>$/);
+});
+
+test('route responders override the handler responder, and undefined falls back to the default', async (t) => {
+    const seen = [];
+    const { handler } = await startHandler(t, { respond: jsonAck({ handler: true }) });
+    const jobs = handler.createCallback('jobs', { respond: jsonAck({ queued: true }) });
+    const custom = handler.createCallback('custom', {
+        respond: async (data) => {
+            seen.push(data.body);
+            return data.body.retry
+                ? { status: 503, headers: { 'Retry-After': '5' }, body: 'Try again later' }
+                : undefined;
+        }
+    });
+
+    const handlerReply = await simulateCallback(handler, { body: { n: 1 } });
+    assert.deepEqual(JSON.parse(handlerReply.body), { received: true, handler: true });
+    assert.match(handlerReply.headers.get('content-type'), /^application\/json/);
+    assert.deepEqual(JSON.parse((await simulateCallback(handler, { route: jobs, body: { n: 1 } })).body), { received: true, queued: true });
+
+    const retry = await simulateCallback(handler, { route: custom, body: { retry: true } });
+    assert.equal(retry.status, 503);
+    assert.equal(retry.headers.get('retry-after'), '5');
+    assert.equal(retry.body, 'Try again later');
+
+    const fallback = await simulateCallback(handler, { route: custom, body: { retry: false } });
+    assert.equal(fallback.status, 200);
+    assert.equal(fallback.body, 'Callback received');
+    assert.deepEqual(seen, [{ retry: true }, { retry: false }]);
+});
+
+test('a slow responder is cut short by respondTimeoutMs with the default reply', async (t) => {
+    const { handler } = await startHandler(t, {
+        respondTimeoutMs: 50,
+        respond: async () => {
+            await delay(500);
+            return { status: 202, body: 'late' };
+        }
+    });
+    const started = Date.now();
+    const result = await simulateCallback(handler, { body: { n: 1 } });
+    assert.equal(result.status, 200);
+    assert.equal(result.body, 'Callback received');
+    assert.ok(Date.now() - started < 400);
+});
+
+test('a throwing listener is logged and does not stop the other listeners', async (t) => {
+    const { handler } = await startHandler(t);
+    const logs = [];
+    handler.on('log', (data) => logs.push(data));
+    let reached = false;
+    handler.on('callback', () => {
+        throw new Error('listener failed');
+    });
+    handler.on('callback', () => {
+        reached = true;
+    });
+
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+    assert.equal(reached, true);
+    assert.ok(logs.some((data) => data.level === 'error' && /listener failed/.test(String(data.message))));
+});
+
+test('failOnListenerError answers 500 when a listener or the responder fails', async (t) => {
+    const { handler } = await startHandler(t, { failOnListenerError: true });
+    const rejecting = handler.createCallback('rejecting');
+    rejecting.on('callback', async () => {
+        await delay(10);
+        throw new Error('async listener failed');
+    });
+    const failingResponder = handler.createCallback('responder', {
+        respond: () => {
+            throw new Error('responder failed');
+        }
+    });
+
+    assert.equal((await simulateCallback(handler, { route: rejecting, body: { n: 1 } })).status, 500);
+    assert.equal((await simulateCallback(handler, { route: failingResponder, body: { n: 1 } })).status, 500);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('named routes receive only their own callbacks', async (t) => {
+    const { handler } = await startHandler(t);
+    const calls = handler.createCallback('calls');
+    const messages = handler.createCallback('messages', { id: 'fixed-id' });
+
+    assert.equal(messages.url, 'https://fake-tunnel.test/callback/messages/fixed-id');
+    assert.deepEqual(handler.getCallbacks().map((route) => route.name).sort(), ['calls', 'messages']);
+
+    const onCalls = [];
+    calls.on('callback', (data) => onCalls.push(data));
+    const result = await simulateCallback(handler, { route: calls, preset: 'twilio-call-completed' });
+    assert.equal(result.status, 200);
+    assert.equal(result.callback.route, 'calls');
+    assert.equal(result.callback.callbackId, calls.id);
+
+    const plain = await simulateCallback(handler, { preset: 'twilio-call-completed' });
+    assert.equal(plain.callback.route, 'default');
+    await simulateCallback(handler, { route: messages, body: { n: 1 } });
+    assert.equal(onCalls.length, 1);
+    assert.equal(onCalls[0].body.CallStatus, 'completed');
+
+    assert.throws(() => handler.createCallback('not valid!'), /Invalid callback route/);
+});
+
+test('requests for unknown routes get 404', async (t) => {
+    const { handler } = await startHandler(t);
+    const port = handler.getLocalPort();
+    const response = await fetch(`http://127.0.0.1:${port}/callback/calls/missing`, { method: 'POST' });
+    assert.equal(response.status, 404);
+});
+
+test('a closed route answers 404, ends its iterator and is no longer listed', async (t) => {
+    const { handler } = await startHandler(t);
+    const route = handler.createCallback('jobs');
+
+    const iterated = [];
+    const iterating = (async () => {
+        for await (const data of route) {
+            iterated.push(data.body.n);
+        }
+    })();
+    await simulateCallback(handler, { route, body: { n: 1 } });
+    await simulateCallback(handler, { route, body: { n: 2 } });
+
+    const url = `http://127.0.0.1:${handler.getLocalPort()}${route.path}`;
+    route.close();
+    await iterating;
+    assert.deepEqual(iterated, [1, 2]);
+    assert.equal(route.isClosed, true);
+    assert.deepEqual(handler.getCallbacks(), []);
+    assert.equal((await fetch(url, { method: 'POST' })).status, 404);
+});
+
+test('routes close when the handler stops', async (t) => {
+    const { handler } = await startHandler(t);
+    const route = handler.createCallback('jobs');
+    assert.equal(route.url, `https://fake-tunnel.test${route.path}`);
+
+    await handler.stop();
+    assert.equal(route.isClosed, true);
+    assert.equal(route.url, null);
+});
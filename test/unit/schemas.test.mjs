@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CallbackSchemaError,
+    fieldsSchema,
+    twilioCallStatusSchema,
+    twilioMessageStatusSchema,
+    twilioRecordingStatusSchema
+} from '../../build/index.js';
+import { simulateCallback, twilioFixture } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('fieldsSchema reports every missing or unexpected field', () => {
+    const schema = fieldsSchema([{ name: 'JobId' }, { name: 'Status', oneOf: ['done', 'failed'] }, { name: 'Note', required: false }]);
+
+    assert.deepEqual(schema.safeParse({ JobId: '1', Status: 'done', Extra: 'kept' }), {
+        success: true,
+        data: { JobId: '1', Status: 'done', Extra: 'kept' }
+    });
+
+    const invalid = schema.safeParse({ JobId: '', Status: 'lost' });
+    assert.equal(invalid.success, false);
+    assert.ok(invalid.error instanceof CallbackSchemaError);
+    assert.deepEqual(invalid.error.issues, ['JobId is required', 'Status must be one of done, failed']);
+
+    assert.deepEqual(schema.safeParse(['JobId']).error.issues, ['Expected an object']);
+});
+
+test('the Twilio schemas accept their fixtures and reject other statuses', () => {
+    assert.equal(twilioCallStatusSchema.safeParse(twilioFixture('twilio-call-no-answer')).success, true);
+    assert.equal(twilioMessageStatusSchema.safeParse(twilioFixture('twilio-message-delivered')).success, true);
+    assert.equal(twilioRecordingStatusSchema.safeParse(twilioFixture('twilio-recording-completed')).success, true);
+
+    assert.equal(twilioMessageStatusSchema.safeParse(twilioFixture('twilio-call-completed')).success, false);
+    assert.equal(twilioCallStatusSchema.safeParse(twilioFixture('twilio-call-completed', { CallStatus: 'paused' })).success, false);
+    assert.equal(twilioRecordingStatusSchema.safeParse(twilioFixture('twilio-recording-completed', { RecordingSid: '' })).success, false);
+});
+
+test('schemas reject invalid bodies with the configured status and deliver parsed ones', async (t) => {
+    const { handler } = await startHandler(t, { schema: twilioCallStatusSchema, validationErrorStatus: 422 });
+    const errors = [];
+    handler.on('validationError', (data) => errors.push(data));
+
+    const valid = await simulateCallback(handler, { preset: 'twilio-call-completed' });
+    assert.equal(valid.status, 200);
+    assert.equal(valid.callback.body.CallStatus, 'completed');
+
+    const invalid = await simulateCallback(handler, { body: { unrelated: true } });
+    assert.equal(invalid.status, 422);
+    assert.equal(errors.length, 1);
+});
+
+test('schemas validate the query parameters of GET callbacks', async (t) => {
+    const { handler } = await startHandler(t, { schema: twilioCallStatusSchema, methods: ['GET', 'POST'] });
+    handler.on('validationError', () => undefined);
+
+    const valid = await simulateCallback(handler, { preset: 'twilio-call-completed', method: 'GET' });
+    assert.equal(valid.status, 200);
+    assert.equal(valid.callback.body.CallStatus, 'completed');
+
+    assert.equal((await simulateCallback(handler, { method: 'GET', body: { unrelated: 'x' } })).status, 400);
+});
+
+test('route schemas override the handler schema', async (t) => {
+    const { handler } = await startHandler(t, { schema: twilioCallStatusSchema });
+    const jobs = handler.createCallback('jobs', { schema: fieldsSchema([{ name: 'jobId' }]) });
+    handler.on('validationError', () => undefined);
+
+    assert.equal((await simulateCallback(handler, { route: jobs, body: { jobId: '42' } })).status, 200);
+    assert.equal((await simulateCallback(handler, { route: jobs, body: { other: '42' } })).status, 400);
+});
+
+test('listeners receive the data returned by a zod-style schema', async (t) => {
+    const schema = {
+        safeParse: (data) => typeof data.amount === 'string'
+            ? { success: true, data: { amount: Number(data.amount) } }
+            : { success: false, error: new Error('amount is required') }
+    };
+    const { handler } = await startHandler(t, { schema });
+    const errors = [];
+    handler.on('validationError', (data) => errors.push(data));
+
+    const valid = await simulateCallback(handler, { body: 'amount=12.5', headers: { 'content-type': 'application/x-www-form-urlencoded' } });
+    assert.equal(valid.status, 200);
+    assert.deepEqual(valid.callback.body, { amount: 12.5 });
+
+    assert.equal((await simulateCallback(handler, { body: { total: 1 } })).status, 400);
+    assert.equal(errors[0].error.message, 'amount is required');
+    assert.deepEqual(errors[0].body, { total: 1 });
+    assert.equal(errors[0].route, 'default');
+});
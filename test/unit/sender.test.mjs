@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import {
+    CallbackDeliveryError,
+    CallbackSender,
+    GitHubSignatureVerifier,
+    StandardWebhooksVerifier,
+    StripeSignatureVerifier
+} from '../../build/index.js';
+import { startHandler, delay } from './helpers.mjs';
+
+/**
+ * Starts a target that records each request and answers with `reply(request)`,
+ * a status code or a promise of one. Stopped when the test ends.
+ */
+async function startTarget(t, reply) {
+    const received = [];
+    const target = createServer((req, res) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', async () => {
+            const request = { headers: req.headers, body: Buffer.concat(chunks).toString() };
+            received.push(request);
+            res.statusCode = await reply(request);
+            res.end();
+        });
+    });
+    await new Promise((resolve) => target.listen(0, '127.0.0.1', resolve));
+    t.after(() => {
+        target.closeAllConnections();
+        return new Promise((resolve) => target.close(resolve));
+    });
+    return { received, url: `http://127.0.0.1:${target.address().port}/hook` };
+}
+
+const localCallbackUrl = (handler) => `http://127.0.0.1:${handler.getLocalPort()}/callback`;
+
+test('signed callbacks are accepted by the matching handler verifiers', async (t) => {
+    const webhookSecret = 'whsec_' + randomBytes(24).toString('base64');
+    const { handler } = await startHandler(t, {
+        verifiers: [
+            new StandardWebhooksVerifier({ secret: webhookSecret }),
+            new GitHubSignatureVerifier({ secret: 'gh-secret' }),
+            new StripeSignatureVerifier({ secret: 'whsec_stripe' })
+        ]
+    });
+    const received = [];
+    handler.on('callback', (data) => received.push(data.body));
+
+    for (const signing of [{ secret: webhookSecret }, { scheme: 'github', secret: 'gh-secret' }, { scheme: 'stripe', secret: 'whsec_stripe' }]) {
+        const sender = new CallbackSender({ url: localCallbackUrl(handler), signing, retry: false });
+        const delivery = await sender.send({ taskId: 'task-1', status: signing.scheme ?? 'standard-webhooks' });
+        assert.equal(delivery.state, 'delivered');
+        assert.equal(delivery.status, 200);
+    }
+    assert.deepEqual(received.map((body) => body.status), ['standard-webhooks', 'github', 'stripe']);
+
+    const forged = new CallbackSender({ url: localCallbackUrl(handler), signing: { scheme: 'github', secret: 'wrong' }, retry: { initialDelayMs: 1 } });
+    const error = await forged.send({ taskId: 'task-1' }).catch((caught) => caught);
+    assert.ok(error instanceof CallbackDeliveryError);
+    assert.equal(error.delivery.status, 401);
+    assert.equal(error.delivery.attempts.length, 1);
+});
+
+test('Twilio-signed callbacks pass the handler signature validation in both formats', async (t) => {
+    const authToken = 'twilio-auth-token';
+    const { handler } = await startHandler(t, { signatureValidation: { authToken } });
+    const received = [];
+    handler.on('callback', (data) => received.push(data.body));
+
+    const sender = new CallbackSender({
+        url: localCallbackUrl(handler),
+        signing: { scheme: 'twilio', secret: authToken, url: handler.getCallbackUrl() },
+        retry: false
+    });
+    await sender.send({ CallSid: 'CA1', CallStatus: 'completed' }, { format: 'form' });
+    await sender.send({ CallSid: 'CA1', CallStatus: 'completed' });
+
+    assert.deepEqual(received, [{ CallSid: 'CA1', CallStatus: 'completed' }, { CallSid: 'CA1', CallStatus: 'completed' }]);
+});
+
+test('5xx replies are retried with backoff under the same idempotency key', async (t) => {
+    const replies = [503, 500, 200];
+    const target = await startTarget(t, () => replies.shift());
+    const sender = new CallbackSender({ url: target.url, retry: { initialDelayMs: 5, factor: 3, jitter: 0 } });
+    const retries = [];
+    sender.on('retrying', (data) => retries.push([data.attempt, data.delayMs, data.error]));
+
+    const delivery = await sender.send({ status: 'done' }, { idempotencyKey: 'task-1-done' });
+    assert.equal(delivery.id, 'task-1-done');
+    assert.deepEqual(delivery.attempts.map((attempt) => attempt.status), [503, 500, 200]);
+    assert.deepEqual(retries, [[2, 5, 'Target responded with 503'], [3, 15, 'Target responded with 500']]);
+    assert.deepEqual(target.received.map((request) => request.headers['idempotency-key']), ['task-1-done', 'task-1-done', 'task-1-done']);
+    assert.equal(target.received[0].body, '{"status":"done"}');
+    assert.equal(sender.getDelivery('task-1-done').state, 'delivered');
+});
+
+test('a delivery that keeps failing rejects with CallbackDeliveryError and is logged', async (t) => {
+    const target = await startTarget(t, async () => {
+        await delay(200);
+        return 200;
+    });
+    const sender = new CallbackSender({ url: target.url, timeoutMs: 20, retry: { maxAttempts: 2, initialDelayMs: 1 }, deliveryLogLimit: 1 });
+    const failures = [];
+    sender.on('failed', (data) => failures.push(data));
+
+    const error = await sender.send({ n: 1 }).catch((caught) => caught);
+    assert.ok(error instanceof CallbackDeliveryError);
+    assert.equal(error.delivery.state, 'failed');
+    assert.deepEqual(error.delivery.attempts.map((attempt) => attempt.error), ['Timed out after 20ms', 'Timed out after 20ms']);
+    assert.equal(failures[0].error, error);
+
+    await sender.send({ n: 2 }, { url: 'http://127.0.0.1:1/closed' }).catch(() => undefined);
+    assert.deepEqual(sender.getDeliveries().map((delivery) => delivery.payload), [{ n: 2 }]);
+});
+
+test('close() cancels a delivery waiting to retry', async (t) => {
+    const target = await startTarget(t, () => 503);
+    const sender = new CallbackSender({ url: target.url, retry: { initialDelayMs: 60000 } });
+    sender.on('retrying', () => sender.close());
+
+    const error = await sender.send({ n: 1 }).catch((caught) => caught);
+    assert.ok(error instanceof CallbackDeliveryError);
+    assert.equal(error.delivery.error, 'Sender closed');
+    assert.equal(target.received.length, 1);
+});
+
+test('form payloads encode nested values as JSON, and a URL is required', async (t) => {
+    const target = await startTarget(t, () => 204);
+    const sender = new CallbackSender({ format: 'form', headers: { 'X-Source': 'tests' } });
+
+    await sender.send({ status: 'done', meta: { attempt: 1 }, skipped: null }, { url: target.url });
+    const [request] = target.received;
+    assert.equal(request.headers['content-type'], 'application/x-www-form-urlencoded');
+    assert.equal(request.headers['x-source'], 'tests');
+    assert.deepEqual(Object.fromEntries(new URLSearchParams(request.body)), { status: 'done', meta: '{"attempt":1}' });
+
+    await assert.rejects(sender.send({ status: 'done' }), /No callback URL/);
+});
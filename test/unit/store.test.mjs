@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonlFileCallbackStore, MemoryCallbackStore } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+function record(id, receivedAt, route = 'default') {
+    return { id, receivedAt, route, callbackId: null, headers: {}, queryParameters: {}, body: { id } };
+}
+
+async function tempJournal(t) {
+    const directory = await mkdtemp(join(tmpdir(), 'callback-journal-'));
+    t.after(() => rm(directory, { recursive: true, force: true }));
+    return join(directory, 'callbacks.jsonl');
+}
+
+test('MemoryCallbackStore keeps the most recent records and filters by time, route and count', async () => {
+    const store = new MemoryCallbackStore({ capacity: 3 });
+    await store.append(record('a', '2025-01-01T00:00:00.000Z'));
+    await store.append(record('b', '2025-01-02T00:00:00.000Z', 'calls'));
+    await store.append(record('c', '2025-01-03T00:00:00.000Z'));
+    await store.append(record('d', '2025-01-04T00:00:00.000Z', 'calls'));
+
+    const ids = async (query) => (await store.query(query)).map((entry) => entry.id);
+    assert.deepEqual(await ids(), ['b', 'c', 'd']);
+    assert.deepEqual(await ids({ route: 'calls' }), ['b', 'd']);
+    assert.deepEqual(await ids({ since: '2025-01-03T00:00:00.000Z' }), ['c', 'd']);
+    assert.deepEqual(await ids({ limit: 1 }), ['d']);
+});
+
+test('JsonlFileCallbackStore survives a new instance and skips partial lines', async (t) => {
+    const path = await tempJournal(t);
+    assert.deepEqual(await new JsonlFileCallbackStore({ path }).query(), []);
+
+    const first = new JsonlFileCallbackStore({ path });
+    await Promise.all([
+        first.append(record('a', '2025-01-01T00:00:00.000Z')),
+        first.append(record('b', '2025-01-02T00:00:00.000Z'))
+    ]);
+    await appendFile(path, '{"id":"trunc');
+
+    const reopened = new JsonlFileCallbackStore({ path });
+    assert.deepEqual((await reopened.query()).map((entry) => entry.id), ['a', 'b']);
+    assert.deepEqual((await reopened.query({ since: Date.parse('2025-01-02T00:00:00.000Z') })).map((entry) => entry.id), ['b']);
+});
+
+test('the handler records callbacks and replays them to the handler and their route', async (t) => {
+    const path = await tempJournal(t);
+    const { handler } = await startHandler(t, { store: new JsonlFileCallbackStore({ path }) });
+    const route = handler.createCallback('calls');
+
+    await simulateCallback(handler, { preset: 'twilio-call-completed', query: { attempt: '1' } });
+    await simulateCallback(handler, { route, body: { n: 1 } });
+
+    const history = await handler.history();
+    assert.equal(history.length, 2);
+    assert.equal(history[0].body.CallStatus, 'completed');
+    assert.equal(history[0].method, 'POST');
+    assert.match(history[0].url, /^\/callback\?attempt=1$/);
+    assert.equal(Buffer.from(history[0].rawBody, 'base64').toString(), new URLSearchParams(history[0].body).toString());
+    assert.equal(history[1].route, 'calls');
+    assert.equal(history[1].callbackId, route.id);
+
+    const onHandler = [];
+    const onRoute = [];
+    handler.on('callback', (data) => onHandler.push(data));
+    route.on('callback', (data) => onRoute.push(data));
+    assert.equal(await handler.replay({ route: 'calls' }), 1);
+    assert.equal(onHandler.length, 1);
+    assert.equal(onHandler[0].replayed, true);
+    assert.equal(onHandler[0].receiptId, history[1].id);
+    assert.deepEqual(onHandler[0].rawBody, Buffer.from('{"n":1}'));
+    assert.equal(onRoute.length, 1);
+});
+
+test('a failing store is logged without failing the callback', async (t) => {
+    const store = { append: async () => { throw new Error('disk full'); }, query: async () => [] };
+    const { handler } = await startHandler(t, { store });
+    const logs = [];
+    handler.on('log', (data) => logs.push(data));
+
+    assert.equal((await simulateCallback(handler, { body: { n: 1 } })).status, 200);
+    assert.ok(logs.some((data) => data.level === 'error' && /disk full/.test(String(data.message))));
+});
+
+test('history and replay need a store', async (t) => {
+    const { handler } = await startHandler(t);
+    await assert.rejects(handler.history(), /No callback store configured/);
+    await assert.rejects(handler.replay(), /No callback store configured/);
+});
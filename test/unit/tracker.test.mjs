@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallbackTimeoutError, StatusTracker } from '../../build/index.js';
+import { TEST_CALL_SID, TEST_MESSAGE_SID, simulateCallback, twilioFixture, twilioSequence } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+async function startTracker(t, options) {
+    const { handler } = await startHandler(t, { methods: ['GET', 'POST'] });
+    const tracker = new StatusTracker(handler, options);
+    t.after(() => tracker.close());
+    return { handler, tracker };
+}
+
+test('call callbacks delivered out of order are put back in sequence', async (t) => {
+    const { handler, tracker } = await startTracker(t);
+    const changes = [];
+    const terminals = [];
+    tracker.on('statusChanged', (data) => changes.push([data.previousStatus, data.status]));
+    tracker.on('terminal', (data) => terminals.push(data.status));
+
+    const [initiated, ringing, inProgress, completed] = twilioSequence('call-completed');
+    for (const body of [initiated, inProgress, completed, ringing, completed]) {
+        await simulateCallback(handler, { body });
+    }
+
+    const call = tracker.get(TEST_CALL_SID);
+    assert.equal(call.kind, 'call');
+    assert.equal(call.status, 'completed');
+    assert.equal(call.terminal, true);
+    assert.deepEqual(call.history.map((update) => update.status), ['initiated', 'ringing', 'in-progress', 'completed']);
+    assert.deepEqual(call.history.map((update) => update.sequenceNumber), [0, 1, 2, 3]);
+    assert.deepEqual(changes, [[null, 'initiated'], ['initiated', 'in-progress'], ['in-progress', 'completed']]);
+    assert.deepEqual(terminals, ['completed']);
+});
+
+test('message callbacks without sequence numbers are ordered by their lifecycle', async (t) => {
+    const { handler, tracker } = await startTracker(t);
+    const terminals = [];
+    tracker.on('terminal', (data) => terminals.push(data.status));
+
+    for (const status of ['sent', 'queued', 'delivered', 'read']) {
+        await simulateCallback(handler, { preset: `twilio-message-${status}` });
+    }
+
+    const message = tracker.get(TEST_MESSAGE_SID);
+    assert.equal(message.kind, 'message');
+    assert.equal(message.status, 'read');
+    assert.deepEqual(message.history.map((update) => update.status), ['queued', 'sent', 'delivered', 'read']);
+    assert.deepEqual(terminals, ['delivered']);
+});
+
+test('waitForTerminal resolves on the final status and times out otherwise', async (t) => {
+    const { handler, tracker } = await startTracker(t);
+    const waiting = tracker.waitForTerminal(TEST_CALL_SID, 5000);
+    await simulateCallback(handler, { preset: 'twilio-call-ringing' });
+    await simulateCallback(handler, { preset: 'twilio-call-busy' });
+
+    assert.equal((await waiting).status, 'busy');
+    assert.equal((await tracker.waitForTerminal(TEST_CALL_SID, 1)).status, 'busy');
+
+    const error = await tracker.waitForTerminal('CA-never', 20).catch((caught) => caught);
+    assert.ok(error instanceof CallbackTimeoutError);
+    assert.equal(error.timeoutMs, 20);
+});
+
+test('the tracker reads GET callbacks, ignores other callbacks and routes, and stops on close', async (t) => {
+    const { handler, tracker } = await startTracker(t, { route: 'default' });
+    const route = handler.createCallback('other');
+
+    await simulateCallback(handler, { method: 'GET', query: twilioFixture('twilio-call-ringing', { CallSid: 'CA-get' }) });
+    await simulateCallback(handler, { body: { jobId: '1', status: 'done' } });
+    await simulateCallback(handler, { preset: 'twilio-recording-completed' });
+    await simulateCallback(handler, { route, preset: 'twilio-message-sent' });
+    assert.deepEqual(tracker.getAll().map((resource) => [resource.sid, resource.status]), [['CA-get', 'ringing']]);
+
+    tracker.close();
+    await simulateCallback(handler, { preset: 'twilio-call-completed', overrides: { CallSid: 'CA-get' } });
+    assert.equal(tracker.get('CA-get').status, 'ringing');
+});
+
+test('maxResources drops finished resources before ones still in progress', async () => {
+    const tracker = new StatusTracker({ on: () => undefined }, { maxResources: 2 });
+    const update = (sid, status) => tracker.update({
+        route: 'default',
+        queryParameters: {},
+        body: twilioFixture(`twilio-call-${status}`, { CallSid: sid }),
+        receivedAt: new Date().toISOString()
+    });
+
+    update('CA-1', 'ringing');
+    update('CA-2', 'completed');
+    update('CA-3', 'ringing');
+    assert.deepEqual(tracker.getAll().map((resource) => resource.sid), ['CA-1', 'CA-3']);
+
+    tracker.clear();
+    assert.deepEqual(tracker.getAll(), []);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TunnelSupervisor } from '../../build/index.js';
+import { FakeTunnelProvider } from '../../build/testing/index.js';
+import { nextEvent, delay } from './helpers.mjs';
+
+/**
+ * A FakeTunnelProvider whose connect can be held open, to race it against stop()
+ */
+class SlowTunnelProvider extends FakeTunnelProvider {
+    connectDelayMs = 0;
+
+    async connect(...args) {
+        await delay(this.connectDelayMs);
+        return super.connect(...args);
+    }
+}
+
+test('the supervisor reconnects after a failure and reports a new URL', async (t) => {
+    const provider = new FakeTunnelProvider({ publicUrl: ['https://first.test', 'https://second.test'] });
+    const supervisor = new TunnelSupervisor(provider, { initialDelayMs: 5 });
+    t.after(() => supervisor.stop());
+    const states = [];
+    supervisor.on('stateChange', (change) => states.push(`${change.state}:${change.attempt}`));
+
+    assert.equal(await supervisor.start(4000), 'https://first.test');
+    const urlChanged = nextEvent(supervisor, 'urlChanged');
+    provider.failNextConnect();
+    provider.fail();
+
+    assert.deepEqual(await urlChanged, { previousUrl: 'https://first.test', url: 'https://second.test' });
+    assert.deepEqual(states, ['connecting:0', 'online:0', 'reconnecting:1', 'reconnecting:2', 'online:2']);
+    assert.equal(supervisor.state, 'online');
+});
+
+test('the supervisor goes offline after maxAttempts failed reconnects', async (t) => {
+    const provider = new FakeTunnelProvider();
+    const supervisor = new TunnelSupervisor(provider, { initialDelayMs: 1, maxAttempts: 2 });
+    t.after(() => supervisor.stop());
+
+    await supervisor.start(4000);
+    provider.failNextConnect();
+    provider.failNextConnect();
+    const offline = new Promise((resolve) => supervisor.on('stateChange', (change) => change.state === 'offline' && resolve(change)));
+    provider.fail();
+
+    const change = await offline;
+    assert.equal(change.attempt, 2);
+    assert.match(change.error.message, /connect failed/);
+});
+
+test('health checks notice a tunnel that failed without reporting it', async (t) => {
+    class SilentlyFailingProvider extends FakeTunnelProvider {
+        broken = false;
+
+        async connect(...args) {
+            this.broken = false;
+            return super.connect(...args);
+        }
+
+        status() {
+            return this.broken ? 'error' : super.status();
+        }
+    }
+    const provider = new SilentlyFailingProvider();
+    const supervisor = new TunnelSupervisor(provider, { initialDelayMs: 1, healthCheckIntervalMs: 10 });
+    t.after(() => supervisor.stop());
+    // The health check timer is unref'd, so keep the process alive while it runs
+    const keepAlive = setInterval(() => undefined, 1000);
+    t.after(() => clearInterval(keepAlive));
+
+    await supervisor.start(4000);
+    const reconnecting = new Promise((resolve) => supervisor.on('stateChange', (change) => change.state === 'reconnecting' && resolve(change)));
+    const online = new Promise((resolve) => supervisor.on('stateChange', (change) => change.state === 'online' && resolve(change)));
+    provider.broken = true;
+
+    assert.match((await reconnecting).error.message, /reported status 'error'/);
+    assert.equal((await online).attempt, 1);
+    assert.equal(provider.connectCount, 2);
+});
+
+test('stopping during a pending reconnect closes the tunnel it opens', async () => {
+    const provider = new SlowTunnelProvider();
+    const supervisor = new TunnelSupervisor(provider, { initialDelayMs: 1 });
+    await supervisor.start(4000);
+
+    provider.connectDelayMs = 100;
+    provider.fail();
+    await delay(20);
+    await supervisor.stop();
+    await delay(150);
+
+    assert.equal(supervisor.state, 'offline');
+    assert.equal(provider.status(), 'disconnected');
+});
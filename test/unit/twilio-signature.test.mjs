@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTwilioSignature, validateTwilioRequest } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+const AUTH_TOKEN = 'test-auth-token';
+const URL = 'https://fake-tunnel.test/callback';
+
+test('Twilio: form parameters are signed as sent, including repeated and bracketed names', () => {
+    const rawBody = Buffer.from('To=%2B1&To=%2B2&a[b]=1&CallSid=CA1');
+    const signature = computeTwilioSignature(AUTH_TOKEN, URL, { To: ['+1', '+2'], 'a[b]': '1', CallSid: 'CA1' });
+    const result = validateTwilioRequest(AUTH_TOKEN, {
+        url: URL, signature, contentType: 'application/x-www-form-urlencoded', body: { a: { b: '1' } }, rawBody
+    });
+    assert.deepEqual(result, { valid: true });
+});
+
+test('Twilio: a tampered form parameter fails', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, URL, { CallStatus: 'completed' });
+    const result = validateTwilioRequest(AUTH_TOKEN, {
+        url: URL, signature, contentType: 'application/x-www-form-urlencoded', body: {}, rawBody: Buffer.from('CallStatus=failed')
+    });
+    assert.equal(result.valid, false);
+});
+
+test('Twilio: a JSON body without bodySHA256 is rejected even with a valid URL signature', () => {
+    const result = validateTwilioRequest(AUTH_TOKEN, {
+        url: URL, signature: computeTwilioSignature(AUTH_TOKEN, URL), contentType: 'application/json', body: { x: 1 }, rawBody: Buffer.from('{"x":1}')
+    });
+    assert.equal(result.valid, false);
+    assert.match(result.reason, /bodySHA256/);
+});
+
+test('Twilio: a missing signature is rejected', () => {
+    const result = validateTwilioRequest(AUTH_TOKEN, { url: URL, signature: undefined, contentType: '', body: {} });
+    assert.deepEqual(result, { valid: false, reason: 'Missing X-Twilio-Signature header' });
+});
+
+test('Twilio: the handler accepts signed form, JSON and GET callbacks and rejects unsigned ones', async (t) => {
+    const { handler } = await startHandler(t, { signatureValidation: { authToken: AUTH_TOKEN }, methods: ['GET', 'POST'] });
+
+    const form = await simulateCallback(handler, { preset: 'twilio-call-completed', sign: { twilio: AUTH_TOKEN } });
+    assert.equal(form.status, 200);
+    assert.equal(form.callback.body.CallStatus, 'completed');
+
+    const json = await simulateCallback(handler, { body: { event: 'done' }, sign: { twilio: AUTH_TOKEN } });
+    assert.equal(json.status, 200);
+
+    const get = await simulateCallback(handler, { preset: 'twilio-call-completed', method: 'GET', sign: { twilio: AUTH_TOKEN } });
+    assert.equal(get.status, 200);
+
+    const wrongToken = await simulateCallback(handler, { preset: 'twilio-call-completed', sign: { twilio: 'other-token' } });
+    assert.equal(wrongToken.status, 403);
+    assert.equal(wrongToken.callback, undefined);
+
+    const unsigned = await simulateCallback(handler, { preset: 'twilio-call-completed' });
+    assert.equal(unsigned.status, 403);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { StripeSignatureVerifier, GitHubSignatureVerifier, StandardWebhooksVerifier } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('Stripe: valid signatures pass and wrong secrets fail with 401', async (t) => {
+    const secret = 'whsec_stripe_test';
+    const { handler } = await startHandler(t, { verifiers: [new StripeSignatureVerifier({ secret })] });
+
+    assert.equal((await simulateCallback(handler, { body: { type: 'charge.succeeded' }, sign: { stripe: secret } })).status, 200);
+    assert.equal((await simulateCallback(handler, { body: { type: 'charge.succeeded' }, sign: { stripe: 'whsec_other' } })).status, 401);
+});
+
+test('Stripe: an expired timestamp fails', async () => {
+    const secret = 'whsec_stripe_test';
+    const verifier = new StripeSignatureVerifier({ secret, toleranceSeconds: 60 });
+    const rawBody = Buffer.from('{}');
+    const timestamp = Math.floor(Date.now() / 1000) - 3600;
+    const signature = createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+    const result = await verifier.verify({ headers: { 'stripe-signature': `t=${timestamp},v1=${signature}` }, rawBody, body: {}, url: null });
+    assert.equal(result.valid, false);
+});
+
+test('GitHub: valid signatures pass and wrong secrets fail with 401', async (t) => {
+    const secret = 'github-secret';
+    const { handler } = await startHandler(t, { verifiers: [new GitHubSignatureVerifier({ secret })] });
+
+    assert.equal((await simulateCallback(handler, { body: { action: 'opened' }, sign: { github: secret } })).status, 200);
+
+    const wrongSecret = await simulateCallback(handler, { body: { action: 'opened' }, sign: { github: 'wrong' } });
+    assert.equal(wrongSecret.status, 401);
+});
+
+test('Standard Webhooks: valid signatures pass and requests without signature headers fail', async (t) => {
+    const secret = 'whsec_' + Buffer.from('standard-webhooks-key').toString('base64');
+    const { handler } = await startHandler(t, { verifiers: [new StandardWebhooksVerifier({ secret })] });
+
+    assert.equal((await simulateCallback(handler, { body: { type: 'job.done' }, sign: { standardWebhooks: secret } })).status, 200);
+    assert.equal((await simulateCallback(handler, { body: { type: 'job.done' } })).status, 401);
+});
+
+test('custom verifiers join the registry: any applicable verifier may accept, and failures are reported', async (t) => {
+    const sharedSecret = {
+        name: 'shared-secret',
+        appliesTo: (request) => request.headers['x-shared-secret'] !== undefined,
+        verify: (request) => request.headers['x-shared-secret'] === 'open sesame'
+            ? { valid: true }
+            : { valid: false, reason: 'Wrong shared secret' }
+    };
+    const throwing = {
+        name: 'throwing',
+        appliesTo: (request) => request.headers['x-throw'] !== undefined,
+        verify: () => {
+            throw new Error('boom');
+        }
+    };
+    const secret = 'github-secret';
+    const { handler } = await startHandler(t, { verifiers: [sharedSecret, throwing, new GitHubSignatureVerifier({ secret })] });
+    const failures = [];
+    handler.on('verificationFailed', (data) => failures.push(data));
+
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: { 'x-shared-secret': 'open sesame' } })).status, 200);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: { 'x-shared-secret': 'guess' } })).status, 401);
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: { 'x-throw': '1' } })).status, 401);
+    // One applicable verifier accepting is enough
+    assert.equal((await simulateCallback(handler, { body: { n: 1 }, headers: { 'x-throw': '1' }, sign: { github: secret } })).status, 200);
+
+    assert.deepEqual(failures.map((data) => [data.verifier, data.reason]), [
+        ['shared-secret', 'Wrong shared secret'],
+        ['throwing', 'Verifier threw: Error: boom']
+    ]);
+});
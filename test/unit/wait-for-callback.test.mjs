@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallbackTimeoutError, matchesCallback } from '../../build/index.js';
+import { simulateCallback } from '../../build/testing/index.js';
+import { startHandler } from './helpers.mjs';
+
+test('waitForCallback resolves with a matching callback, including one received just before', async (t) => {
+    const { handler } = await startHandler(t);
+
+    await simulateCallback(handler, { preset: 'twilio-call-completed', overrides: { CallSid: 'CA-early' } });
+    const early = await handler.waitForCallback({ match: { CallSid: 'CA-early' }, timeoutMs: 1000 });
+    assert.equal(early.body.CallSid, 'CA-early');
+
+    const waiting = handler.waitForCallback({ match: { CallSid: 'CA-late' }, timeoutMs: 2000 });
+    await simulateCallback(handler, { preset: 'twilio-call-completed', overrides: { CallSid: 'CA-other' } });
+    await simulateCallback(handler, { preset: 'twilio-call-completed', overrides: { CallSid: 'CA-late' } });
+    assert.equal((await waiting).body.CallSid, 'CA-late');
+});
+
+test('waitForCallback rejects with CallbackTimeoutError when nothing matches', async (t) => {
+    const { handler } = await startHandler(t);
+    await assert.rejects(handler.waitForCallback({ match: { CallSid: 'never' }, timeoutMs: 50 }), CallbackTimeoutError);
+});
+
+test('waitForCallback filters by route and predicate, and can skip recent callbacks', async (t) => {
+    const { handler } = await startHandler(t);
+    const calls = handler.createCallback('calls');
+
+    await simulateCallback(handler, { route: calls, body: { n: 1 } });
+    const fresh = handler.waitForCallback({ route: 'calls', includeRecent: false, match: (data) => data.body.n > 1, timeoutMs: 2000 });
+    await simulateCallback(handler, { body: { n: 5 } });
+    await simulateCallback(handler, { route: calls, body: { n: 2 } });
+
+    const data = await fresh;
+    assert.equal(data.route, 'calls');
+    assert.equal(data.body.n, 2);
+});
+
+test('waitForCallback rejects with the reason of an aborted signal', async (t) => {
+    const { handler } = await startHandler(t);
+    const controller = new AbortController();
+    const waiting = handler.waitForCallback({ signal: controller.signal, timeoutMs: 5000 });
+    controller.abort(new Error('no longer needed'));
+    await assert.rejects(waiting, /no longer needed/);
+});
+
+test('matchesCallback compares key/value pairs as strings across body and query', () => {
+    const data = { body: { CallStatus: 'completed', CallDuration: '7' }, queryParameters: { attempt: '2' } };
+    assert.equal(matchesCallback(data, undefined), true);
+    assert.equal(matchesCallback(data, { CallStatus: 'completed', CallDuration: 7 }), true);
+    assert.equal(matchesCallback(data, { attempt: 2 }), true);
+    assert.equal(matchesCallback(data, { CallStatus: 'busy' }), false);
+    assert.equal(matchesCallback(data, (candidate) => candidate.body.CallDuration === '7'), true);
+});